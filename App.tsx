@@ -1,26 +1,96 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import CodeEditor from './components/CodeEditor';
 import JsonVisualEditor from './components/JsonVisualEditor';
+import JsonQueryPanel from './components/JsonQueryPanel';
 import DiffViewer from './components/DiffViewer';
+import MergeViewer from './components/MergeViewer';
+import MarkdownPreview from './components/MarkdownPreview';
+import HistoryDrawer from './components/HistoryDrawer';
+import BatchFormatDialog from './components/BatchFormatDialog';
+import ShareUnlockDialog from './components/ShareUnlockDialog';
 import Toolbar from './components/Toolbar';
-import { detectLanguage, formatCode, minifyCode } from './utils/formatter';
-import { Language, ViewMode } from './types';
+import TabBar from './components/TabBar';
+import { DetectionResult, detectLanguageCandidates, LOW_CONFIDENCE } from './utils/languageDetector';
+import { AUTO_UPDATE_LIMIT, formatHunksInWorker, formatInWorker, isCancelled, minifyInWorker, validateInWorker } from './utils/formatClient';
+import { storeStyleOptions } from './utils/styleOptions';
+import { saveSnapshot } from './utils/history';
+import { createDocument, isBlankDocument, MAX_CLOSED_TABS, moveDocument, untitledName } from './utils/workspace';
+import { countDifferingLines, FormatHunk } from './utils/formatCheck';
+import { decodeShareFragment, encodeShareFragment, isEncryptedShareFragment, isShareFragment, MAX_SHARE_LINK_LENGTH, SharedState } from './utils/share';
+import { convertData, DATA_FORMAT_HIGHLIGHT, DataFormat, DEFAULT_CONVERSION_OPTIONS, detectDataFormat } from './utils/converter';
+import { Diagnostic, HistorySnapshot, JsMinifyOptions, Language, MergeInputs, MergeSide, SqlFormatOptions, StyleOptions, ViewMode, WorkspaceDocument } from './types';
+
+// Identifies what a history snapshot holds, to skip saving the same panes twice
+const sessionKey = ({ viewMode, language, input, output, merge }: SharedState) =>
+  JSON.stringify({ viewMode, language, input, output, merge });
 
 function App() {
-  const [inputCode, setInputCode] = useState<string>('');
-  const [outputCode, setOutputCode] = useState<string>('');
-  const [language, setLanguage] = useState<Language>(Language.JSON);
+  // Workspace tabs. The active tab's content lives in the editor state below and is written
+  // back into its entry when another tab is shown.
+  const [tabs, setTabs] = useState<WorkspaceDocument[]>(() => [createDocument({ name: 'Untitled 1' })]);
+  const [activeTabId, setActiveTabId] = useState<string>(() => tabs[0].id);
+  const [closedTabs, setClosedTabs] = useState<WorkspaceDocument[]>([]);
+  const activeTab = tabs.find((tab) => tab.id === activeTabId)!;
+
+  const [inputCode, setInputCode] = useState<string>(activeTab.input);
+  const [outputCode, setOutputCode] = useState<string>(activeTab.output);
+  const [language, setLanguage] = useState<Language>(activeTab.language);
   const [autoUpdate, setAutoUpdate] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [notification, setNotification] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<ViewMode>('formatter');
+  const [viewMode, setViewMode] = useState<ViewMode>(activeTab.viewMode);
+  const [mergeInputs, setMergeInputs] = useState<MergeInputs>(activeTab.merge);
+  const [sqlOptions, setSqlOptions] = useState<SqlFormatOptions>(activeTab.sqlOptions);
+  const [jsOptions, setJsOptions] = useState<JsMinifyOptions>(activeTab.jsOptions);
+  const [styleOptions, setStyleOptions] = useState<Record<Language, StyleOptions>>(activeTab.styleOptions);
+  const [syntaxCheck, setSyntaxCheck] = useState<boolean>(true);
+  // In Markdown mode the output pane can show the rendered input instead of the formatted source
+  const [markdownPreview, setMarkdownPreview] = useState<boolean>(false);
+  const [conversionOptions, setConversionOptions] = useState(DEFAULT_CONVERSION_OPTIONS);
+  // Set while the output pane holds converted data instead of formatted code
+  const [conversion, setConversion] = useState<{ from: DataFormat; to: DataFormat; warnings: string[] } | null>(null);
+  // undefined hides the problems panel, an empty list shows "no problems"
+  const [inputDiagnostics, setInputDiagnostics] = useState<Diagnostic[] | undefined>(undefined);
+  const [outputDiagnostics, setOutputDiagnostics] = useState<Diagnostic[] | undefined>(undefined);
+  // Number of format / minify jobs in flight, drives the toolbar busy indicator
+  const [busyJobs, setBusyJobs] = useState<number>(0);
+  const formatAbortRef = useRef<AbortController | null>(null);
+  const largeInput = inputCode.length > AUTO_UPDATE_LIMIT;
+  // Last automatic detection, whose runner-ups are offered when it was unsure
+  const [detection, setDetection] = useState<DetectionResult | null>(null);
+  const alternatives = detection && detection.confidence < LOW_CONFIDENCE
+    ? detection.candidates.filter((candidate) => candidate.language !== language).slice(0, 3)
+    : [];
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false);
+  const [batchOpen, setBatchOpen] = useState<boolean>(false);
+  // Set while the Diff Checker compares the input with its formatted version
+  const [formatCheck, setFormatCheck] = useState<boolean>(false);
+  // Hunks of the format check, with the texts they were computed from
+  const [formatCheckHunks, setFormatCheckHunks] = useState<{ input: string; formatted: string; hunks: FormatHunk[] } | null>(null);
+  const currentFormatHunks = formatCheckHunks?.input === inputCode && formatCheckHunks.formatted === outputCode
+    ? formatCheckHunks.hunks
+    : null;
+  // Snapshot each tab is saved into, missing until its first save or after it was sealed
+  const sessionIdsRef = useRef<Record<string, number | null>>({});
+  // Saves run one after another so a session never forks into two snapshots
+  const historySaveRef = useRef<Promise<void>>(Promise.resolve());
+  // Session key of each tab's last save, so unchanged tabs are not written again
+  const lastSavedRef = useRef<Record<string, string>>({});
+  // Fragment of an encrypted share link waiting for its passphrase
+  const [lockedShare, setLockedShare] = useState<string | null>(null);
+
+  // A format started for older input is stale once the input or language changes
+  useEffect(() => {
+    formatAbortRef.current?.abort();
+  }, [inputCode, language]);
 
   // Debounce helper for real-time updates in Formatter Mode
   useEffect(() => {
-    // Skip if in Diff mode or JSON visual mode
-    if (viewMode === 'diff' || language === Language.JSON) return;
+    // Skip if in Diff/Merge mode or JSON visual mode
+    if (viewMode !== 'formatter' || language === Language.JSON) return;
 
-    if (!autoUpdate || !inputCode.trim()) return;
+    // Huge inputs fall back to manual formatting
+    if (!autoUpdate || largeInput || !inputCode.trim()) return;
 
     const timeoutId = setTimeout(async () => {
       handleBeautify(true);
@@ -28,7 +98,95 @@ function App() {
 
     return () => clearTimeout(timeoutId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [inputCode, language, autoUpdate, viewMode]);
+  }, [inputCode, language, autoUpdate, viewMode, sqlOptions, styleOptions]);
+
+  useEffect(() => {
+    storeStyleOptions(styleOptions);
+  }, [styleOptions]);
+
+  useEffect(() => {
+    if (viewMode !== 'diff') setFormatCheck(false);
+  }, [viewMode]);
+
+  // Opens share links, on load and when a new one is pasted into the address bar. The listener
+  // goes through a ref so a later link lands in the workspace as it is then, not as it was on load.
+  const openShareLinkRef = useRef<() => void>(() => {});
+  openShareLinkRef.current = async () => {
+    const hash = window.location.hash;
+    if (!isShareFragment(hash)) return;
+    // The code moves into the editors; left in the address bar it would come back on every refresh
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    if (isEncryptedShareFragment(hash)) {
+      setLockedShare(hash);
+      return;
+    }
+    try {
+      openSharedState(await decodeShareFragment(hash));
+    } catch (e: any) {
+      setError(e.message || 'Could not open the shared link');
+    }
+  };
+
+  useEffect(() => {
+    const handleHashChange = () => openShareLinkRef.current();
+    handleHashChange();
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Debounced autosave of the session into the local history
+  useEffect(() => {
+    const timeoutId = setTimeout(() => snapshotNow(), 1500);
+    return () => clearTimeout(timeoutId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inputCode, outputCode, mergeInputs, language, viewMode]);
+
+  // Debounced syntax check of the editable panes (both sides in Diff mode)
+  useEffect(() => {
+    if (!syntaxCheck) {
+      setInputDiagnostics(undefined);
+      setOutputDiagnostics(undefined);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        const input = await validateInWorker(inputCode, language, sqlOptions.dialect, controller.signal);
+        const output = viewMode === 'diff' ? await validateInWorker(outputCode, language, sqlOptions.dialect, controller.signal) : undefined;
+        if (controller.signal.aborted) return;
+        setInputDiagnostics(input);
+        setOutputDiagnostics(output);
+      } catch (e) {
+        if (!isCancelled(e)) console.warn('Syntax check failed:', e);
+      }
+    }, 500);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timeoutId);
+    };
+  }, [inputCode, outputCode, language, viewMode, syntaxCheck, sqlOptions.dialect]);
+
+  // The format check follows edits and accepted hunks; diffing runs in the worker as it can be slow
+  useEffect(() => {
+    if (!formatCheck || currentFormatHunks) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        const hunks = await formatHunksInWorker(inputCode, outputCode, controller.signal);
+        if (!controller.signal.aborted) setFormatCheckHunks({ input: inputCode, formatted: outputCode, hunks });
+      } catch (e) {
+        if (!isCancelled(e)) console.warn('Format check failed:', e);
+      }
+    }, 300);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timeoutId);
+    };
+  }, [inputCode, outputCode, formatCheck, currentFormatHunks]);
 
 
   const showNotification = (msg: string) => {
@@ -36,6 +194,192 @@ function App() {
     setTimeout(() => setNotification(null), 3000);
   };
 
+  // Queues a save of the active tab. A sealed session is finished: the tab's next save starts a new snapshot.
+  const snapshotNow = (seal: boolean = false) => {
+    const tabId = activeTabId;
+    const draft = { viewMode, language, input: inputCode, output: outputCode, merge: mergeInputs };
+    const key = sessionKey(draft);
+    const skip = key === lastSavedRef.current[tabId] || [inputCode, outputCode, ...Object.values(mergeInputs)].every((text) => !text.trim());
+    lastSavedRef.current[tabId] = key;
+    historySaveRef.current = historySaveRef.current
+      .then(async () => {
+        if (!skip) sessionIdsRef.current[tabId] = await saveSnapshot(draft, sessionIdsRef.current[tabId] ?? null);
+      })
+      .catch((e) => console.warn('Saving history failed:', e))
+      .then(() => {
+        if (seal) sessionIdsRef.current[tabId] = null;
+      });
+  };
+
+  // Clear buttons keep what they wipe in the history
+  const clearing = (clear: () => void) => () => {
+    snapshotNow(true);
+    clear();
+  };
+
+  // The active tab with the editors' current content
+  const currentDocument = (): WorkspaceDocument => ({
+    ...activeTab,
+    viewMode,
+    language,
+    input: inputCode,
+    output: outputCode,
+    merge: mergeInputs,
+    sqlOptions,
+    jsOptions,
+    styleOptions,
+  });
+
+  // Puts a tab into the editors; the caller has already written the active tab back
+  const showDocument = (doc: WorkspaceDocument) => {
+    formatAbortRef.current?.abort();
+    setActiveTabId(doc.id);
+    setViewMode(doc.viewMode);
+    setLanguage(doc.language);
+    setInputCode(doc.input);
+    setOutputCode(doc.output);
+    setMergeInputs(doc.merge);
+    setSqlOptions(doc.sqlOptions);
+    setJsOptions(doc.jsOptions);
+    setStyleOptions(doc.styleOptions);
+    setDetection(null);
+    setConversion(null);
+    setFormatCheck(false);
+    setError(null);
+  };
+
+  const handleSelectTab = (id: string) => {
+    const target = tabs.find((tab) => tab.id === id);
+    if (!target || id === activeTabId) return;
+    snapshotNow();
+    setTabs(tabs.map((tab) => (tab.id === activeTabId ? currentDocument() : tab)));
+    showDocument(target);
+  };
+
+  // Opens content in tabs of their own, showing the first. An empty active tab is replaced
+  // rather than left behind, unless `reuseBlank` is off (the "new tab" button).
+  const openInNewTabs = (fieldsList: (Partial<Omit<WorkspaceDocument, 'id'>> & { name: string })[], reuseBlank: boolean = true): WorkspaceDocument[] => {
+    const current = currentDocument();
+    const docs = fieldsList.map(createDocument);
+    const index = tabs.findIndex((tab) => tab.id === activeTabId);
+    const next = tabs.map((tab) => (tab.id === activeTabId ? current : tab));
+    const replaced = reuseBlank && isBlankDocument(current);
+    next.splice(replaced ? index : index + 1, replaced ? 1 : 0, ...docs);
+    snapshotNow();
+    setTabs(next);
+    showDocument(docs[0]);
+    return docs;
+  };
+
+  const openInNewTab = (fields: Partial<Omit<WorkspaceDocument, 'id'>> & { name: string }, reuseBlank: boolean = true): WorkspaceDocument =>
+    openInNewTabs([fields], reuseBlank)[0];
+
+  const handleCloseTab = (id: string) => {
+    const index = tabs.findIndex((tab) => tab.id === id);
+    if (index < 0) return;
+    const closed = id === activeTabId ? currentDocument() : tabs[index];
+    if (id === activeTabId) snapshotNow();
+    if (!isBlankDocument(closed)) setClosedTabs([closed, ...closedTabs].slice(0, MAX_CLOSED_TABS));
+
+    const remaining = tabs.filter((tab) => tab.id !== id);
+    if (remaining.length === 0) {
+      const fresh = createDocument({ name: untitledName([]) });
+      setTabs([fresh]);
+      showDocument(fresh);
+    } else {
+      setTabs(remaining);
+      if (id === activeTabId) showDocument(remaining[Math.max(0, index - 1)]);
+    }
+  };
+
+  const handleReopenTab = (id: string) => {
+    const doc = closedTabs.find((tab) => tab.id === id);
+    if (!doc) return;
+    setClosedTabs(closedTabs.filter((tab) => tab.id !== id));
+    snapshotNow();
+    const index = tabs.findIndex((tab) => tab.id === activeTabId);
+    const next = tabs.map((tab) => (tab.id === activeTabId ? currentDocument() : tab));
+    next.splice(index + 1, 0, doc);
+    setTabs(next);
+    showDocument(doc);
+    showNotification(`Reopened ${doc.name}`);
+  };
+
+  const handleRenameTab = (id: string, name: string) => {
+    setTabs(tabs.map((tab) => (tab.id === id ? { ...tab, name } : tab)));
+  };
+
+  const handleTabUpload = (files: { content: string; fileName: string }[]) => {
+    const results = files.map(({ content }) => detectLanguageCandidates(content));
+    openInNewTabs(files.map(({ content, fileName }, i) => ({ name: fileName, language: results[i].language, input: content })));
+    setDetection(results[0]);
+    showNotification(files.length === 1 ? `Opened ${files[0].fileName} (${results[0].language})` : `Opened ${files.length} files in new tabs`);
+  };
+
+  const handleTabPaste = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      const result = detectLanguageCandidates(text);
+      openInNewTab({ name: untitledName(tabs), language: result.language, input: text });
+      setDetection(result);
+      showNotification(`Pasted into a new tab (${result.language})`);
+    } catch (err) {
+      showNotification('Failed to read clipboard');
+    }
+  };
+
+  // A saved or shared session opens in a tab of its own, marked as saved already
+  const openSessionTab = (session: SharedState, name: string): WorkspaceDocument => {
+    const { viewMode: mode, language: lang, input, output, merge } = session;
+    const doc = openInNewTab({ name, viewMode: mode, language: lang, input, output, merge });
+    lastSavedRef.current[doc.id] = sessionKey(session);
+    return doc;
+  };
+
+  const handleRestore = (snapshot: HistorySnapshot) => {
+    const doc = openSessionTab(snapshot, `Snapshot ${new Date(snapshot.updatedAt).toLocaleTimeString()}`);
+    // Further edits continue the restored snapshot, or branch off it when it is pinned
+    historySaveRef.current = historySaveRef.current.then(() => {
+      sessionIdsRef.current[doc.id] = snapshot.id;
+    });
+    setHistoryOpen(false);
+    showNotification(`Restored snapshot from ${new Date(snapshot.updatedAt).toLocaleString()}`);
+  };
+
+  // Shared code starts a session of its own once it is edited
+  const openSharedState = (state: SharedState) => {
+    openSessionTab(state, `Shared ${state.language.toUpperCase()}`);
+    showNotification(`Opened shared ${state.language.toUpperCase()} ${state.viewMode === 'formatter' ? 'code' : state.viewMode}`);
+  };
+
+  const handleUnlockShare = async (passphrase: string) => {
+    openSharedState(await decodeShareFragment(lockedShare!, passphrase));
+    setLockedShare(null);
+  };
+
+  // Only the panes of the current mode go into the link
+  const handleCreateShareLink = async (passphrase: string): Promise<string> => {
+    const merge = viewMode === 'merge';
+    const fragment = await encodeShareFragment({
+      viewMode,
+      language,
+      input: merge ? '' : inputCode,
+      output: merge ? '' : outputCode,
+      merge: merge ? mergeInputs : { base: '', ours: '', theirs: '' },
+    }, passphrase);
+    const link = `${window.location.origin}${window.location.pathname}${window.location.search}${fragment}`;
+    if (link.length > MAX_SHARE_LINK_LENGTH) {
+      throw new Error(`The link would be ${link.length.toLocaleString()} characters long, too long for browsers to open`);
+    }
+    return link;
+  };
+
+  const detectLanguage = (text: string): Language => {
+    const result = detectLanguageCandidates(text);
+    setDetection(result);
+    return result.language;
+  };
+
   const handleLanguageChange = (val: string) => {
     if (val === 'auto') {
         const detected = detectLanguage(inputCode);
@@ -43,33 +387,55 @@ function App() {
         showNotification(`Auto-detected: ${detected.toUpperCase()}`);
     } else {
         setLanguage(val as Language);
+        setDetection(null);
+    }
+  };
+
+  // Runs a worker job for the current input, cancelling the previous one
+  const runFormatJob = async <T,>(job: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    formatAbortRef.current?.abort();
+    const controller = new AbortController();
+    formatAbortRef.current = controller;
+    setBusyJobs((count) => count + 1);
+    try {
+      return await job(controller.signal);
+    } finally {
+      setBusyJobs((count) => count - 1);
     }
   };
 
   const handleBeautify = async (silent: boolean = false) => {
     setError(null);
     try {
-      const formatted = await formatCode(inputCode, language);
+      const formatted = await runFormatJob((signal) =>
+        formatInWorker(inputCode, language, { sql: sqlOptions, style: styleOptions[language] }, signal)
+      );
       // If we are in JSON mode (single pane), we update inputCode directly
       if (language === Language.JSON) {
          setInputCode(formatted);
       } else {
          setOutputCode(formatted);
+         setConversion(null);
       }
       if (!silent) showNotification('Code beautified successfully!');
     } catch (e: any) {
+      if (isCancelled(e)) return;
       if (!silent) {
         setError(e.message || 'Formatting failed');
+        // Point at the offending location, even when the syntax check mode is off
+        setInputDiagnostics(await validateInWorker(inputCode, language, sqlOptions.dialect).catch(() => undefined));
       } else {
          console.warn("Auto-format failed:", e.message);
       }
     }
   };
 
-  const handleMinify = () => {
+  const handleMinify = async () => {
     setError(null);
     try {
-      const minified = minifyCode(inputCode, language);
+      const minified = await runFormatJob((signal) =>
+        minifyInWorker(inputCode, language, { sql: sqlOptions, js: jsOptions, style: styleOptions[language] }, signal)
+      );
       
       // Safety check: if minification returns empty string but input wasn't empty, something went wrong (bad regex)
       // or if logic returned error.
@@ -81,14 +447,56 @@ function App() {
         setInputCode(minified);
       } else {
         setOutputCode(minified);
+        setConversion(null);
       }
       showNotification('Code minified successfully!');
     } catch (e: any) {
+      if (isCancelled(e)) return;
       setError(e.message || 'Minification failed');
       console.error(e);
     }
   };
 
+  // Formats a copy of the input and, when it differs, shows both in the Diff Checker: the input
+  // as Original, so changes accepted from the formatted side land in it
+  const handleCheckFormatting = async () => {
+    setError(null);
+    try {
+      const { formatted, hunks } = await runFormatJob(async (signal) => {
+        const formatted = await formatInWorker(inputCode, language, { sql: sqlOptions, style: styleOptions[language] }, signal);
+        return { formatted, hunks: formatted === inputCode ? [] : await formatHunksInWorker(inputCode, formatted, signal) };
+      });
+      const differing = countDifferingLines(hunks);
+      if (differing === 0) {
+        showNotification('Already formatted');
+        return;
+      }
+      setOutputCode(formatted);
+      setFormatCheckHunks({ input: inputCode, formatted, hunks });
+      setConversion(null);
+      setViewMode('diff');
+      setFormatCheck(true);
+      showNotification(`${differing} ${differing === 1 ? 'line differs' : 'lines differ'} from the formatted output`);
+    } catch (e: any) {
+      if (isCancelled(e)) return;
+      setError(e.message || 'Formatting failed');
+      setInputDiagnostics(await validateInWorker(inputCode, language, sqlOptions.dialect).catch(() => undefined));
+    }
+  };
+
+  const handleConvert = (from: DataFormat | 'auto', to: DataFormat) => {
+    setError(null);
+    const source = from === 'auto' ? detectDataFormat(inputCode, language) : from;
+    try {
+      const result = convertData(inputCode, source, to, conversionOptions);
+      setOutputCode(result.output);
+      setConversion({ from: source, to, warnings: result.warnings });
+      showNotification(`Converted ${source.toUpperCase()} to ${to.toUpperCase()}`);
+    } catch (e: any) {
+      setError(e.message || 'Conversion failed');
+    }
+  };
+
   const handleInputUpload = (content: string, fileName: string) => {
     setInputCode(content);
     const detected = detectLanguage(content);
@@ -96,11 +504,32 @@ function App() {
     showNotification(`Loaded ${fileName} (${detected})`);
   };
   
+  // Same detection as an upload, from whichever side of the pair exists
+  const handleOpenPair = (original: string, modified: string, path: string) => {
+    setFormatCheck(false);
+    setInputCode(original);
+    setOutputCode(modified);
+    const detected = detectLanguage(original || modified);
+    setLanguage(detected);
+    showNotification(`Comparing ${path} (${detected})`);
+  };
+
   const handleOutputUpload = (content: string, fileName: string) => {
     setOutputCode(content);
     showNotification(`Loaded ${fileName} as Modified`);
   };
 
+  const handleMergeInputChange = (side: MergeSide, value: string) => {
+    setMergeInputs((inputs) => ({ ...inputs, [side]: value }));
+  };
+
+  const handleMergeUpload = (side: MergeSide, content: string, fileName: string) => {
+    handleMergeInputChange(side, content);
+    const detected = detectLanguage(content);
+    setLanguage(detected);
+    showNotification(`Loaded ${fileName} as ${side} (${detected})`);
+  };
+
   const handleInputChange = (newCode: string | undefined) => {
     const val = newCode || '';
     
@@ -116,13 +545,13 @@ function App() {
     setInputCode(val);
   };
 
-  const handleDownload = (content: string, suffix: string) => {
+  const handleDownload = (content: string, suffix: string, extension?: string) => {
     if (!content) return;
     const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    const ext = language === Language.JAVASCRIPT ? 'js' : language;
+    const ext = extension || (language === Language.JAVASCRIPT ? 'js' : language);
     a.download = `code-${suffix}-${Date.now()}.${ext}`;
     document.body.appendChild(a);
     a.click();
@@ -162,15 +591,47 @@ function App() {
     // Mobile: min-h-screen (scrollable). Desktop: h-screen (fixed).
     <div className="min-h-screen lg:h-screen bg-gray-950 text-gray-200 flex flex-col overflow-x-hidden w-full">
       <div className="flex-none">
+        <TabBar
+            tabs={tabs.map((tab) => (tab.id === activeTabId ? { ...tab, language } : tab))}
+            activeId={activeTabId}
+            closedTabs={closedTabs}
+            onSelect={handleSelectTab}
+            onNew={() => openInNewTab({ name: untitledName(tabs), language }, false)}
+            onClose={handleCloseTab}
+            onRename={handleRenameTab}
+            onMove={(id, targetId) => setTabs(moveDocument(tabs, id, targetId))}
+            onReopen={handleReopenTab}
+            onUpload={handleTabUpload}
+            onPaste={handleTabPaste}
+        />
         <Toolbar 
             language={language}
             setLanguage={handleLanguageChange}
+            alternatives={alternatives}
             onBeautify={() => handleBeautify(false)}
             onMinify={handleMinify}
+            onCheckFormatting={handleCheckFormatting}
             autoUpdate={autoUpdate}
             setAutoUpdate={setAutoUpdate}
+            autoUpdatePaused={largeInput}
+            busy={busyJobs > 0}
             viewMode={viewMode}
             setViewMode={setViewMode}
+            sqlOptions={sqlOptions}
+            setSqlOptions={setSqlOptions}
+            jsOptions={jsOptions}
+            setJsOptions={setJsOptions}
+            styleOptions={styleOptions[language]}
+            setStyleOptions={(options) => setStyleOptions({ ...styleOptions, [language]: options })}
+            syntaxCheck={syntaxCheck}
+            setSyntaxCheck={setSyntaxCheck}
+            conversionOptions={conversionOptions}
+            setConversionOptions={setConversionOptions}
+            onConvert={handleConvert}
+            onShowHistory={() => setHistoryOpen(true)}
+            onShowBatch={() => setBatchOpen(true)}
+            onCreateShareLink={handleCreateShareLink}
+            onCopy={handleCopy}
         />
       </div>
 
@@ -190,6 +651,16 @@ function App() {
           )}
         </div>
 
+        {/* Lossy Conversion Warnings */}
+        {viewMode === 'formatter' && conversion && conversion.warnings.length > 0 && (
+          <div className="flex-none bg-yellow-900/30 border border-yellow-700/60 text-yellow-200 rounded-lg px-4 py-2 text-sm">
+            <span className="font-semibold">{conversion.from.toUpperCase()} → {conversion.to.toUpperCase()} may lose information:</span>
+            <ul className="list-disc list-inside text-yellow-200/90">
+              {conversion.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+            </ul>
+          </div>
+        )}
+
         {/* View Switching Logic */}
         <div className="flex-grow relative flex flex-col min-h-[500px] lg:min-h-0 w-full">
             {viewMode === 'diff' ? (
@@ -201,20 +672,60 @@ function App() {
                     onModifiedChange={setOutputCode}
                     onOriginalUpload={handleInputUpload}
                     onModifiedUpload={handleOutputUpload}
+                    onOpenPair={handleOpenPair}
+                    formatCheck={formatCheck}
+                    formatCheckHunks={currentFormatHunks}
+                    onCloseFormatCheck={() => setFormatCheck(false)}
+                    onCopy={handleCopy}
+                    onDownload={handleDownload}
+                    originalDiagnostics={inputDiagnostics}
+                    modifiedDiagnostics={outputDiagnostics}
+                />
+            ) : viewMode === 'merge' ? (
+                <MergeViewer
+                    language={language}
+                    inputs={mergeInputs}
+                    onInputChange={handleMergeInputChange}
+                    onUpload={handleMergeUpload}
                     onCopy={handleCopy}
                     onDownload={handleDownload}
                 />
             ) : (
                 <>
                     {language === Language.JSON ? (
-                        // Single Pane for JSON Formatter
-                        <JsonVisualEditor 
-                            title="JSON Visual Editor"
-                            value={inputCode}
-                            onChange={handleJsonChange}
-                            onClear={() => setInputCode('')}
-                            onDownload={() => handleDownload(inputCode, 'input')}
-                        />
+                        // Single Pane for JSON Formatter, with the query bar above it
+                        // and the converted data next to it after a conversion
+                        <div className={`grid grid-cols-1 gap-6 h-full w-full ${conversion ? 'lg:grid-cols-2' : ''}`}>
+                        <div className="flex flex-col gap-4 h-full w-full">
+                            <JsonQueryPanel
+                                value={inputCode}
+                                onReplace={setInputCode}
+                                onCopy={handleCopy}
+                            />
+                            <div className="flex-grow min-h-0">
+                                <JsonVisualEditor 
+                                    title="JSON Visual Editor"
+                                    value={inputCode}
+                                    onChange={handleJsonChange}
+                                    onClear={clearing(() => setInputCode(''))}
+                                    onDownload={() => handleDownload(inputCode, 'input')}
+                                    onSwitchLanguage={handleLanguageChange}
+                                />
+                            </div>
+                        </div>
+                        {conversion && (
+                            <CodeEditor
+                                title={`Converted to ${conversion.to.toUpperCase()}`}
+                                language={language}
+                                highlightLanguage={DATA_FORMAT_HIGHLIGHT[conversion.to]}
+                                value={outputCode}
+                                onChange={(val) => setOutputCode(val || '')}
+                                onClear={clearing(() => { setOutputCode(''); setConversion(null); })}
+                                onCopy={() => handleCopy(outputCode)}
+                                onDownload={() => handleDownload(outputCode, 'converted', conversion.to)}
+                            />
+                        )}
+                        </div>
                     ) : (
                         // Split Pane for other languages Formatter
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-full w-full">
@@ -223,23 +734,34 @@ function App() {
                                 language={language}
                                 value={inputCode}
                                 onChange={handleInputChange}
-                                onClear={() => setInputCode('')}
+                                onClear={clearing(() => setInputCode(''))}
                                 onCopy={() => handleCopy(inputCode)}
                                 onPaste={handlePaste}
                                 onUpload={handleInputUpload}
                                 onDownload={() => handleDownload(inputCode, 'input')}
+                                diagnostics={inputDiagnostics}
                             />
                             
+                            {language === Language.MARKDOWN && markdownPreview && !conversion ? (
+                            <MarkdownPreview
+                                value={inputCode}
+                                onShowEditor={() => setMarkdownPreview(false)}
+                                onCopy={handleCopy}
+                            />
+                            ) : (
                             <CodeEditor 
-                                title="Output / Result"
+                                title={conversion ? `Output / Converted to ${conversion.to.toUpperCase()}` : 'Output / Result'}
                                 language={language}
+                                highlightLanguage={conversion ? DATA_FORMAT_HIGHLIGHT[conversion.to] : undefined}
                                 value={outputCode}
                                 onChange={(val) => setOutputCode(val || '')}
-                                onClear={() => setOutputCode('')}
+                                onClear={clearing(() => { setOutputCode(''); setConversion(null); })}
                                 onCopy={() => handleCopy(outputCode)}
-                                onDownload={() => handleDownload(outputCode, 'output')}
+                                onDownload={() => handleDownload(outputCode, 'output', conversion?.to)}
+                                onShowPreview={language === Language.MARKDOWN && !conversion ? () => setMarkdownPreview(true) : undefined}
                                 readOnly={false} 
                             />
+                            )}
                         </div>
                     )}
                 </>
@@ -259,6 +781,26 @@ function App() {
           </a>
         </div>
       </main>
+
+      <HistoryDrawer
+          open={historyOpen}
+          onClose={() => setHistoryOpen(false)}
+          onRestore={handleRestore}
+      />
+
+      {batchOpen && (
+        <BatchFormatDialog
+            onClose={() => setBatchOpen(false)}
+            optionsFor={(lang) => ({ sql: sqlOptions, js: jsOptions, style: styleOptions[lang] })}
+        />
+      )}
+
+      {lockedShare && (
+        <ShareUnlockDialog
+            onUnlock={handleUnlockShare}
+            onCancel={() => setLockedShare(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,211 @@
+import React, { useRef, useState } from 'react';
+import { Layers, X, Upload, Folder, FileArchive, Wand2, Zap, Download, Loader2, Square, CheckCircle2, XCircle, MinusCircle } from 'lucide-react';
+import { FormatMode, FormatOptions, Language } from '../types';
+import { BatchFile, BatchResult, batchToZip, runBatch } from '../utils/batchFormat';
+import { PickedFile, pickedFromDrop, pickedFromInput, readFileSet } from '../utils/folderDiff';
+
+interface BatchFormatDialogProps {
+  onClose: () => void;
+  // The current tab's settings for each language
+  optionsFor: (language: Language) => FormatOptions;
+}
+
+// A folder input lets the user pick a whole directory
+const DIRECTORY_INPUT = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+const STATUS_ICONS: Record<BatchResult['status'], React.ReactNode> = {
+  ok: <CheckCircle2 size={14} className="text-green-400 shrink-0" />,
+  error: <XCircle size={14} className="text-red-400 shrink-0" />,
+  skipped: <MinusCircle size={14} className="text-gray-500 shrink-0" />,
+};
+
+const iconButtonClass = 'flex items-center gap-1 px-2 py-1 text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors text-xs';
+
+const BatchFormatDialog: React.FC<BatchFormatDialogProps> = ({ onClose, optionsFor }) => {
+  const [files, setFiles] = useState<BatchFile[]>([]);
+  const [label, setLabel] = useState<string>('');
+  const [mode, setMode] = useState<FormatMode>('beautify');
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [running, setRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const load = async (picked: Promise<PickedFile[]> | PickedFile[]) => {
+    setError(null);
+    try {
+      // Paths are kept as they are, so the archive comes back with the same layout
+      const set = await readFileSet(await picked, false);
+      setFiles([...set.files].map(([path, bytes]) => ({ path, bytes })));
+      setLabel(set.label);
+      setResults([]);
+    } catch (e: any) {
+      setError(e.message || 'The files could not be read');
+    }
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = pickedFromInput(e.target.files);
+    e.target.value = '';
+    if (picked.length) load(picked);
+  };
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResults([]);
+    setRunning(true);
+    try {
+      await runBatch(files, mode, optionsFor, (result) => setResults((current) => [...current, result]), controller.signal);
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleDownload = async () => {
+    const archive = await batchToZip(files, results);
+    const url = URL.createObjectURL(new Blob([archive], { type: 'application/zip' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${label.replace(/\.zip$/i, '') || 'files'}-${mode === 'beautify' ? 'formatted' : 'minified'}.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const succeeded = results.filter(({ status }) => status === 'ok').length;
+  const failed = results.filter(({ status }) => status === 'error').length;
+  const done = !running && results.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-3xl max-h-full bg-gray-800 border border-gray-700 rounded-lg shadow-2xl flex flex-col text-sm text-gray-300">
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-900 border-b border-gray-700 rounded-t-lg">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-200 uppercase tracking-wider">
+            <Layers size={16} /> Batch formatting
+          </h2>
+          <button onClick={handleClose} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition-colors" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-3 min-h-0">
+          <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              load(pickedFromDrop(e.dataTransfer));
+            }}
+            className="flex flex-col items-center gap-2 px-4 py-5 border border-dashed border-gray-600 rounded text-center"
+          >
+            <span className="text-gray-400">
+              {files.length ? `${label} · ${files.length} files` : 'Drop files, a folder or a .zip archive here'}
+            </span>
+            <div className="flex items-center gap-1">
+              <input type="file" multiple ref={fileInputRef} onChange={handleInput} className="hidden" />
+              <input type="file" multiple ref={folderInputRef} onChange={handleInput} className="hidden" {...DIRECTORY_INPUT} />
+              <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass}>
+                <Upload size={14} /> Files
+              </button>
+              <button onClick={() => folderInputRef.current?.click()} className={iconButtonClass}>
+                <Folder size={14} /> Folder
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Pick a single .zip to format what it holds">
+                <FileArchive size={14} /> Zip
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+              {(['beautify', 'minify'] as FormatMode[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  disabled={running}
+                  className={`flex items-center gap-2 px-3 py-1 rounded-md text-sm font-medium transition-all ${
+                    mode === value ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'
+                  }`}
+                >
+                  {value === 'beautify' ? <Wand2 size={14} /> : <Zap size={14} />}
+                  {value === 'beautify' ? 'Beautify' : 'Minify'}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              {running ? (
+                <button
+                  onClick={() => abortRef.current?.abort()}
+                  className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 px-4 py-2 rounded font-medium transition-colors text-sm"
+                >
+                  <Square size={14} /> Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleRun}
+                  disabled={files.length === 0}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded font-medium transition-colors text-sm disabled:opacity-50"
+                >
+                  {mode === 'beautify' ? <Wand2 size={14} /> : <Zap size={14} />} Run
+                </button>
+              )}
+              <button
+                onClick={handleDownload}
+                disabled={!done}
+                className="flex items-center gap-2 bg-green-700 hover:bg-green-600 text-white px-4 py-2 rounded font-medium transition-colors text-sm disabled:opacity-50"
+                title="Files that failed or were skipped are included unchanged"
+              >
+                <Download size={14} /> Download zip
+              </button>
+            </div>
+          </div>
+
+          {(running || results.length > 0) && (
+            <div className="flex items-center gap-3 text-xs text-gray-400">
+              {running && <Loader2 size={14} className="animate-spin text-blue-300" />}
+              <span>{results.length} / {files.length} processed</span>
+              <span className="text-green-400">{succeeded} formatted</span>
+              <span className="text-red-400">{failed} failed</span>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <ul className="overflow-y-auto max-h-80 bg-gray-950/50 rounded border border-gray-700 divide-y divide-gray-800 font-mono text-xs">
+              {results.map((result) => (
+                <li key={result.path} className="flex items-start gap-2 px-3 py-1.5">
+                  {STATUS_ICONS[result.status]}
+                  <span className="truncate text-gray-200">{result.path}</span>
+                  {result.language && (
+                    <span
+                      className="ml-auto shrink-0 uppercase text-gray-500"
+                      title={result.detectedBy === 'content' ? 'Guessed from the content' : 'From the file extension'}
+                    >
+                      {result.language}{result.detectedBy === 'content' ? '?' : ''}
+                    </span>
+                  )}
+                  {result.message && (
+                    <span className={`shrink-0 max-w-[50%] truncate ${result.status === 'error' ? 'text-red-300' : 'text-gray-500'} ${result.language ? '' : 'ml-auto'}`} title={result.message}>
+                      {result.message}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchFormatDialog;
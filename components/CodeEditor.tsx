@@ -1,7 +1,10 @@
-import React, { useRef } from 'react';
+import React, { useRef, useEffect } from 'react';
 import Editor, { OnMount } from '@monaco-editor/react';
 import { EditorProps } from '../types';
-import { Trash2, Copy, Upload, Download, Clipboard } from 'lucide-react';
+import { Trash2, Copy, Upload, Download, Clipboard, Eye } from 'lucide-react';
+import ProblemsPanel from './ProblemsPanel';
+import { setDiagnosticMarkers, revealDiagnostic } from '../utils/monacoMarkers';
+import { registerJsonDialects } from '../utils/monacoLanguages';
 
 const CodeEditor: React.FC<EditorProps> = ({ 
   language, 
@@ -13,15 +16,28 @@ const CodeEditor: React.FC<EditorProps> = ({
   onCopy,
   onPaste,
   onUpload,
-  onDownload
+  onDownload,
+  diagnostics,
+  highlightLanguage,
+  onShowPreview
 }) => {
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleEditorDidMount: OnMount = (editor) => {
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    setDiagnosticMarkers(monaco, editor.getModel(), diagnostics || []);
   };
 
+  // Keep inline markers in sync with the latest diagnostics
+  useEffect(() => {
+    if (editorRef.current) {
+      setDiagnosticMarkers(monacoRef.current, editorRef.current.getModel(), diagnostics || []);
+    }
+  }, [diagnostics]);
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && onUpload) {
@@ -43,6 +59,16 @@ const CodeEditor: React.FC<EditorProps> = ({
         <h2 className="text-sm font-semibold text-gray-200 uppercase tracking-wider">{title}</h2>
         
         <div className="flex items-center space-x-1">
+          {onShowPreview && (
+            <button 
+              onClick={onShowPreview}
+              className="p-1.5 text-gray-400 hover:text-blue-400 hover:bg-gray-800 rounded transition-colors"
+              title="Show Rendered Preview"
+            >
+              <Eye size={16} />
+            </button>
+          )}
+
           {onUpload && (
             <>
               <input 
@@ -103,10 +129,11 @@ const CodeEditor: React.FC<EditorProps> = ({
       <div className="flex-grow relative h-0 min-h-[400px]">
         <Editor
           height="100%"
-          language={language}
+          language={highlightLanguage || language}
           value={value}
           onChange={onChange}
           theme="vs-dark"
+          beforeMount={registerJsonDialects}
           onMount={handleEditorDidMount}
           options={{
             minimap: { enabled: false },
@@ -121,6 +148,13 @@ const CodeEditor: React.FC<EditorProps> = ({
         />
       </div>
       
+      {diagnostics && (
+        <ProblemsPanel
+          problems={diagnostics}
+          onSelect={(problem) => revealDiagnostic(editorRef.current, problem)}
+        />
+      )}
+
       {/* Editor Footer Status */}
       <div className="bg-gray-900 px-4 py-1 text-xs text-gray-500 flex justify-between border-t border-gray-700">
         <span>{language}</span>
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { ConversionOptions, DATA_FORMATS, DataFormat } from '../utils/converter';
+
+interface ConvertMenuProps {
+  options: ConversionOptions;
+  setOptions: (options: ConversionOptions) => void;
+  onConvert: (from: DataFormat | 'auto', to: DataFormat) => void;
+}
+
+const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+const inputClass = 'bg-gray-900 border border-gray-600 text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const ConvertMenu: React.FC<ConvertMenuProps> = ({ options, setOptions, onConvert }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [from, setFrom] = useState<DataFormat | 'auto'>('auto');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 px-4 py-2 rounded font-medium transition-all transform active:scale-95 text-sm"
+      >
+        <ArrowRightLeft size={16} />
+        Convert to…
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 z-20 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-4 flex flex-col gap-3 text-sm text-gray-300">
+          <label className="flex items-center justify-between gap-2">
+            <span>From</span>
+            <select value={from} onChange={(e) => setFrom(e.target.value as DataFormat | 'auto')} className={`${inputClass} cursor-pointer`}>
+              <option value="auto">Auto-detect</option>
+              {DATA_FORMATS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex flex-col gap-1">
+            <span>To</span>
+            <div className="grid grid-cols-5 gap-1">
+              {DATA_FORMATS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => { onConvert(from, value); setOpen(false); }}
+                  className="px-2 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs font-medium transition-colors"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t border-gray-700 pt-3 grid grid-cols-2 gap-2 text-xs">
+            <label className="flex flex-col gap-1" title="Keys with this prefix become XML attributes">
+              <span>XML attribute prefix</span>
+              <input
+                type="text"
+                value={options.xmlAttributePrefix}
+                onChange={(e) => setOptions({ ...options, xmlAttributePrefix: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="flex flex-col gap-1" title="Key holding the text of elements with attributes or children">
+              <span>XML text key</span>
+              <input
+                type="text"
+                value={options.xmlTextKey}
+                onChange={(e) => setOptions({ ...options, xmlTextKey: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>CSV delimiter</span>
+              <select
+                value={options.csvDelimiter}
+                onChange={(e) => setOptions({ ...options, csvDelimiter: e.target.value })}
+                className={`${inputClass} cursor-pointer`}
+              >
+                {CSV_DELIMITERS.map(({ value, label }) => (
+                  <option key={label} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1" title="Joins nested keys into CSV column names">
+              <span>CSV nesting separator</span>
+              <input
+                type="text"
+                value={options.csvFlattenSeparator}
+                onChange={(e) => setOptions({ ...options, csvFlattenSeparator: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConvertMenu;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Plus, X, SlidersHorizontal } from 'lucide-react';
+import { DiffNormalizationOptions, MASK_PRESETS, isNormalizationActive, validateMask } from '../utils/diffNormalizer';
+
+interface DiffNormalizationBarProps {
+  options: DiffNormalizationOptions;
+  setOptions: (options: DiffNormalizationOptions) => void;
+  warnings: string[];
+}
+
+const TOGGLES: { key: 'formatFirst' | 'ignoreWhitespace' | 'ignoreCase' | 'normalizeLineEndings'; label: string }[] = [
+  { key: 'formatFirst', label: 'Beautify first' },
+  { key: 'ignoreWhitespace', label: 'Ignore whitespace' },
+  { key: 'ignoreCase', label: 'Ignore case' },
+  { key: 'normalizeLineEndings', label: 'Normalize CRLF/LF' },
+];
+
+const DiffNormalizationBar: React.FC<DiffNormalizationBarProps> = ({ options, setOptions, warnings }) => {
+  const [maskInput, setMaskInput] = useState<string>('');
+  const maskError = maskInput ? validateMask(maskInput) : null;
+
+  const addMask = (pattern: string) => {
+    if (!pattern || validateMask(pattern) !== null || options.masks.includes(pattern)) return;
+    setOptions({ ...options, masks: [...options.masks, pattern] });
+    setMaskInput('');
+  };
+
+  const removeMask = (pattern: string) => {
+    setOptions({ ...options, masks: options.masks.filter((m) => m !== pattern) });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 px-4 py-2 bg-gray-900/60 border-b border-gray-700 text-xs text-gray-300">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-1 text-gray-400 font-semibold uppercase tracking-wider">
+          <SlidersHorizontal size={12} /> Compare
+        </span>
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-1.5 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={options[key]}
+              onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+              className="rounded border-gray-600 text-blue-500 focus:ring-blue-500 bg-gray-700"
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+
+        <div className="flex items-center gap-1 ml-auto">
+          <input
+            type="text"
+            value={maskInput}
+            onChange={(e) => setMaskInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addMask(maskInput)}
+            placeholder="Mask regex, e.g. \d{4}-\d{2}-\d{2}"
+            className={`bg-gray-900 border ${maskError ? 'border-red-600' : 'border-gray-600'} text-white px-2 py-1 rounded w-56 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500`}
+            title={maskError || 'Matches are blanked out on both sides before comparing'}
+          />
+          <button
+            onClick={() => addMask(maskInput)}
+            disabled={!maskInput || !!maskError}
+            className="p-1 text-gray-400 hover:text-blue-400 hover:bg-gray-800 rounded transition-colors disabled:opacity-40"
+            title="Add Mask"
+          >
+            <Plus size={14} />
+          </button>
+          <select
+            value=""
+            onChange={(e) => addMask(e.target.value)}
+            className="bg-gray-900 border border-gray-600 text-gray-300 py-1 px-2 rounded cursor-pointer"
+            title="Mask Presets"
+          >
+            <option value="" disabled>Presets…</option>
+            {MASK_PRESETS.map(({ label, pattern }) => (
+              <option key={label} value={pattern}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isNormalizationActive(options) && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-gray-500">Showing normalized text (read-only). Copy and download still use the originals.</span>
+          {options.masks.map((pattern) => (
+            <span key={pattern} className="flex items-center gap-1 bg-gray-800 border border-gray-700 rounded px-2 py-0.5 font-mono">
+              {pattern}
+              <button onClick={() => removeMask(pattern)} className="text-gray-500 hover:text-red-400" title="Remove Mask">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          {warnings.map((warning) => (
+            <span key={warning} className="text-yellow-300">{warning}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffNormalizationBar;
@@ -1,8 +1,19 @@
 import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { DiffEditor, OnMount } from '@monaco-editor/react';
-import { Language } from '../types';
-import { Upload, Trash2, FileText, Copy, Download } from 'lucide-react';
+import { Diagnostic, Language } from '../types';
+import { Upload, Trash2, FileText, Copy, Download, Braces, AlignLeft, FileDiff, FolderTree } from 'lucide-react';
 import CodeEditor from './CodeEditor';
+import JsonDiffPanel from './JsonDiffPanel';
+import PatchPanel from './PatchPanel';
+import FolderDiffPanel from './FolderDiffPanel';
+import FormatCheckPanel from './FormatCheckPanel';
+import { FormatHunk } from '../utils/formatCheck';
+import { DEFAULT_JSON_DIFF_OPTIONS, JsonDiffOptions } from '../utils/jsonDiff';
+import DiffNormalizationBar from './DiffNormalizationBar';
+import { DEFAULT_DIFF_NORMALIZATION, DiffNormalizationOptions, isNormalizationActive, normalizeForDiff } from '../utils/diffNormalizer';
+import ProblemsPanel, { Problem } from './ProblemsPanel';
+import { setDiagnosticMarkers, revealDiagnostic } from '../utils/monacoMarkers';
+import { registerJsonDialects } from '../utils/monacoLanguages';
 
 interface DiffViewerProps {
   language: Language;
@@ -12,8 +23,17 @@ interface DiffViewerProps {
   onModifiedChange: (value: string) => void;
   onOriginalUpload: (content: string, fileName: string) => void;
   onModifiedUpload: (content: string, fileName: string) => void;
+  // Loads one file pair picked from a folder / archive comparison
+  onOpenPair: (original: string, modified: string, path: string) => void;
+  // Set while Modified holds the formatted version of Original, to accept its changes hunk by hunk
+  formatCheck: boolean;
+  // Null while the hunks of the current texts are being computed
+  formatCheckHunks: FormatHunk[] | null;
+  onCloseFormatCheck: () => void;
   onCopy: (content: string) => void;
   onDownload: (content: string, suffix: string) => void;
+  originalDiagnostics?: Diagnostic[];
+  modifiedDiagnostics?: Diagnostic[];
 }
 
 const DiffViewer: React.FC<DiffViewerProps> = ({
@@ -24,16 +44,58 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
   onModifiedChange,
   onOriginalUpload,
   onModifiedUpload,
+  onOpenPair,
+  formatCheck,
+  formatCheckHunks,
+  onCloseFormatCheck,
   onCopy,
-  onDownload
+  onDownload,
+  originalDiagnostics,
+  modifiedDiagnostics
 }) => {
   const diffEditorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
   const originalFileInputRef = useRef<HTMLInputElement>(null);
   const modifiedFileInputRef = useRef<HTMLInputElement>(null);
   const listenersRef = useRef<any[]>([]);
   
   // Detect mobile width to toggle side-by-side vs inline view
   const [isMobile, setIsMobile] = useState<boolean>(window.innerWidth < 768);
+  // Structural comparison of parsed JSON trees instead of a line diff
+  const [structural, setStructural] = useState<boolean>(false);
+  const [jsonDiffOptions, setJsonDiffOptions] = useState<JsonDiffOptions>(DEFAULT_JSON_DIFF_OPTIONS);
+  const showStructural = structural && language === Language.JSON;
+  const [showPatch, setShowPatch] = useState<boolean>(false);
+  const [showFolders, setShowFolders] = useState<boolean>(false);
+  // Preprocessing applied to both sides before comparing; the editable originals stay untouched
+  const [normalization, setNormalization] = useState<DiffNormalizationOptions>(DEFAULT_DIFF_NORMALIZATION);
+  const [normalized, setNormalized] = useState<{ original: string; modified: string; warnings: string[] } | null>(null);
+  const normalizationActive = isNormalizationActive(normalization);
+  const shownOriginal = normalized ? normalized.original : original;
+  const shownModified = normalized ? normalized.modified : modified;
+  // Read by the model listeners: edits to derived text must not flow back into the originals
+  const showingNormalizedRef = useRef<boolean>(false);
+  showingNormalizedRef.current = normalized !== null;
+
+  useEffect(() => {
+    if (!normalizationActive) {
+      setNormalized(null);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([
+      normalizeForDiff(original, language, normalization),
+      normalizeForDiff(modified, language, normalization),
+    ]).then(([left, right]) => {
+      if (cancelled) return;
+      const warnings = [
+        ...(left.warning ? [`Original: ${left.warning}`] : []),
+        ...(right.warning ? [`Modified: ${right.warning}`] : []),
+      ];
+      setNormalized({ original: left.text, modified: right.text, warnings });
+    });
+    return () => { cancelled = true; };
+  }, [original, modified, language, normalization, normalizationActive]);
 
   useEffect(() => {
     const handleResize = () => {
@@ -55,7 +117,9 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
 
   // Memoize options to prevent unnecessary re-renders/re-initializations
   const editorOptions = useMemo(() => ({
-    originalEditable: true,
+    originalEditable: !normalizationActive,
+    readOnly: normalizationActive,
+    ignoreTrimWhitespace: normalization.ignoreWhitespace,
     fontSize: 14,
     wordWrap: 'on' as const,
     scrollBeyondLastLine: false,
@@ -63,7 +127,7 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
     padding: { top: 16, bottom: 16 },
     fontFamily: "'Fira Code', 'Cascadia Code', Consolas, monospace",
     renderSideBySide: true
-  }), []);
+  }), [normalizationActive, normalization.ignoreWhitespace]);
 
   // Sync Props to Model safely (Fix for Reverse Writing / Cursor Jump)
   // We only update if the model exists, isn't disposed, and the value actually differs.
@@ -76,15 +140,15 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
             
             if (originalEditor) {
                 const model = originalEditor.getModel();
-                if (model && !model.isDisposed() && model.getValue() !== original) {
-                    model.setValue(original);
+                if (model && !model.isDisposed() && model.getValue() !== shownOriginal) {
+                    model.setValue(shownOriginal);
                 }
             }
             
             if (modifiedEditor) {
                 const model = modifiedEditor.getModel();
-                if (model && !model.isDisposed() && model.getValue() !== modified) {
-                    model.setValue(modified);
+                if (model && !model.isDisposed() && model.getValue() !== shownModified) {
+                    model.setValue(shownModified);
                 }
             }
         } catch (e) {
@@ -92,11 +156,32 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
             console.warn("Safe sync skipped", e);
         }
     }
-  }, [original, modified, isMobile]);
+  }, [shownOriginal, shownModified, isMobile]);
 
 
-  const handleEditorDidMount: OnMount = (editor) => {
+  // Render diagnostics of each side as inline markers (their positions only match the original text)
+  useEffect(() => {
+    if (diffEditorRef.current && !isMobile) {
+      const editor = diffEditorRef.current;
+      setDiagnosticMarkers(monacoRef.current, editor.getOriginalEditor()?.getModel(), normalized ? [] : originalDiagnostics || []);
+      setDiagnosticMarkers(monacoRef.current, editor.getModifiedEditor()?.getModel(), normalized ? [] : modifiedDiagnostics || []);
+    }
+  }, [originalDiagnostics, modifiedDiagnostics, isMobile, normalized]);
+
+  const problems: Problem[] = useMemo(() => [
+    ...(originalDiagnostics || []).map((d) => ({ ...d, source: 'Original' })),
+    ...(modifiedDiagnostics || []).map((d) => ({ ...d, source: 'Modified' })),
+  ], [originalDiagnostics, modifiedDiagnostics]);
+
+  const handleProblemSelect = (problem: Problem) => {
+    const editor = diffEditorRef.current;
+    if (!editor) return;
+    revealDiagnostic(problem.source === 'Original' ? editor.getOriginalEditor() : editor.getModifiedEditor(), problem);
+  };
+
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
     diffEditorRef.current = editor;
+    monacoRef.current = monaco;
     
     // Listen to changes on the original model (Left side)
     const originalEditor = editor.getOriginalEditor();
@@ -104,12 +189,12 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
     
     if (originalModel) {
         // Init value if needed
-        if (!originalModel.isDisposed() && originalModel.getValue() !== original) {
-            originalModel.setValue(original);
+        if (!originalModel.isDisposed() && originalModel.getValue() !== shownOriginal) {
+            originalModel.setValue(shownOriginal);
         }
 
         const d = originalModel.onDidChangeContent(() => {
-            if (originalModel.isDisposed()) return;
+            if (originalModel.isDisposed() || showingNormalizedRef.current) return;
             const val = originalModel.getValue();
             if (val !== original) {
                 onOriginalChange(val);
@@ -123,12 +208,12 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
     const modifiedModel = modifiedEditor.getModel();
     
     if (modifiedModel) {
-        if (!modifiedModel.isDisposed() && modifiedModel.getValue() !== modified) {
-            modifiedModel.setValue(modified);
+        if (!modifiedModel.isDisposed() && modifiedModel.getValue() !== shownModified) {
+            modifiedModel.setValue(shownModified);
         }
 
         const d = modifiedModel.onDidChangeContent(() => {
-            if (modifiedModel.isDisposed()) return;
+            if (modifiedModel.isDisposed() || showingNormalizedRef.current) return;
             const val = modifiedModel.getValue();
             if (val !== modified) {
                 onModifiedChange(val);
@@ -136,6 +221,9 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
         });
         listenersRef.current.push(d);
     }
+
+    setDiagnosticMarkers(monaco, originalModel, originalDiagnostics || []);
+    setDiagnosticMarkers(monaco, modifiedModel, modifiedDiagnostics || []);
   };
 
   const handleFileUpload = (
@@ -155,10 +243,97 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
     if (modifiedFileInputRef.current) modifiedFileInputRef.current.value = '';
   };
 
+  const diffModeToggle = language === Language.JSON && (
+      <div className="flex bg-gray-800 rounded p-0.5 border border-gray-700">
+          <button
+              onClick={() => setStructural(false)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded ${!structural ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+              title="Line-by-line text diff"
+          >
+              <AlignLeft size={12} /> Text
+          </button>
+          <button
+              onClick={() => setStructural(true)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded ${structural ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+              title="Semantic diff of the parsed JSON, ignoring key order and formatting"
+          >
+              <Braces size={12} /> Structural
+          </button>
+      </div>
+  );
+
+  const jsonDiffPanel = (
+      <JsonDiffPanel
+          original={original}
+          modified={modified}
+          options={jsonDiffOptions}
+          setOptions={setJsonDiffOptions}
+      />
+  );
+
+  const patchToggle = (
+      <button
+          onClick={() => setShowPatch(!showPatch)}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded border border-gray-700 ${showPatch ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-400 hover:text-gray-200'}`}
+          title="Export the comparison as a unified diff, or apply one to Original"
+      >
+          <FileDiff size={12} /> Patch
+      </button>
+  );
+
+  const foldersToggle = (
+      <button
+          onClick={() => setShowFolders(!showFolders)}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded border border-gray-700 ${showFolders ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-400 hover:text-gray-200'}`}
+          title="Compare two folders or .zip archives file by file"
+      >
+          <FolderTree size={12} /> Folders
+      </button>
+  );
+
+  // Hidden rather than unmounted, so the loaded folders survive closing the panel
+  const foldersPanel = (
+      <div className={showFolders ? '' : 'hidden'}>
+          <FolderDiffPanel onOpenPair={onOpenPair} />
+      </div>
+  );
+
+  const formatCheckPanel = formatCheck && (
+      <FormatCheckPanel
+          input={original}
+          formatted={modified}
+          hunks={formatCheckHunks}
+          onAccept={onOriginalChange}
+          onClose={onCloseFormatCheck}
+      />
+  );
+
+  // Patches always work on the real contents, never on the normalized view
+  const patchPanel = showPatch && (
+      <PatchPanel
+          original={original}
+          modified={modified}
+          onApply={onModifiedChange}
+          onCopy={onCopy}
+      />
+  );
+
   // Mobile View: Render two stacked standard CodeEditors
   if (isMobile) {
       return (
           <div className="flex flex-col gap-4 h-full w-full">
+               {formatCheckPanel && (
+                   <div className="flex flex-col bg-gray-800 rounded-lg overflow-hidden border border-gray-700 shadow-xl">
+                       {formatCheckPanel}
+                   </div>
+               )}
+               <div className="flex flex-col bg-gray-800 rounded-lg overflow-hidden border border-gray-700 shadow-xl">
+                   <div className="flex items-center justify-between px-4 py-2 bg-gray-900 text-xs text-gray-400">
+                       <span>Folders</span>
+                       {foldersToggle}
+                   </div>
+                   {foldersPanel}
+               </div>
                <div className="flex-1 min-h-[350px]">
                     <CodeEditor 
                         title="Original (Source)"
@@ -169,6 +344,7 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
                         onCopy={() => onCopy(original)}
                         onDownload={() => onDownload(original, 'original')}
                         onUpload={onOriginalUpload}
+                        diagnostics={originalDiagnostics}
                     />
                </div>
                <div className="flex-1 min-h-[350px]">
@@ -181,8 +357,25 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
                         onCopy={() => onCopy(modified)}
                         onDownload={() => onDownload(modified, 'modified')}
                         onUpload={onModifiedUpload}
+                        diagnostics={modifiedDiagnostics}
                     />
                </div>
+               <div className="flex flex-col bg-gray-800 rounded-lg overflow-hidden border border-gray-700 shadow-xl">
+                   <div className="flex items-center justify-between px-4 py-2 bg-gray-900 text-xs text-gray-400">
+                       <span>Patch</span>
+                       {patchToggle}
+                   </div>
+                   {patchPanel}
+               </div>
+               {language === Language.JSON && (
+                   <div className="flex flex-col bg-gray-800 rounded-lg overflow-hidden border border-gray-700 shadow-xl">
+                       <div className="flex items-center justify-between px-4 py-2 bg-gray-900 border-b border-gray-700 text-xs text-gray-400">
+                           <span>Comparison</span>
+                           {diffModeToggle}
+                       </div>
+                       {showStructural && jsonDiffPanel}
+                   </div>
+               )}
           </div>
       );
   }
@@ -280,19 +473,42 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
         </div>
       </div>
 
-      {/* Diff Editor */}
-      <div className="flex-grow relative h-0 min-h-[400px]">
+      {foldersPanel}
+      {formatCheckPanel}
+
+      {/* Diff Editor (kept mounted while the structural view is shown, to preserve its models) */}
+      {showStructural && <div className="flex-grow relative h-0 min-h-[400px]">{jsonDiffPanel}</div>}
+      {!showStructural && (
+        <DiffNormalizationBar
+            options={normalization}
+            setOptions={setNormalization}
+            warnings={normalized?.warnings || []}
+        />
+      )}
+      <div className={`flex-grow relative h-0 min-h-[400px] ${showStructural ? 'hidden' : ''}`}>
         <DiffEditor
           height="100%"
           language={language}
+          beforeMount={registerJsonDialects}
           onMount={handleEditorDidMount}
           theme="vs-dark"
           options={editorOptions}
         />
       </div>
+
+      {patchPanel}
+
+      {(originalDiagnostics || modifiedDiagnostics) && (
+        <ProblemsPanel problems={problems} onSelect={handleProblemSelect} />
+      )}
       
        <div className="bg-gray-900 px-4 py-1 text-xs text-gray-500 flex justify-between border-t border-gray-700">
-        <span>{language} Diff</span>
+        <div className="flex items-center gap-3">
+            <span>{language} Diff</span>
+            {diffModeToggle}
+            {patchToggle}
+            {foldersToggle}
+        </div>
         <div className="flex gap-4">
             <span>Original: {original.length} chars</span>
             <span>Modified: {modified.length} chars</span>
@@ -0,0 +1,229 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, FileArchive, FileText, Folder, FolderOpen, Loader2, X } from 'lucide-react';
+import {
+  buildFileTree,
+  compareFileSets,
+  countByStatus,
+  decodeText,
+  FileComparison,
+  FileSet,
+  FileStatus,
+  FileTreeNode,
+  PickedFile,
+  pickedFromDrop,
+  pickedFromInput,
+  readFileSet,
+} from '../utils/folderDiff';
+
+type Side = 'original' | 'modified';
+
+interface FolderDiffPanelProps {
+  // Opens one pair of files in the side-by-side diff
+  onOpenPair: (original: string, modified: string, path: string) => void;
+}
+
+const STATUS_STYLES: Record<FileStatus, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'text-green-400' },
+  removed: { label: 'Removed', className: 'text-red-400' },
+  modified: { label: 'Modified', className: 'text-yellow-300' },
+  identical: { label: 'Identical', className: 'text-gray-500' },
+};
+
+// A folder input lets the user pick a whole directory
+const DIRECTORY_INPUT = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+const FolderDiffPanel: React.FC<FolderDiffPanelProps> = ({ onOpenPair }) => {
+  const [sets, setSets] = useState<Record<Side, FileSet | null>>({ original: null, modified: null });
+  const [loading, setLoading] = useState<Side | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hideIdentical, setHideIdentical] = useState<boolean>(true);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<string | null>(null);
+  const folderInputs = { original: useRef<HTMLInputElement>(null), modified: useRef<HTMLInputElement>(null) };
+  const zipInputs = { original: useRef<HTMLInputElement>(null), modified: useRef<HTMLInputElement>(null) };
+
+  const comparisons = useMemo(
+    () => (sets.original && sets.modified ? compareFileSets(sets.original, sets.modified) : []),
+    [sets]
+  );
+  const tree = useMemo(
+    () => buildFileTree(hideIdentical ? comparisons.filter(({ status }) => status !== 'identical') : comparisons),
+    [comparisons, hideIdentical]
+  );
+  const counts = countByStatus(comparisons);
+
+  const load = async (side: Side, picked: Promise<PickedFile[]> | PickedFile[]) => {
+    setLoading(side);
+    setError(null);
+    try {
+      const set = await readFileSet(await picked);
+      setSets((current) => ({ ...current, [side]: set }));
+      setSelected(null);
+    } catch (e: any) {
+      setError(`${side === 'original' ? 'Original' : 'Modified'}: ${e.message || 'could not be read'}`);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleInput = (side: Side) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = pickedFromInput(e.target.files);
+    e.target.value = '';
+    if (picked.length) load(side, picked);
+  };
+
+  const handleDrop = (side: Side) => (e: React.DragEvent) => {
+    e.preventDefault();
+    // The dropped items are only readable during the event, so they are collected right away
+    load(side, pickedFromDrop(e.dataTransfer));
+  };
+
+  const open = (file: FileComparison) => {
+    if (file.binary) {
+      setError(`${file.path} is a binary file and cannot be shown as text`);
+      return;
+    }
+    setError(null);
+    setSelected(file.path);
+    onOpenPair(file.original ? decodeText(file.original) : '', file.modified ? decodeText(file.modified) : '', file.path);
+  };
+
+  const toggleFolder = (path: string) => {
+    const next = new Set(collapsed);
+    if (next.has(path)) next.delete(path);
+    else next.add(path);
+    setCollapsed(next);
+  };
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const { label, className } = STATUS_STYLES[node.status];
+    const indent = { paddingLeft: `${depth * 16 + 8}px` };
+    if (node.children) {
+      const isCollapsed = collapsed.has(node.path);
+      return (
+        <li key={node.path}>
+          <button
+            onClick={() => toggleFolder(node.path)}
+            style={indent}
+            className="w-full flex items-center gap-1.5 pr-2 py-0.5 text-left hover:bg-gray-700/60 transition-colors"
+          >
+            {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+            {isCollapsed ? <Folder size={14} className={className} /> : <FolderOpen size={14} className={className} />}
+            <span className="truncate text-gray-200">{node.name}</span>
+          </button>
+          {!isCollapsed && <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>}
+        </li>
+      );
+    }
+    return (
+      <li key={node.path}>
+        <button
+          onClick={() => open(node.file!)}
+          style={indent}
+          className={`w-full flex items-center gap-1.5 pr-2 py-0.5 text-left transition-colors ${
+            selected === node.path ? 'bg-blue-900/40' : 'hover:bg-gray-700/60'
+          }`}
+          title={node.file!.binary ? `${label} · binary` : `${label} · click to compare`}
+        >
+          <span className="w-3.5" />
+          <FileText size={14} className={className} />
+          <span className={`truncate ${node.status === 'identical' ? 'text-gray-400' : 'text-gray-200'}`}>{node.name}</span>
+          <span className={`ml-auto text-[10px] uppercase font-semibold ${className}`}>
+            {node.file!.binary ? `${label} · bin` : label}
+          </span>
+        </button>
+      </li>
+    );
+  };
+
+  const sidePicker = (side: Side) => {
+    const set = sets[side];
+    return (
+      <div
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop(side)}
+        className="flex-1 flex items-center justify-between gap-2 px-3 py-2 border border-dashed border-gray-600 rounded text-xs"
+      >
+        <span className={`truncate ${side === 'original' ? 'text-red-300' : 'text-green-300'}`}>
+          {loading === side ? (
+            <span className="flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> Reading…</span>
+          ) : set ? (
+            `${set.label} · ${set.files.size} files`
+          ) : (
+            `Drop the ${side} folder or .zip here`
+          )}
+        </span>
+        <div className="flex items-center gap-1 flex-none">
+          <input type="file" multiple ref={folderInputs[side]} onChange={handleInput(side)} className="hidden" {...DIRECTORY_INPUT} />
+          <input type="file" accept=".zip,application/zip" ref={zipInputs[side]} onChange={handleInput(side)} className="hidden" />
+          <button
+            onClick={() => folderInputs[side].current?.click()}
+            className="p-1 text-gray-400 hover:text-blue-400 hover:bg-gray-800 rounded transition-colors"
+            title={`Pick the ${side} folder`}
+          >
+            <Folder size={14} />
+          </button>
+          <button
+            onClick={() => zipInputs[side].current?.click()}
+            className="p-1 text-gray-400 hover:text-blue-400 hover:bg-gray-800 rounded transition-colors"
+            title={`Pick the ${side} .zip archive`}
+          >
+            <FileArchive size={14} />
+          </button>
+          {set && (
+            <button
+              onClick={() => setSets((current) => ({ ...current, [side]: null }))}
+              className="p-1 text-gray-400 hover:text-red-400 hover:bg-gray-800 rounded transition-colors"
+              title="Remove"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2 px-4 py-2 bg-gray-900/60 border-b border-gray-700 text-sm">
+      <div className="flex flex-col sm:flex-row gap-2">
+        {sidePicker('original')}
+        {sidePicker('modified')}
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {sets.original && sets.modified && (
+        <>
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <div className="flex items-center gap-3">
+              {(Object.keys(STATUS_STYLES) as FileStatus[]).map((status) => (
+                <span key={status} className={STATUS_STYLES[status].className}>
+                  {counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+                </span>
+              ))}
+            </div>
+            <label className="flex items-center gap-1 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={hideIdentical}
+                onChange={(e) => setHideIdentical(e.target.checked)}
+                className="rounded border-gray-600 text-blue-500 focus:ring-blue-500 bg-gray-700"
+              />
+              Hide identical
+            </label>
+          </div>
+          <ul className="max-h-64 overflow-y-auto bg-gray-950/50 rounded border border-gray-700 py-1 font-mono text-xs">
+            {tree.length === 0 ? (
+              <li className="px-3 py-2 text-gray-500">The two sides hold the same files.</li>
+            ) : (
+              tree.map((node) => renderNode(node, 0))
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FolderDiffPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Check, CheckCheck, CheckCircle2, AlertTriangle, Loader2, X } from 'lucide-react';
+import { acceptHunk, countDifferingLines, FormatHunk } from '../utils/formatCheck';
+
+interface FormatCheckPanelProps {
+  // The checked input (Original) and its formatted version (Modified)
+  input: string;
+  formatted: string;
+  // Computed in the format worker; null until the hunks of the current texts are known
+  hunks: FormatHunk[] | null;
+  onAccept: (input: string) => void;
+  onClose: () => void;
+}
+
+const preview = (lines: string[]) => lines.find((line) => line.trim())?.trim() ?? '(blank lines)';
+
+const FormatCheckPanel: React.FC<FormatCheckPanelProps> = ({ input, formatted, hunks, onAccept, onClose }) => {
+  const differing = hunks ? countDifferingLines(hunks) : 0;
+
+  return (
+    <div className="flex flex-col gap-2 px-4 py-3 bg-gray-900/60 border-b border-gray-700 text-xs text-gray-300 max-h-56 overflow-y-auto">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold uppercase tracking-wider text-gray-400">Format check</span>
+        {!hunks ? (
+          <span className="flex items-center gap-1 text-gray-400"><Loader2 size={12} className="animate-spin" /> Comparing with the formatted output…</span>
+        ) : hunks.length === 0 ? (
+          <span className="flex items-center gap-1 text-green-300"><CheckCircle2 size={12} /> Already formatted</span>
+        ) : (
+          <span className="flex items-center gap-1 text-yellow-300">
+            <AlertTriangle size={12} />
+            {differing} {differing === 1 ? 'line differs' : 'lines differ'} from the formatted output
+          </span>
+        )}
+        <button
+          onClick={() => onAccept(formatted)}
+          disabled={input === formatted}
+          className="flex items-center gap-1 px-2 py-1 ml-auto bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors disabled:opacity-40"
+          title="Replace Original with the formatted version"
+        >
+          <CheckCheck size={12} /> Accept all
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition-colors"
+          title="Close the format check"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      {hunks && hunks.length > 0 && (
+        <ul className="flex flex-col gap-0.5 font-mono">
+          {hunks.map((hunk) => (
+            <li key={`${hunk.start}-${hunk.removed.length}-${hunk.added.length}`} className="flex items-center gap-2 min-w-0">
+              <span className="text-blue-300 shrink-0">Line {hunk.start + 1}</span>
+              <span className="text-red-300 shrink-0">-{hunk.removed.length}</span>
+              <span className="text-green-300 shrink-0">+{hunk.added.length}</span>
+              <span className="text-gray-500 truncate">{preview(hunk.removed.length ? hunk.removed : hunk.added)}</span>
+              <button
+                onClick={() => onAccept(acceptHunk(input, hunk))}
+                className="flex items-center gap-1 px-2 py-0.5 ml-auto shrink-0 bg-gray-800 border border-gray-700 hover:border-blue-500 hover:text-white rounded transition-colors"
+                title="Apply this change to Original"
+              >
+                <Check size={12} /> Accept
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FormatCheckPanel;
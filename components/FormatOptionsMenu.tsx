@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { EndOfLine, Language, StyleOptions, TrailingComma } from '../types';
+import { DEFAULT_STYLE_OPTIONS, STYLE_FIELDS } from '../utils/styleOptions';
+
+interface FormatOptionsMenuProps {
+  language: Language;
+  options: StyleOptions;
+  setOptions: (options: StyleOptions) => void;
+}
+
+const TRAILING_COMMAS: { value: TrailingComma; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'es5', label: 'ES5' },
+  { value: 'none', label: 'None' },
+];
+
+const END_OF_LINES: { value: EndOfLine; label: string }[] = [
+  { value: 'lf', label: 'LF (\\n)' },
+  { value: 'crlf', label: 'CRLF (\\r\\n)' },
+];
+
+const TOGGLES: { key: 'useTabs' | 'semi' | 'singleQuote' | 'bracketSpacing' | 'singleAttributePerLine'; label: string }[] = [
+  { key: 'useTabs', label: 'Indent with tabs' },
+  { key: 'semi', label: 'Semicolons' },
+  { key: 'singleQuote', label: 'Single quotes' },
+  { key: 'bracketSpacing', label: 'Spaces inside { braces }' },
+  { key: 'singleAttributePerLine', label: 'One attribute per line' },
+];
+
+const inputClass = 'bg-gray-900 border border-gray-600 text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const FormatOptionsMenu: React.FC<FormatOptionsMenuProps> = ({ language, options, setOptions }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fields = STYLE_FIELDS[language];
+  const shows = (field: keyof StyleOptions) => fields.includes(field);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const setNumber = (key: 'printWidth' | 'tabWidth', value: string, min: number) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed)) setOptions({ ...options, [key]: Math.max(min, parsed) });
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-2 rounded font-medium transition-all transform active:scale-95 text-sm"
+        title={`Formatting options for ${language.toUpperCase()}`}
+      >
+        <SlidersHorizontal size={16} />
+        Options
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 z-20 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-4 flex flex-col gap-3 text-sm text-gray-300">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-white">{language.toUpperCase()} formatting</span>
+            <button
+              onClick={() => setOptions(DEFAULT_STYLE_OPTIONS[language])}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+              title="Reset to defaults"
+            >
+              <RotateCcw size={12} /> Reset
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            {shows('printWidth') && (
+              <label className="flex flex-col gap-1">
+                <span>Print width</span>
+                <input
+                  type="number"
+                  min={20}
+                  value={options.printWidth}
+                  onChange={(e) => setNumber('printWidth', e.target.value, 20)}
+                  className={inputClass}
+                />
+              </label>
+            )}
+            {shows('tabWidth') && (
+              <label className="flex flex-col gap-1">
+                <span>Indent width</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={options.tabWidth}
+                  onChange={(e) => setNumber('tabWidth', e.target.value, 1)}
+                  className={inputClass}
+                />
+              </label>
+            )}
+            {shows('trailingComma') && (
+              <label className="flex flex-col gap-1">
+                <span>Trailing commas</span>
+                <select
+                  value={options.trailingComma}
+                  onChange={(e) => setOptions({ ...options, trailingComma: e.target.value as TrailingComma })}
+                  className={`${inputClass} cursor-pointer`}
+                >
+                  {TRAILING_COMMAS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {shows('endOfLine') && (
+              <label className="flex flex-col gap-1">
+                <span>Line endings</span>
+                <select
+                  value={options.endOfLine}
+                  onChange={(e) => setOptions({ ...options, endOfLine: e.target.value as EndOfLine })}
+                  className={`${inputClass} cursor-pointer`}
+                >
+                  {END_OF_LINES.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {TOGGLES.filter(({ key }) => shows(key)).map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={options[key]}
+                onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+                className="rounded border-gray-600 text-blue-500 focus:ring-blue-500 bg-gray-700"
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormatOptionsMenu;
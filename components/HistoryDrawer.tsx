@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { History, X, Search, Pin, PinOff, RotateCcw, Trash2, AlertCircle } from 'lucide-react';
+import { HistorySnapshot } from '../types';
+import { clearHistory, deleteSnapshot, listSnapshots, MAX_HISTORY_ENTRIES, setSnapshotPinned } from '../utils/history';
+
+interface HistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  onRestore: (snapshot: HistorySnapshot) => void;
+}
+
+const MODE_LABELS: Record<HistorySnapshot['viewMode'], string> = {
+  formatter: 'Formatter',
+  diff: 'Diff',
+  merge: 'Merge',
+};
+
+const snapshotText = (snapshot: HistorySnapshot) =>
+  snapshot.viewMode === 'merge'
+    ? [snapshot.merge.ours, snapshot.merge.base, snapshot.merge.theirs].join('\n')
+    : [snapshot.input, snapshot.output].join('\n');
+
+const preview = (snapshot: HistorySnapshot) => {
+  const firstLine = snapshotText(snapshot).split('\n').find((line) => line.trim()) ?? '';
+  return firstLine.trim().slice(0, 80) || '(empty)';
+};
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ open, onClose, onRestore }) => {
+  const [snapshots, setSnapshots] = useState<HistorySnapshot[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots());
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || 'History is unavailable');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return snapshots;
+    return snapshots.filter((snapshot) =>
+      snapshot.language.includes(needle) || snapshotText(snapshot).toLowerCase().includes(needle)
+    );
+  }, [snapshots, query]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e?.message || 'History update failed');
+    }
+    refresh();
+  };
+
+  const handleClearAll = () => {
+    if (window.confirm('Delete every saved snapshot, pinned ones included? This cannot be undone.')) {
+      run(clearHistory);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-gray-800 border-l border-gray-700 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-900 border-b border-gray-700">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-200 uppercase tracking-wider">
+            <History size={16} /> History
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition-colors"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-gray-700 flex items-center gap-2">
+          <Search size={14} className="text-gray-400 shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search content or language"
+            className="flex-grow bg-gray-950 border border-gray-600 text-white px-3 py-1.5 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 px-4 py-2 text-sm text-red-300 border-b border-gray-700">
+            <AlertCircle size={14} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        <ul className="flex-grow overflow-y-auto divide-y divide-gray-700">
+          {filtered.length === 0 && (
+            <li className="px-4 py-6 text-sm text-gray-500 text-center">
+              {snapshots.length === 0 ? 'No snapshots yet. Your work is saved here automatically.' : 'No snapshot matches the search.'}
+            </li>
+          )}
+          {filtered.map((snapshot) => (
+            <li key={snapshot.id} className="px-4 py-3 hover:bg-gray-750 transition-colors">
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                <span>
+                  {new Date(snapshot.updatedAt).toLocaleString()} · {MODE_LABELS[snapshot.viewMode]} · {snapshot.language.toUpperCase()}
+                </span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => run(() => setSnapshotPinned(snapshot.id, !snapshot.pinned))}
+                    className={`p-1 rounded hover:bg-gray-700 transition-colors ${snapshot.pinned ? 'text-yellow-400' : 'hover:text-yellow-400'}`}
+                    title={snapshot.pinned ? 'Unpin' : 'Pin (keeps it from being pruned or overwritten)'}
+                  >
+                    {snapshot.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                  </button>
+                  <button
+                    onClick={() => run(() => deleteSnapshot(snapshot.id))}
+                    className="p-1 rounded hover:bg-gray-700 hover:text-red-400 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              <button
+                onClick={() => onRestore(snapshot)}
+                className="mt-1 w-full flex items-center gap-2 text-left text-sm text-gray-200 hover:text-blue-300 transition-colors"
+                title="Restore this snapshot"
+              >
+                <RotateCcw size={14} className="shrink-0 text-gray-500" />
+                <span className="font-mono truncate">{preview(snapshot)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-900 border-t border-gray-700 text-xs text-gray-500">
+          <span>Stored in this browser only · last {MAX_HISTORY_ENTRIES} kept, plus pinned</span>
+          <button
+            onClick={handleClearAll}
+            disabled={snapshots.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 text-red-300 hover:text-white hover:bg-red-700 rounded transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Trash2 size={14} /> Clear all history
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
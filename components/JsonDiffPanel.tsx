@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { Plus, Minus, ArrowRight, Shuffle, CheckCircle2, AlertCircle } from 'lucide-react';
+import { diffJson, jsonTypeOf, previewValue, JsonChange, JsonDiffOptions } from '../utils/jsonDiff';
+
+interface JsonDiffPanelProps {
+  original: string;
+  modified: string;
+  options: JsonDiffOptions;
+  setOptions: (options: JsonDiffOptions) => void;
+}
+
+const KIND_STYLES: Record<JsonChange['kind'], { icon: React.ReactNode; className: string }> = {
+  added: { icon: <Plus size={14} />, className: 'text-green-400' },
+  removed: { icon: <Minus size={14} />, className: 'text-red-400' },
+  changed: { icon: <ArrowRight size={14} />, className: 'text-yellow-400' },
+  'type-changed': { icon: <Shuffle size={14} />, className: 'text-purple-400' },
+};
+
+const describe = (change: JsonChange): string => {
+  switch (change.kind) {
+    case 'added':
+      return `added ${previewValue(change.newValue)}`;
+    case 'removed':
+      return `removed ${previewValue(change.oldValue)}`;
+    case 'type-changed':
+      return `${jsonTypeOf(change.oldValue)} → ${jsonTypeOf(change.newValue)}: ${previewValue(change.oldValue, 40)} → ${previewValue(change.newValue, 40)}`;
+    default:
+      return `${previewValue(change.oldValue, 60)} → ${previewValue(change.newValue, 60)}`;
+  }
+};
+
+const parseSide = (text: string, label: string): { value?: unknown; error?: string } => {
+  if (!text.trim()) return { error: `${label} is empty` };
+  try {
+    return { value: JSON.parse(text) };
+  } catch (e: any) {
+    return { error: `${label}: ${e.message}` };
+  }
+};
+
+const JsonDiffPanel: React.FC<JsonDiffPanelProps> = ({ original, modified, options, setOptions }) => {
+  const result = useMemo(() => {
+    const left = parseSide(original, 'Original');
+    const right = parseSide(modified, 'Modified');
+    if (left.error || right.error) return { error: left.error || right.error };
+    return { changes: diffJson(left.value, right.value, options) };
+  }, [original, modified, options]);
+
+  const counts = useMemo(() => {
+    const byKind: Record<string, number> = {};
+    result.changes?.forEach((c) => { byKind[c.kind] = (byKind[c.kind] || 0) + 1; });
+    return byKind;
+  }, [result]);
+
+  return (
+    <div className="flex flex-col h-full min-h-[400px]">
+      {/* Options */}
+      <div className="flex flex-wrap items-center gap-4 px-4 py-2 bg-gray-900/60 border-b border-gray-700 text-sm text-gray-300">
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={options.unorderedArrays}
+            onChange={(e) => setOptions({ ...options, unorderedArrays: e.target.checked })}
+            className="rounded border-gray-600 text-blue-500 focus:ring-blue-500 bg-gray-700"
+          />
+          <span>Unordered arrays</span>
+        </label>
+        <label className={`flex items-center gap-2 ${options.unorderedArrays ? '' : 'opacity-50'}`}>
+          <span>Match by key</span>
+          <input
+            type="text"
+            value={options.arrayKey}
+            disabled={!options.unorderedArrays}
+            onChange={(e) => setOptions({ ...options, arrayKey: e.target.value })}
+            placeholder="id"
+            className="bg-gray-900 border border-gray-600 text-white px-2 py-1 rounded w-28 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+        </label>
+        {result.changes && (
+          <div className="flex gap-3 ml-auto text-xs">
+            <span className="text-green-400">+{counts.added || 0} added</span>
+            <span className="text-red-400">-{counts.removed || 0} removed</span>
+            <span className="text-yellow-400">~{(counts.changed || 0) + (counts['type-changed'] || 0)} changed</span>
+          </div>
+        )}
+      </div>
+
+      {/* Changes */}
+      <div className="flex-grow overflow-y-auto font-mono text-sm h-0">
+        {result.error && (
+          <div className="flex items-center gap-2 px-4 py-3 text-red-300">
+            <AlertCircle size={16} /> {result.error}
+          </div>
+        )}
+        {result.changes?.length === 0 && (
+          <div className="flex items-center gap-2 px-4 py-3 text-green-300">
+            <CheckCircle2 size={16} /> Documents are semantically identical
+          </div>
+        )}
+        {result.changes && result.changes.length > 0 && (
+          <ul className="divide-y divide-gray-700/50">
+            {result.changes.map((change, index) => (
+              <li key={index} className="flex items-start gap-2 px-4 py-1.5 hover:bg-gray-700/30">
+                <span className={`mt-0.5 ${KIND_STYLES[change.kind].className}`}>{KIND_STYLES[change.kind].icon}</span>
+                <span className="text-blue-300 break-all">{change.path}:</span>
+                <span className="text-gray-400 break-all">{describe(change)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JsonDiffPanel;
@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, FileInput, X, AlertCircle, Copy } from 'lucide-react';
+import { runQuery } from '../utils/jsonQuery';
+
+interface JsonQueryPanelProps {
+  value: string;
+  onReplace: (value: string) => void;
+  onCopy: (content: string) => void;
+}
+
+const EXAMPLES = ['$.items[?(@.price > 10)].name', '.items[] | select(.price > 10) | .name'];
+
+const JsonQueryPanel: React.FC<JsonQueryPanelProps> = ({ value, onReplace, onCopy }) => {
+  const [query, setQuery] = useState<string>('');
+  const [debouncedQuery, setDebouncedQuery] = useState<string>('');
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query), 300);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const outcome = useMemo(() => {
+    if (!debouncedQuery.trim()) return null;
+    let document: unknown;
+    try {
+      document = JSON.parse(value);
+    } catch (e: any) {
+      return { error: `Document is not valid JSON: ${e.message}` };
+    }
+    try {
+      const { language, results } = runQuery(document, debouncedQuery);
+      // A jq filter emitting a single value shows that value; everything else is listed as an array
+      const output = language === 'jq' && results.length === 1 ? results[0] : results;
+      return { language, count: results.length, text: JSON.stringify(output, null, 2) ?? 'null' };
+    } catch (e: any) {
+      return { error: e.message as string };
+    }
+  }, [value, debouncedQuery]);
+
+  return (
+    <div className="flex flex-col bg-gray-800 rounded-lg overflow-hidden border border-gray-700 shadow-xl">
+      {/* Query Bar */}
+      <div className="flex items-center gap-2 px-4 py-2 bg-gray-900">
+        <Search size={16} className="text-gray-400 shrink-0" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={`JSONPath or jq filter, e.g. ${EXAMPLES[0]}  or  ${EXAMPLES[1]}`}
+          className="flex-grow bg-gray-950 border border-gray-600 text-white px-3 py-1.5 rounded font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          spellCheck={false}
+        />
+        {outcome && 'language' in outcome && (
+          <span className="text-xs text-gray-400 whitespace-nowrap">
+            {outcome.language === 'jsonpath' ? 'JSONPath' : 'jq'} · {outcome.count} result{outcome.count === 1 ? '' : 's'}
+          </span>
+        )}
+        {query && (
+          <button
+            onClick={() => setQuery('')}
+            className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-gray-800 rounded transition-colors"
+            title="Clear Query"
+          >
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {outcome?.error && (
+        <div className="flex items-center gap-2 px-4 py-2 text-sm text-red-300 border-t border-gray-700">
+          <AlertCircle size={14} className="shrink-0" /> {outcome.error}
+        </div>
+      )}
+
+      {/* Results */}
+      {outcome?.text !== undefined && (
+        <div className="flex flex-col border-t border-gray-700">
+          <pre className="max-h-64 overflow-auto px-4 py-3 bg-gray-950 font-mono text-sm text-gray-300 whitespace-pre">
+            {outcome.text}
+          </pre>
+          <div className="flex items-center justify-end gap-2 px-4 py-2 bg-gray-900 border-t border-gray-700 text-sm">
+            <button
+              onClick={() => onCopy(outcome.text!)}
+              className="flex items-center gap-2 px-3 py-1 text-gray-300 hover:text-purple-400 hover:bg-gray-800 rounded transition-colors"
+            >
+              <Copy size={14} /> Copy
+            </button>
+            <button
+              onClick={() => { onReplace(outcome.text!); setQuery(''); }}
+              className="flex items-center gap-2 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+              title="Replace the document with the query results"
+            >
+              <FileInput size={14} /> Use as Document
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JsonQueryPanel;
@@ -1,6 +1,9 @@
-import React, { useEffect, useRef } from 'react';
-import { JSONEditor } from 'vanilla-jsoneditor';
-import { Copy, Download, Trash2, Maximize2, Minimize2 } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { JSONEditor, ValidationSeverity } from 'vanilla-jsoneditor';
+import { Copy, Download, Trash2, Maximize2, Minimize2, FileCheck2, Upload, AlertCircle, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Language } from '../types';
+import { compileSchema, loadStoredSchema, SchemaViolation, storeSchema } from '../utils/jsonSchema';
+import { JsonDialect, parseJsonDialect } from '../utils/jsonDialects';
 
 interface JsonVisualEditorProps {
   value: string;
@@ -8,6 +11,8 @@ interface JsonVisualEditorProps {
   title: string;
   onClear: () => void;
   onDownload?: () => void;
+  // Offered when the text is not strict JSON but reads as JSONC / JSON5
+  onSwitchLanguage: (language: JsonDialect) => void;
 }
 
 const JsonVisualEditor: React.FC<JsonVisualEditorProps> = ({
@@ -15,11 +20,58 @@ const JsonVisualEditor: React.FC<JsonVisualEditorProps> = ({
   onChange,
   title,
   onClear,
-  onDownload
+  onDownload,
+  onSwitchLanguage
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<JSONEditor | null>(null);
+  const schemaFileInputRef = useRef<HTMLInputElement>(null);
+
+  // JSON Schema the document is validated against, remembered between sessions
+  const [schemaText, setSchemaText] = useState<string>(loadStoredSchema);
+  const [showSchema, setShowSchema] = useState<boolean>(() => schemaText.trim().length > 0);
+
+  const schema = useMemo(() => {
+    if (!schemaText.trim()) return null;
+    try {
+      return { compiled: compileSchema(schemaText) };
+    } catch (e: any) {
+      return { error: e.message as string };
+    }
+  }, [schemaText]);
+  const compiled = schema?.compiled;
+
+  // null while the document itself does not parse; the editor reports that on its own
+  const violations: SchemaViolation[] | null = useMemo(() => {
+    if (!compiled || !value.trim()) return null;
+    try {
+      return compiled.validate(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }, [compiled, value]);
   
+  // The tree editor only reads strict JSON and would drop comments anyway, so commented
+  // documents are pointed to the matching code editor instead
+  const dialect: JsonDialect | null = useMemo(() => {
+    if (!value.trim()) return null;
+    try {
+      JSON.parse(value);
+      return null;
+    } catch {
+      // Not strict JSON, see whether a dialect reads it
+    }
+    for (const language of [Language.JSONC, Language.JSON5] as const) {
+      try {
+        parseJsonDialect(value, language);
+        return language;
+      } catch {
+        // Try the next, more lenient dialect
+      }
+    }
+    return null;
+  }, [value]);
+
   // Track the latest value emitted to parent to avoid update loops
   const lastEmittedValue = useRef<string>(value);
   // Track onChange callback to avoid re-initializing editor on prop change
@@ -82,6 +134,37 @@ const JsonVisualEditor: React.FC<JsonVisualEditorProps> = ({
     }
   }, [value]);
 
+  useEffect(() => {
+    storeSchema(schemaText);
+  }, [schemaText]);
+
+  // Let the tree highlight offending nodes
+  useEffect(() => {
+    if (!editorRef.current) return;
+    const validator = compiled
+      ? (json: unknown) => compiled.validate(json).map((v) => ({ path: v.path, message: v.message, severity: ValidationSeverity.error }))
+      : null;
+    editorRef.current.updateProps({ validator }).catch(err => {
+      if (err && err.message !== 'Canceled') console.error('JSON Editor Update Failed', err);
+    });
+  }, [compiled]);
+
+  const handleSchemaUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => setSchemaText(e.target?.result as string);
+      reader.readAsText(file);
+    }
+    if (schemaFileInputRef.current) schemaFileInputRef.current.value = '';
+  };
+
+  const handleViolationSelect = (violation: SchemaViolation) => {
+    editorRef.current?.scrollTo(violation.path).catch(() => {
+      // The node may not exist, e.g. for a missing required property
+    });
+  };
+
   const handleExpandAll = () => {
     // Use the functional form of expand to expand all nodes
     if (editorRef.current) {
@@ -149,6 +232,13 @@ const JsonVisualEditor: React.FC<JsonVisualEditorProps> = ({
             >
                 <Minimize2 size={16} />
             </button>
+            <button 
+                onClick={() => setShowSchema(!showSchema)}
+                className={`p-1.5 hover:text-blue-400 hover:bg-gray-800 rounded transition-colors ${showSchema ? 'text-blue-400' : 'text-gray-400'}`}
+                title="JSON Schema Validation"
+            >
+                <FileCheck2 size={16} />
+            </button>
             <div className="w-px h-4 bg-gray-700 mx-1"></div>
 
           {onDownload && (
@@ -179,14 +269,94 @@ const JsonVisualEditor: React.FC<JsonVisualEditorProps> = ({
         </div>
       </div>
 
-      <div 
-        ref={containerRef} 
-        className="flex-grow h-0 min-h-[400px]" 
-      />
+      {dialect && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-yellow-900/30 border-b border-yellow-800/50 text-xs text-yellow-200">
+          <AlertTriangle size={14} className="shrink-0" />
+          <span>This document has comments or {dialect === Language.JSON5 ? 'JSON5' : 'JSONC'} syntax, which the visual editor cannot read.</span>
+          <button
+            onClick={() => onSwitchLanguage(dialect)}
+            className="ml-auto px-2 py-0.5 bg-gray-800 border border-yellow-800/50 hover:border-yellow-500 rounded transition-colors"
+          >
+            Edit as {dialect.toUpperCase()}
+          </button>
+        </div>
+      )}
+
+      <div className="flex-grow h-0 min-h-[400px] flex flex-col lg:flex-row">
+        <div 
+          ref={containerRef} 
+          className="flex-grow min-h-[400px] lg:min-h-0 min-w-0" 
+        />
+
+        {/* Schema */}
+        {showSchema && (
+          <div className="flex flex-col lg:w-1/3 border-t lg:border-t-0 lg:border-l border-gray-700 bg-gray-900/60 min-h-[250px]">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700 text-xs">
+              <span className="font-semibold text-gray-400 uppercase tracking-wider">
+                JSON Schema{compiled ? ` (${compiled.draft})` : ''}
+              </span>
+              <div className="flex items-center gap-1">
+                <input type="file" accept=".json,application/json" ref={schemaFileInputRef} onChange={handleSchemaUpload} className="hidden" />
+                <button
+                  onClick={() => schemaFileInputRef.current?.click()}
+                  className="p-1 text-gray-400 hover:text-blue-400 hover:bg-gray-800 rounded transition-colors"
+                  title="Upload Schema"
+                >
+                  <Upload size={14} />
+                </button>
+                <button
+                  onClick={() => setSchemaText('')}
+                  className="p-1 text-gray-400 hover:text-red-400 hover:bg-gray-800 rounded transition-colors"
+                  title="Clear Schema"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            <textarea
+              value={schemaText}
+              onChange={(e) => setSchemaText(e.target.value)}
+              placeholder={'Paste a JSON Schema (draft-07 or 2020-12)'}
+              className="flex-grow min-h-[120px] bg-gray-950 text-gray-300 font-mono text-xs p-3 resize-none focus:outline-none"
+              spellCheck={false}
+            />
+            <div className="max-h-56 overflow-y-auto border-t border-gray-700 text-xs">
+              {schema?.error && (
+                <div className="flex items-center gap-2 px-4 py-2 text-red-300"><AlertCircle size={14} className="shrink-0" /> {schema.error}</div>
+              )}
+              {violations?.length === 0 && (
+                <div className="flex items-center gap-2 px-4 py-2 text-green-300"><CheckCircle2 size={14} /> Document matches the schema</div>
+              )}
+              {violations && violations.length > 0 && (
+                <ul className="divide-y divide-gray-700/50">
+                  {violations.map((violation, index) => (
+                    <li
+                      key={index}
+                      onClick={() => handleViolationSelect(violation)}
+                      className="flex items-start gap-2 px-4 py-1.5 cursor-pointer hover:bg-gray-700/30"
+                    >
+                      <AlertCircle size={12} className="text-red-400 mt-0.5 shrink-0" />
+                      <span className="font-mono text-blue-300 break-all">{violation.pointer || '/'}</span>
+                      <span className="text-gray-300">{violation.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
       
       <div className="bg-gray-900 px-4 py-1 text-xs text-gray-500 flex justify-between border-t border-gray-700">
         <span>Visual Editor</span>
-        <span>{value.length} chars</span>
+        <div className="flex gap-4">
+          {violations && (
+            <span className={violations.length ? 'text-red-400' : 'text-green-400'}>
+              {violations.length} schema violation{violations.length === 1 ? '' : 's'}
+            </span>
+          )}
+          <span>{value.length} chars</span>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { Code2, Copy } from 'lucide-react';
+
+interface MarkdownPreviewProps {
+  value: string;
+  onShowEditor: () => void;
+  onCopy: (content: string) => void;
+}
+
+// Rendered entirely in the browser; raw HTML in the document goes through DOMPurify,
+// which strips scripts, event handlers and javascript: URLs
+const renderMarkdown = (markdown: string): string =>
+  DOMPurify.sanitize(marked.parse(markdown, { async: false, gfm: true }) as string);
+
+const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ value, onShowEditor, onCopy }) => {
+  const html = useMemo(() => renderMarkdown(value), [value]);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-800 rounded-lg overflow-hidden border border-gray-700 shadow-xl">
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-900 border-b border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-200 uppercase tracking-wider">Rendered Preview</h2>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onShowEditor}
+            className="p-1.5 text-gray-400 hover:text-blue-400 hover:bg-gray-800 rounded transition-colors"
+            title="Show Output Editor"
+          >
+            <Code2 size={16} />
+          </button>
+          <button
+            onClick={() => onCopy(html)}
+            className="p-1.5 text-gray-400 hover:text-purple-400 hover:bg-gray-800 rounded transition-colors"
+            title="Copy HTML"
+          >
+            <Copy size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-grow h-0 min-h-[400px] overflow-auto px-6 py-4">
+        {value.trim() ? (
+          <div className="markdown-preview" dangerouslySetInnerHTML={{ __html: html }} />
+        ) : (
+          <p className="text-gray-500 text-sm">Nothing to preview yet.</p>
+        )}
+      </div>
+
+      <div className="bg-gray-900 px-4 py-1 text-xs text-gray-500 flex justify-between border-t border-gray-700">
+        <span>markdown → html (sanitized)</span>
+        <span>{value.length} chars</span>
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownPreview;
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitMerge, CheckCircle2, AlertTriangle, Info } from 'lucide-react';
+import CodeEditor from './CodeEditor';
+import { Language, MergeInputs, MergeSide } from '../types';
+import { ConflictResolution, mergeDocuments } from '../utils/threeWayMerge';
+
+interface MergeViewerProps {
+  language: Language;
+  inputs: MergeInputs;
+  onInputChange: (side: MergeSide, value: string) => void;
+  onUpload: (side: MergeSide, content: string, fileName: string) => void;
+  onCopy: (content: string) => void;
+  onDownload: (content: string, suffix: string) => void;
+}
+
+const SIDES: { side: MergeSide; title: string }[] = [
+  { side: 'ours', title: 'Ours' },
+  { side: 'base', title: 'Base (Common Ancestor)' },
+  { side: 'theirs', title: 'Theirs' },
+];
+
+const RESOLUTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'ours', label: 'Ours' },
+  { value: 'theirs', label: 'Theirs' },
+  { value: 'both', label: 'Both' },
+];
+
+const MergeViewer: React.FC<MergeViewerProps> = ({ language, inputs, onInputChange, onUpload, onCopy, onDownload }) => {
+  const merge = useMemo(
+    () => mergeDocuments(inputs.base, inputs.ours, inputs.theirs, language === Language.JSON),
+    [inputs, language]
+  );
+  const [resolutions, setResolutions] = useState<(ConflictResolution | undefined)[]>([]);
+  const [result, setResult] = useState<string>('');
+
+  // New inputs invalidate earlier picks; manual edits of the result are kept until then
+  useEffect(() => {
+    setResolutions([]);
+    setResult(merge.render([]));
+  }, [merge]);
+
+  const resolve = (index: number, resolution: ConflictResolution) => {
+    const next = [...resolutions];
+    next[index] = resolution;
+    setResolutions(next);
+    setResult(merge.render(next));
+  };
+
+  const unresolved = merge.conflicts.filter((_, i) => !resolutions[i]).length;
+
+  return (
+    <div className="flex flex-col gap-4 h-full w-full">
+      {/* Inputs */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 flex-1 min-h-[300px]">
+        {SIDES.map(({ side, title }) => (
+          <CodeEditor
+            key={side}
+            title={title}
+            language={language}
+            value={inputs[side]}
+            onChange={(val) => onInputChange(side, val || '')}
+            onClear={() => onInputChange(side, '')}
+            onCopy={() => onCopy(inputs[side])}
+            onUpload={(content, fileName) => onUpload(side, content, fileName)}
+          />
+        ))}
+      </div>
+
+      {/* Conflicts & Result */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 flex-1 min-h-[300px]">
+        <div className="flex flex-col bg-gray-800 rounded-lg overflow-hidden border border-gray-700 shadow-xl min-h-[200px]">
+          <div className="flex items-center justify-between px-4 py-2 bg-gray-900 border-b border-gray-700">
+            <h2 className="text-sm font-semibold text-gray-200 uppercase tracking-wider flex items-center gap-2">
+              <GitMerge size={14} /> Conflicts
+            </h2>
+            <span className="text-xs text-gray-400">
+              {merge.mode === 'json' ? 'By key path' : 'By line'}
+            </span>
+          </div>
+          <div className="flex-grow overflow-y-auto h-0 text-sm">
+            {merge.notice && (
+              <div className="flex items-center gap-2 px-4 py-2 text-yellow-300 text-xs border-b border-gray-700">
+                <Info size={14} className="shrink-0" /> {merge.notice}
+              </div>
+            )}
+            {merge.conflicts.length === 0 ? (
+              <div className="flex items-center gap-2 px-4 py-3 text-green-300">
+                <CheckCircle2 size={16} /> Merged without conflicts
+              </div>
+            ) : (
+              <>
+                <div className={`flex items-center gap-2 px-4 py-2 text-xs ${unresolved ? 'text-yellow-300' : 'text-green-300'}`}>
+                  {unresolved ? <AlertTriangle size={14} /> : <CheckCircle2 size={14} />}
+                  {unresolved} of {merge.conflicts.length} conflicts unresolved
+                </div>
+                <ul className="divide-y divide-gray-700/50">
+                  {merge.conflicts.map((conflict, index) => (
+                    <li key={index} className="flex flex-col gap-1.5 px-4 py-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-blue-300 break-all">{conflict.location}</span>
+                        <div className="flex bg-gray-900 rounded p-0.5 border border-gray-700 text-xs shrink-0">
+                          {RESOLUTIONS.map(({ value, label }) => (
+                            <button
+                              key={value}
+                              onClick={() => resolve(index, value)}
+                              disabled={value === 'both' && !conflict.canKeepBoth}
+                              className={`px-2 py-0.5 rounded disabled:opacity-40 ${resolutions[index] === value ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <pre className="font-mono text-xs text-green-300 bg-gray-900/60 rounded px-2 py-1 overflow-x-auto max-h-24">{conflict.ours || '(deleted)'}</pre>
+                      <pre className="font-mono text-xs text-purple-300 bg-gray-900/60 rounded px-2 py-1 overflow-x-auto max-h-24">{conflict.theirs || '(deleted)'}</pre>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 min-h-[300px]">
+          <CodeEditor
+            title="Merge Result"
+            language={language}
+            value={result}
+            onChange={(val) => setResult(val || '')}
+            onClear={() => setResult('')}
+            onCopy={() => onCopy(result)}
+            onDownload={() => onDownload(result, 'merged')}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeViewer;
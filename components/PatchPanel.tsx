@@ -0,0 +1,151 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Copy, Download, Upload, Play, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { applyUnifiedDiff, createUnifiedDiff, HunkResult } from '../utils/unifiedDiff';
+
+interface PatchPanelProps {
+  original: string;
+  modified: string;
+  onApply: (content: string) => void;
+  onCopy: (content: string) => void;
+}
+
+const PatchPanel: React.FC<PatchPanelProps> = ({ original, modified, onApply, onCopy }) => {
+  const [context, setContext] = useState<number>(3);
+  const [patchInput, setPatchInput] = useState<string>('');
+  const [report, setReport] = useState<{ hunks?: HunkResult[]; error?: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const patch = useMemo(() => createUnifiedDiff(original, modified, { context }), [original, modified, context]);
+
+  const handleDownload = () => {
+    if (!patch) return;
+    const blob = new Blob([patch], { type: 'text/x-diff' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `diff-${Date.now()}.patch`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => setPatchInput(e.target?.result as string);
+      reader.readAsText(file);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleApply = () => {
+    try {
+      const result = applyUnifiedDiff(original, patchInput);
+      setReport({ hunks: result.hunks });
+      // A partially applied patch is still useful; the report lists what was skipped
+      if (result.hunks.some((h) => h.applied)) onApply(result.content);
+    } catch (e: any) {
+      setReport({ error: e.message });
+    }
+  };
+
+  const failed = report?.hunks?.filter((h) => !h.applied).length || 0;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 px-4 py-3 bg-gray-900/60 border-t border-gray-700 text-xs text-gray-300 max-h-72 overflow-y-auto">
+      {/* Export */}
+      <div className="flex flex-col gap-2 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold uppercase tracking-wider text-gray-400">Export patch</span>
+          <label className="flex items-center gap-1 ml-auto">
+            <span>Context lines</span>
+            <input
+              type="number"
+              min={0}
+              max={50}
+              value={context}
+              onChange={(e) => setContext(Math.max(0, Math.min(50, Number(e.target.value) || 0)))}
+              className="bg-gray-900 border border-gray-600 text-white px-2 py-0.5 rounded w-14 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <button
+            onClick={() => onCopy(patch)}
+            disabled={!patch}
+            className="p-1 text-gray-400 hover:text-purple-400 hover:bg-gray-800 rounded transition-colors disabled:opacity-40"
+            title="Copy Patch"
+          >
+            <Copy size={14} />
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!patch}
+            className="p-1 text-gray-400 hover:text-green-400 hover:bg-gray-800 rounded transition-colors disabled:opacity-40"
+            title="Download .patch"
+          >
+            <Download size={14} />
+          </button>
+        </div>
+        <pre className="bg-gray-950 border border-gray-700 rounded p-2 font-mono text-gray-400 overflow-auto max-h-48 whitespace-pre">
+          {patch || 'No differences'}
+        </pre>
+      </div>
+
+      {/* Apply */}
+      <div className="flex flex-col gap-2 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold uppercase tracking-wider text-gray-400">Apply patch to Original</span>
+          <input type="file" accept=".patch,.diff,text/*" ref={fileInputRef} onChange={handleUpload} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1 ml-auto text-gray-400 hover:text-blue-400 hover:bg-gray-800 rounded transition-colors"
+            title="Upload Patch File"
+          >
+            <Upload size={14} />
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!patchInput.trim()}
+            className="flex items-center gap-1 px-2 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors disabled:opacity-40"
+            title="Apply to Original and write the result to Modified"
+          >
+            <Play size={12} /> Apply
+          </button>
+        </div>
+        <textarea
+          value={patchInput}
+          onChange={(e) => { setPatchInput(e.target.value); setReport(null); }}
+          placeholder={'Paste a unified diff (--- / +++ / @@ -a,b +c,d @@)'}
+          className="bg-gray-950 border border-gray-700 rounded p-2 font-mono text-gray-300 h-24 resize-y focus:outline-none focus:ring-2 focus:ring-blue-500"
+          spellCheck={false}
+        />
+        {report?.error && (
+          <div className="flex items-center gap-1 text-red-300"><AlertCircle size={12} /> {report.error}</div>
+        )}
+        {report?.hunks && (
+          <ul className="flex flex-col gap-0.5 font-mono">
+            <li className={failed ? 'text-yellow-300' : 'text-green-300'}>
+              {report.hunks.length - failed} of {report.hunks.length} hunks applied
+            </li>
+            {report.hunks.map((hunk, index) => (
+              <li key={index} className="flex items-center gap-1">
+                {hunk.applied
+                  ? <CheckCircle2 size={12} className="text-green-400 shrink-0" />
+                  : <XCircle size={12} className="text-red-400 shrink-0" />}
+                <span className="text-blue-300">#{index + 1} {hunk.header}</span>
+                <span className="text-gray-400">
+                  {hunk.applied
+                    ? hunk.offset ? `applied with offset ${hunk.offset > 0 ? '+' : ''}${hunk.offset} lines` : 'applied'
+                    : hunk.reason}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PatchPanel;
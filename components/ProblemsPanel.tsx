@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Diagnostic } from '../types';
+import { AlertCircle, AlertTriangle, Info, ChevronDown, ChevronRight, CheckCircle2 } from 'lucide-react';
+
+export interface Problem extends Diagnostic {
+  // Which pane the problem belongs to, shown when several editors share the panel
+  source?: string;
+}
+
+interface ProblemsPanelProps {
+  problems: Problem[];
+  onSelect: (problem: Problem) => void;
+}
+
+const SEVERITY_ICONS = {
+  error: <AlertCircle size={14} className="text-red-400 flex-none" />,
+  warning: <AlertTriangle size={14} className="text-yellow-400 flex-none" />,
+  info: <Info size={14} className="text-blue-400 flex-none" />,
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ problems, onSelect }) => {
+  const [collapsed, setCollapsed] = useState<boolean>(false);
+
+  return (
+    <div className="flex-none bg-gray-900 border-t border-gray-700 text-xs">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex items-center gap-2 px-4 py-1.5 text-gray-300 hover:bg-gray-800 transition-colors"
+      >
+        {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+        <span className="font-semibold uppercase tracking-wider">Problems</span>
+        {problems.length === 0 ? (
+          <CheckCircle2 size={14} className="text-green-400" />
+        ) : (
+          <span className="bg-red-900/60 text-red-200 rounded-full px-2">{problems.length}</span>
+        )}
+      </button>
+
+      {!collapsed && problems.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto">
+          {problems.map((problem, index) => (
+            <li key={index}>
+              <button
+                onClick={() => onSelect(problem)}
+                className="w-full flex items-center gap-2 px-4 py-1 text-left text-gray-300 hover:bg-gray-800 transition-colors"
+                title="Go to location"
+              >
+                {SEVERITY_ICONS[problem.severity]}
+                {problem.source && <span className="text-gray-500">[{problem.source}]</span>}
+                <span className="truncate flex-grow">{problem.message}</span>
+                <span className="text-gray-500 flex-none">Ln {problem.line}, Col {problem.column}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Share2, Copy, Lock, AlertTriangle } from 'lucide-react';
+import { SHARE_LINK_WARN_LENGTH } from '../utils/share';
+
+interface ShareMenuProps {
+  // Resolves to the full link for the current view, encrypted when a passphrase is given
+  onCreateLink: (passphrase: string) => Promise<string>;
+  onCopy: (content: string) => void;
+}
+
+const inputClass = 'bg-gray-900 border border-gray-600 text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const ShareMenu: React.FC<ShareMenuProps> = ({ onCreateLink, onCopy }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [link, setLink] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState<boolean>(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleOpen = () => {
+    // A link made earlier no longer matches the panes
+    setLink('');
+    setError(null);
+    setOpen(!open);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      setLink(await onCreateLink(passphrase));
+    } catch (e: any) {
+      setLink('');
+      setError(e.message || 'Could not create the link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={handleOpen}
+        className="flex items-center gap-2 bg-gray-900 border border-gray-700 hover:border-gray-500 text-gray-300 hover:text-white px-3 py-2 rounded transition-colors text-sm"
+        title="Share the current view as a link"
+      >
+        <Share2 size={16} />
+        Share
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 z-20 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-4 flex flex-col gap-3 text-sm text-gray-300">
+          <p className="text-xs text-gray-400">
+            The code is compressed into the part of the link after "#", which browsers never send to a server.
+          </p>
+
+          <label className="flex flex-col gap-1 text-xs" title="Whoever opens the link has to type it">
+            <span className="flex items-center gap-1"><Lock size={12} /> Passphrase (optional)</span>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => { setPassphrase(e.target.value); setLink(''); }}
+              placeholder="Leave empty for an open link"
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          </label>
+
+          <button
+            onClick={handleCreate}
+            disabled={creating}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            {creating ? 'Creating…' : passphrase ? 'Create encrypted link' : 'Create link'}
+          </button>
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+
+          {link && (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  readOnly
+                  value={link}
+                  onFocus={(e) => e.target.select()}
+                  className={`${inputClass} flex-grow min-w-0 font-mono text-xs`}
+                />
+                <button
+                  onClick={() => onCopy(link)}
+                  className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                  title="Copy link"
+                >
+                  <Copy size={16} />
+                </button>
+              </div>
+              <span className="text-xs text-gray-500">{link.length.toLocaleString()} characters</span>
+              {link.length > SHARE_LINK_WARN_LENGTH && (
+                <p className="flex items-start gap-1 text-xs text-yellow-300">
+                  <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                  Long links may be cut off by chat apps and mail clients. Check that it opens before relying on it.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareMenu;
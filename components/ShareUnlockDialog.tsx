@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+
+interface ShareUnlockDialogProps {
+  // Rejects when the passphrase does not open the link
+  onUnlock: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const ShareUnlockDialog: React.FC<ShareUnlockDialogProps> = ({ onUnlock, onCancel }) => {
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err: any) {
+      setError(err.message || 'Could not open the link');
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-gray-800 border border-gray-700 rounded-lg shadow-2xl p-5 flex flex-col gap-3 text-sm text-gray-300"
+      >
+        <h2 className="flex items-center gap-2 text-base font-semibold text-white">
+          <Lock size={16} /> Protected link
+        </h2>
+        <p>This shared code is encrypted. Enter the passphrase you were given to open it.</p>
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="bg-gray-900 border border-gray-600 text-white px-3 py-2 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {error && <p className="text-xs text-red-300">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!passphrase || unlocking}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded font-medium transition-colors disabled:opacity-50"
+          >
+            {unlocking ? 'Opening…' : 'Open'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ShareUnlockDialog;
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, X, Upload, ClipboardPaste, Undo2 } from 'lucide-react';
+import { WorkspaceDocument } from '../types';
+
+interface TabBarProps {
+  tabs: WorkspaceDocument[];
+  activeId: string;
+  // Most recently closed first
+  closedTabs: WorkspaceDocument[];
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onClose: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, targetId: string) => void;
+  onReopen: (id: string) => void;
+  onUpload: (files: { content: string; fileName: string }[]) => void;
+  onPaste: () => void;
+}
+
+const iconButtonClass = 'p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition-colors';
+
+const TabBar: React.FC<TabBarProps> = ({
+  tabs,
+  activeId,
+  closedTabs,
+  onSelect,
+  onNew,
+  onClose,
+  onRename,
+  onMove,
+  onReopen,
+  onUpload,
+  onPaste
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [closedOpen, setClosedOpen] = useState<boolean>(false);
+  const closedMenuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!closedOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (closedMenuRef.current && !closedMenuRef.current.contains(e.target as Node)) setClosedOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [closedOpen]);
+
+  const startRename = (tab: WorkspaceDocument) => {
+    setEditingId(tab.id);
+    setDraftName(tab.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  // Every picked file gets a tab of its own; they are read first so the tabs open in one go
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    const contents = await Promise.all(files.map((file) => file.text()));
+    if (files.length) onUpload(files.map((file, i) => ({ content: contents[i], fileName: file.name })));
+  };
+
+  return (
+    <div className="flex items-center gap-1 bg-gray-900 border-b border-gray-700 px-2">
+      <div className="flex items-end gap-1 overflow-x-auto min-w-0 pt-1">
+        {tabs.map((tab) => {
+          const active = tab.id === activeId;
+          return (
+            <div
+              key={tab.id}
+              draggable={editingId !== tab.id}
+              onDragStart={(e) => {
+                setDraggedId(tab.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                if (draggedId) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (draggedId) onMove(draggedId, tab.id);
+                setDraggedId(null);
+              }}
+              onDragEnd={() => setDraggedId(null)}
+              onClick={() => onSelect(tab.id)}
+              onDoubleClick={() => startRename(tab)}
+              onAuxClick={(e) => {
+                if (e.button === 1) onClose(tab.id);
+              }}
+              className={`group flex items-center gap-2 pl-3 pr-1 py-1.5 rounded-t-md text-sm cursor-pointer select-none border border-b-0 transition-colors ${
+                active
+                  ? 'bg-gray-800 border-gray-700 text-white'
+                  : 'bg-gray-900 border-transparent text-gray-400 hover:text-gray-200 hover:bg-gray-850'
+              } ${draggedId === tab.id ? 'opacity-50' : ''}`}
+              title={`${tab.name} · double-click to rename, drag to reorder`}
+            >
+              <span className="text-[10px] font-semibold uppercase text-gray-500">{tab.language}</span>
+              {editingId === tab.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-32 bg-gray-950 border border-gray-600 text-white px-1 rounded text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              ) : (
+                <span className="max-w-[12rem] truncate">{tab.name}</span>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onClose(tab.id);
+                }}
+                className={`p-0.5 rounded hover:bg-gray-700 hover:text-white transition-opacity ${active ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                title="Close tab"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-1 flex-none py-1">
+        <button onClick={onNew} className={iconButtonClass} title="New tab">
+          <Plus size={16} />
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Open files in new tabs">
+          <Upload size={16} />
+        </button>
+        <input type="file" multiple ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+        <button onClick={onPaste} className={iconButtonClass} title="Paste clipboard into a new tab">
+          <ClipboardPaste size={16} />
+        </button>
+
+        <div className="relative" ref={closedMenuRef}>
+          <button
+            onClick={() => setClosedOpen(!closedOpen)}
+            disabled={closedTabs.length === 0}
+            className={`${iconButtonClass} disabled:opacity-40 disabled:pointer-events-none`}
+            title="Reopen a closed tab"
+          >
+            <Undo2 size={16} />
+          </button>
+          {closedOpen && closedTabs.length > 0 && (
+            <ul className="absolute right-0 mt-2 w-64 z-20 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1 text-sm text-gray-300">
+              {closedTabs.map((tab) => (
+                <li key={tab.id}>
+                  <button
+                    onClick={() => {
+                      onReopen(tab.id);
+                      setClosedOpen(false);
+                    }}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-gray-700 hover:text-white transition-colors"
+                  >
+                    <span className="text-[10px] font-semibold uppercase text-gray-500">{tab.language}</span>
+                    <span className="truncate">{tab.name}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TabBar;
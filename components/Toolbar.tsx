@@ -1,28 +1,94 @@
 import React from 'react';
-import { Language, ViewMode } from '../types';
-import { Wand2, Zap, Settings2, FileDiff, FileCode2 } from 'lucide-react';
+import { JsMinifyOptions, KeywordCase, Language, SqlDialect, SqlFormatOptions, StyleOptions, ViewMode } from '../types';
+import { Wand2, Zap, Settings2, FileDiff, FileCode2, ShieldCheck, GitMerge, Loader2, History, Layers, ListChecks } from 'lucide-react';
+import ConvertMenu from './ConvertMenu';
+import FormatOptionsMenu from './FormatOptionsMenu';
+import ShareMenu from './ShareMenu';
+import { ConversionOptions, DataFormat } from '../utils/converter';
+import { LanguageCandidate } from '../utils/languageDetector';
 
 interface ToolbarProps {
   language: Language;
   setLanguage: (lang: string) => void;
+  // Other likely languages when auto-detection was unsure
+  alternatives: LanguageCandidate[];
   onBeautify: () => void;
   onMinify: () => void;
+  // Compares the input with its formatted version in the Diff Checker
+  onCheckFormatting: () => void;
   autoUpdate: boolean;
   setAutoUpdate: (val: boolean) => void;
+  // Set for inputs too large to re-format on every change
+  autoUpdatePaused: boolean;
+  busy: boolean;
   viewMode: ViewMode;
   setViewMode: (mode: ViewMode) => void;
+  sqlOptions: SqlFormatOptions;
+  setSqlOptions: (options: SqlFormatOptions) => void;
+  jsOptions: JsMinifyOptions;
+  setJsOptions: (options: JsMinifyOptions) => void;
+  styleOptions: StyleOptions;
+  setStyleOptions: (options: StyleOptions) => void;
+  syntaxCheck: boolean;
+  setSyntaxCheck: (val: boolean) => void;
+  conversionOptions: ConversionOptions;
+  setConversionOptions: (options: ConversionOptions) => void;
+  onConvert: (from: DataFormat | 'auto', to: DataFormat) => void;
+  onShowHistory: () => void;
+  onShowBatch: () => void;
+  onCreateShareLink: (passphrase: string) => Promise<string>;
+  onCopy: (content: string) => void;
 }
 
+const SQL_DIALECTS: { value: SqlDialect; label: string }[] = [
+  { value: 'postgresql', label: 'PostgreSQL' },
+  { value: 'mysql', label: 'MySQL' },
+  { value: 'sqlite', label: 'SQLite' },
+  { value: 'tsql', label: 'T-SQL' },
+];
+
+const KEYWORD_CASES: { value: KeywordCase; label: string }[] = [
+  { value: 'upper', label: 'UPPERCASE' },
+  { value: 'lower', label: 'lowercase' },
+  { value: 'preserve', label: 'Preserve' },
+];
+
 const Toolbar: React.FC<ToolbarProps> = ({ 
   language, 
   setLanguage, 
+  alternatives,
   onBeautify, 
   onMinify,
+  onCheckFormatting,
   autoUpdate,
   setAutoUpdate,
+  autoUpdatePaused,
+  busy,
   viewMode,
-  setViewMode
+  setViewMode,
+  sqlOptions,
+  setSqlOptions,
+  jsOptions,
+  setJsOptions,
+  styleOptions,
+  setStyleOptions,
+  syntaxCheck,
+  setSyntaxCheck,
+  conversionOptions,
+  setConversionOptions,
+  onConvert,
+  onShowHistory,
+  onShowBatch,
+  onCreateShareLink,
+  onCopy
 }) => {
+  const isScript = language === Language.JAVASCRIPT || language === Language.TYPESCRIPT;
+  const minifyToggles: { key: keyof JsMinifyOptions; label: string; visible: boolean }[] = [
+    { key: 'stripTypes', label: 'Strip types', visible: language === Language.TYPESCRIPT },
+    { key: 'mangle', label: 'Mangle', visible: true },
+    { key: 'foldConstants', label: 'Fold constants', visible: true },
+  ];
+
   return (
     <div className="bg-gray-800 border-b border-gray-700 p-4 sticky top-0 z-20 shadow-md">
       <div className="max-w-7xl mx-auto flex flex-col md:flex-row md:items-center justify-between gap-4">
@@ -58,9 +124,20 @@ const Toolbar: React.FC<ToolbarProps> = ({
                     <FileDiff size={16} />
                     Diff Checker
                 </button>
+                <button
+                    onClick={() => setViewMode('merge')}
+                    className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-sm font-medium transition-all ${
+                        viewMode === 'merge' 
+                        ? 'bg-gray-700 text-white shadow-sm' 
+                        : 'text-gray-400 hover:text-gray-200'
+                    }`}
+                >
+                    <GitMerge size={16} />
+                    Merge
+                </button>
             </div>
           
-            {viewMode === 'formatter' && (
+            {viewMode !== 'diff' && (
               <div className="relative">
                   <select 
                       value={language}
@@ -80,21 +157,124 @@ const Toolbar: React.FC<ToolbarProps> = ({
                   </div>
               </div>
             )}
+
+            {viewMode !== 'diff' && alternatives.length > 0 && (
+              <div className="flex items-center gap-1 text-xs text-gray-400" title="Auto-detection was unsure about the language">
+                  <span>Or:</span>
+                  {alternatives.map(({ language: candidate, confidence }) => (
+                  <button
+                      key={candidate}
+                      onClick={() => setLanguage(candidate)}
+                      className="px-2 py-1 bg-gray-900 border border-gray-700 hover:border-blue-500 hover:text-white rounded transition-colors"
+                  >
+                      {candidate.toUpperCase()} {Math.round(confidence * 100)}%
+                  </button>
+                  ))}
+              </div>
+            )}
+
+            {viewMode === 'formatter' && language === Language.SQL && (
+              <div className="flex items-center gap-2">
+                  <select
+                      value={sqlOptions.dialect}
+                      onChange={(e) => setSqlOptions({ ...sqlOptions, dialect: e.target.value as SqlDialect })}
+                      className="bg-gray-900 border border-gray-600 text-white py-2 px-3 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer text-sm"
+                      title="SQL Dialect"
+                  >
+                      {SQL_DIALECTS.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                      ))}
+                  </select>
+                  <select
+                      value={sqlOptions.keywordCase}
+                      onChange={(e) => setSqlOptions({ ...sqlOptions, keywordCase: e.target.value as KeywordCase })}
+                      className="bg-gray-900 border border-gray-600 text-white py-2 px-3 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer text-sm"
+                      title="Keyword Case"
+                  >
+                      {KEYWORD_CASES.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                      ))}
+                  </select>
+              </div>
+            )}
         </div>
 
         {/* Actions - Only show formatter actions if in formatter mode */}
+        <div className="flex items-center gap-2 flex-wrap">
+            <button
+                onClick={onShowHistory}
+                className="flex items-center gap-2 bg-gray-900 border border-gray-700 hover:border-gray-500 text-gray-300 hover:text-white px-3 py-2 rounded transition-colors text-sm"
+                title="Browse and restore earlier sessions"
+            >
+                <History size={16} />
+                History
+            </button>
+
+            <ShareMenu onCreateLink={onCreateShareLink} onCopy={onCopy} />
+
+            <button
+                onClick={onShowBatch}
+                className="flex items-center gap-2 bg-gray-900 border border-gray-700 hover:border-gray-500 text-gray-300 hover:text-white px-3 py-2 rounded transition-colors text-sm"
+                title="Beautify or minify many files at once"
+            >
+                <Layers size={16} />
+                Batch
+            </button>
+
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none bg-gray-900 px-3 py-2 rounded border border-gray-700 hover:border-gray-500 transition-colors">
+                <input
+                type="checkbox"
+                checked={syntaxCheck}
+                onChange={(e) => setSyntaxCheck(e.target.checked)}
+                className="rounded border-gray-600 text-blue-500 focus:ring-blue-500 bg-gray-700"
+                />
+                <ShieldCheck size={16} className="text-gray-400" />
+                <span>Check syntax</span>
+            </label>
+
         {viewMode === 'formatter' && (
-            <div className="flex items-center gap-2 flex-wrap">
-            <label className="flex items-center gap-2 text-sm text-gray-300 mr-2 cursor-pointer select-none bg-gray-900 px-3 py-2 rounded border border-gray-700 hover:border-gray-500 transition-colors">
+            <>
+            {busy && (
+                <span className="flex items-center gap-2 text-sm text-blue-300" role="status">
+                    <Loader2 size={16} className="animate-spin" />
+                    Working…
+                </span>
+            )}
+
+            <label
+                className={`flex items-center gap-2 text-sm mr-2 select-none bg-gray-900 px-3 py-2 rounded border border-gray-700 transition-colors ${
+                    autoUpdatePaused ? 'text-gray-500 cursor-not-allowed' : 'text-gray-300 cursor-pointer hover:border-gray-500'
+                }`}
+                title={autoUpdatePaused ? 'Large input: use Beautify to format it' : undefined}
+            >
                 <input 
                 type="checkbox" 
-                checked={autoUpdate} 
+                checked={autoUpdate && !autoUpdatePaused} 
+                disabled={autoUpdatePaused}
                 onChange={(e) => setAutoUpdate(e.target.checked)} 
                 className="rounded border-gray-600 text-blue-500 focus:ring-blue-500 bg-gray-700"
                 />
-                <span>Real-time</span>
+                <span>{autoUpdatePaused ? 'Real-time (paused)' : 'Real-time'}</span>
             </label>
 
+            {isScript && minifyToggles.filter((toggle) => toggle.visible).map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none bg-gray-900 px-3 py-2 rounded border border-gray-700 hover:border-gray-500 transition-colors">
+                    <input
+                    type="checkbox"
+                    checked={jsOptions[key]}
+                    onChange={(e) => setJsOptions({ ...jsOptions, [key]: e.target.checked })}
+                    className="rounded border-gray-600 text-blue-500 focus:ring-blue-500 bg-gray-700"
+                    />
+                    <span>{label}</span>
+                </label>
+            ))}
+
+            <FormatOptionsMenu
+                language={language}
+                options={styleOptions}
+                setOptions={setStyleOptions}
+            />
+
             <button 
                 onClick={onBeautify}
                 className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded font-medium transition-all transform active:scale-95 shadow-lg shadow-blue-900/20 text-sm"
@@ -110,8 +290,24 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 <Zap size={16} />
                 Minify
             </button>
-            </div>
+
+            <button 
+                onClick={onCheckFormatting}
+                className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 px-4 py-2 rounded font-medium transition-all transform active:scale-95 text-sm"
+                title="Check whether the input is already formatted, and show what would change"
+            >
+                <ListChecks size={16} />
+                Check
+            </button>
+
+            <ConvertMenu
+                options={conversionOptions}
+                setOptions={setConversionOptions}
+                onConvert={onConvert}
+            />
+            </>
         )}
+        </div>
       </div>
     </div>
   );
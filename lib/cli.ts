@@ -0,0 +1,226 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { EndOfLine, FormatOptions, JsMinifyOptions, KeywordCase, Language, SqlDialect, StyleOptions, TrailingComma } from '../types';
+import { formatCode, minifyCode } from '../utils/formatter';
+import { validateCode } from '../utils/validator';
+import { detectLanguageCandidates, languageFromPath } from '../utils/languageDetector';
+import { DEFAULT_SQL_OPTIONS } from '../utils/sqlFormatter';
+
+// Everything the CLI touches outside itself, so tests can run it in memory
+export interface CliIO {
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  readStdin: () => Promise<string>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const nodeIO: CliIO = {
+  readFile: (path) => readFile(path, 'utf8'),
+  writeFile: (path, content) => writeFile(path, content, 'utf8'),
+  readStdin: async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+  },
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+// Exit codes: 0 success, 1 unformatted / invalid input, 2 bad usage
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: formacheck <command> [options] [files...]
+
+Commands:
+  format    Beautify files, to stdout unless --write or --check is given
+  minify    Minify files, to stdout unless --write is given
+  detect    Print the language detected for each file
+  check     Report syntax errors, exiting with 1 when there are any
+
+Reads stdin when no file (or "-") is given.
+
+Options:
+  -l, --language <lang>           ${Object.values(Language).join(', ')}
+                                  (default: from the file extension, else detected)
+  -w, --write                     Rewrite the files in place
+  -c, --check                     format: list files that are not formatted, exit with 1 if any
+      --print-width <n>
+      --tab-width <n>
+      --use-tabs
+      --single-quote
+      --no-semi
+      --trailing-comma <all|es5|none>
+      --no-bracket-spacing
+      --single-attribute-per-line
+      --end-of-line <lf|crlf>
+      --sql-dialect <postgresql|mysql|sqlite|tsql>
+      --keyword-case <upper|lower|preserve>
+      --strip-types, --mangle, --fold-constants   JavaScript / TypeScript minification
+  -h, --help
+`;
+
+const OPTIONS = {
+  language: { type: 'string', short: 'l' },
+  write: { type: 'boolean', short: 'w' },
+  check: { type: 'boolean', short: 'c' },
+  'print-width': { type: 'string' },
+  'tab-width': { type: 'string' },
+  'use-tabs': { type: 'boolean' },
+  'single-quote': { type: 'boolean' },
+  'no-semi': { type: 'boolean' },
+  'trailing-comma': { type: 'string' },
+  'no-bracket-spacing': { type: 'boolean' },
+  'single-attribute-per-line': { type: 'boolean' },
+  'end-of-line': { type: 'string' },
+  'sql-dialect': { type: 'string' },
+  'keyword-case': { type: 'string' },
+  'strip-types': { type: 'boolean' },
+  mangle: { type: 'boolean' },
+  'fold-constants': { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type ParsedOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const oneOf = <T extends string>(name: string, value: string | undefined, allowed: readonly T[]): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) throw new Error(`--${name} must be one of: ${allowed.join(', ')}`);
+  return value as T;
+};
+
+const positiveInteger = (name: string, value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new Error(`--${name} must be a positive integer`);
+  return parsed;
+};
+
+// Only the flags given override the per-language defaults, as in the options panel
+const toFormatOptions = (values: ParsedOptions): FormatOptions => {
+  const style: Partial<StyleOptions> = {
+    printWidth: positiveInteger('print-width', values['print-width']),
+    tabWidth: positiveInteger('tab-width', values['tab-width']),
+    useTabs: values['use-tabs'],
+    singleQuote: values['single-quote'],
+    semi: values['no-semi'] ? false : undefined,
+    trailingComma: oneOf<TrailingComma>('trailing-comma', values['trailing-comma'], ['all', 'es5', 'none']),
+    bracketSpacing: values['no-bracket-spacing'] ? false : undefined,
+    singleAttributePerLine: values['single-attribute-per-line'],
+    endOfLine: oneOf<EndOfLine>('end-of-line', values['end-of-line'], ['lf', 'crlf']),
+  };
+  const js: Partial<JsMinifyOptions> = {
+    stripTypes: values['strip-types'],
+    mangle: values.mangle,
+    foldConstants: values['fold-constants'],
+  };
+  const defined = <T extends object>(object: T): Partial<T> =>
+    Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined)) as Partial<T>;
+  return {
+    style: defined(style),
+    js: defined(js),
+    sql: {
+      dialect: oneOf<SqlDialect>('sql-dialect', values['sql-dialect'], ['postgresql', 'mysql', 'sqlite', 'tsql']) ?? DEFAULT_SQL_OPTIONS.dialect,
+      keywordCase: oneOf<KeywordCase>('keyword-case', values['keyword-case'], ['upper', 'lower', 'preserve']) ?? DEFAULT_SQL_OPTIONS.keywordCase,
+    },
+  };
+};
+
+// Files end with a line break, as editors and git expect; the web app leaves that to the user
+const withFinalNewline = (text: string, endOfLine: EndOfLine | undefined) =>
+  text && !text.endsWith('\n') ? text + (endOfLine === 'crlf' ? '\r\n' : '\n') : text;
+
+export const runCli = async (argv: string[], io: CliIO = nodeIO): Promise<number> => {
+  let parsed: { values: ParsedOptions; positionals: string[] };
+  let options: FormatOptions;
+  let forcedLanguage: Language | undefined;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    options = toFormatOptions(parsed.values);
+    forcedLanguage = oneOf<Language>('language', parsed.values.language, Object.values(Language));
+  } catch (e: any) {
+    io.stderr(`formacheck: ${e.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...paths] = positionals;
+  if (values.help || !command) {
+    (values.help ? io.stdout : io.stderr)(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+  if (!['format', 'minify', 'detect', 'check'].includes(command)) {
+    io.stderr(`formacheck: unknown command "${command}"\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (values.check && command !== 'format') {
+    io.stderr(`formacheck: --check only applies to format, not ${command}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  const inputs = paths.length ? paths : ['-'];
+  if (values.write && inputs.includes('-')) {
+    io.stderr('formacheck: --write needs file paths, not stdin\n');
+    return EXIT_USAGE;
+  }
+
+  let exitCode = EXIT_OK;
+  const fail = (path: string, message: string) => {
+    io.stderr(`${path === '-' ? '<stdin>' : path}: ${message}\n`);
+    exitCode = EXIT_FAILED;
+  };
+
+  for (const path of inputs) {
+    let code: string;
+    try {
+      code = path === '-' ? await io.readStdin() : await io.readFile(path);
+    } catch (e: any) {
+      fail(path, e.message);
+      continue;
+    }
+
+    const detection = forcedLanguage || path === '-' ? undefined : languageFromPath(path);
+    const guess = forcedLanguage || detection ? undefined : detectLanguageCandidates(code);
+    const language = forcedLanguage ?? detection ?? guess!.language;
+    const name = path === '-' ? '<stdin>' : path;
+
+    try {
+      switch (command) {
+        case 'detect': {
+          const source = forcedLanguage ? 'forced' : detection ? 'extension' : `content, ${Math.round(guess!.confidence * 100)}%`;
+          io.stdout(`${name}\t${language}\t(${source})\n`);
+          break;
+        }
+
+        case 'check': {
+          const diagnostics = await validateCode(code, language, options.sql!.dialect!);
+          diagnostics.forEach(({ severity, message, line, column }) => io.stdout(`${name}:${line}:${column}: ${severity}: ${message}\n`));
+          if (diagnostics.some(({ severity }) => severity === 'error')) exitCode = EXIT_FAILED;
+          break;
+        }
+
+        case 'format':
+        case 'minify': {
+          const result = command === 'format'
+            ? withFinalNewline(await formatCode(code, language, options), options.style?.endOfLine)
+            : await minifyCode(code, language, options);
+          if (values.check) {
+            if (result !== code) {
+              io.stdout(`${name}\n`);
+              exitCode = EXIT_FAILED;
+            }
+          } else if (values.write) {
+            if (result !== code) await io.writeFile(path, result);
+          } else {
+            io.stdout(command === 'minify' ? `${result}\n` : result);
+          }
+          break;
+        }
+      }
+    } catch (e: any) {
+      fail(path, e.message || String(e));
+    }
+  }
+  return exitCode;
+};
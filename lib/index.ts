@@ -0,0 +1,26 @@
+// Public entry point of the formacheck package: the formatting rules of the web app, for Node
+// scripts and build tools. Everything here runs without a browser.
+
+export { Language } from '../types';
+export type {
+  Diagnostic,
+  DiagnosticSeverity,
+  EndOfLine,
+  FormatOptions,
+  JsMinifyOptions,
+  KeywordCase,
+  SqlDialect,
+  SqlFormatOptions,
+  StyleOptions,
+  TrailingComma,
+} from '../types';
+
+export { formatCode, minifyCode } from '../utils/formatter';
+export { validateCode } from '../utils/validator';
+export { detectLanguage, detectLanguageCandidates, languageFromPath, EXTENSION_LANGUAGES } from '../utils/languageDetector';
+export type { DetectionResult, LanguageCandidate } from '../utils/languageDetector';
+export { DEFAULT_STYLE_OPTIONS } from '../utils/styleOptions';
+export { DEFAULT_SQL_OPTIONS } from '../utils/sqlFormatter';
+export { DEFAULT_JS_MINIFY_OPTIONS } from '../utils/jsMinifier';
+export { runCli } from './cli';
+export type { CliIO } from './cli';
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { BatchFile, BatchResult, batchToZip, runBatch } from '../utils/batchFormat';
+import { languageFromPath } from '../utils/languageDetector';
+import { readZip } from '../utils/zipReader';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const files: BatchFile[] = [
+  { path: 'src/data.json', bytes: encoder.encode('{"a":1,"b":[1,2]}') },
+  { path: 'src/style.css', bytes: encoder.encode('a{color:red}') },
+  { path: 'src/broken.js', bytes: encoder.encode('function (') },
+  { path: 'notes/README', bytes: encoder.encode('# Title\n\nSome *text*.\n') },
+  { path: 'logo.png', bytes: new Uint8Array([137, 80, 78, 71, 0, 0]) },
+];
+
+describe('batch formatting', () => {
+  it('picks the language from the extension, case-insensitively', () => {
+    expect(languageFromPath('a/b/Component.TSX')).toBe(Language.TYPESCRIPT);
+    expect(languageFromPath('config.yml')).toBe(Language.YAML);
+    expect(languageFromPath('Makefile')).toBeUndefined();
+    expect(languageFromPath('.hidden/file.unknown')).toBeUndefined();
+  });
+
+  it('formats each file and reports failures without stopping', async () => {
+    const reported: BatchResult[] = [];
+    const results = await runBatch(files, 'beautify', () => ({}), (result) => reported.push(result));
+
+    expect(reported).toEqual(results);
+    expect(results.map(({ path, status }) => `${status} ${path}`)).toEqual([
+      'ok src/data.json',
+      'ok src/style.css',
+      'error src/broken.js',
+      'ok notes/README',
+      'skipped logo.png',
+    ]);
+    expect(results[0].output).toBe(JSON.stringify({ a: 1, b: [1, 2] }, null, 2));
+    expect(results[1]).toMatchObject({ language: Language.CSS, detectedBy: 'extension' });
+    expect(results[3]).toMatchObject({ language: Language.MARKDOWN, detectedBy: 'content' });
+  });
+
+  it('minifies and stops when aborted', async () => {
+    const controller = new AbortController();
+    const results = await runBatch(files, 'minify', () => ({}), () => controller.abort(), controller.signal);
+    expect(results).toHaveLength(1);
+    expect(results[0].output).toBe('{"a":1,"b":[1,2]}');
+  });
+
+  it('zips every file under its original path', async () => {
+    const results = await runBatch(files, 'beautify', () => ({}), () => {});
+    const archive = await readZip(await batchToZip(files, results));
+
+    expect([...archive.keys()]).toEqual(files.map(({ path }) => path));
+    expect(decoder.decode(archive.get('src/style.css'))).toBe('a {\n  color: red;\n}\n');
+    // Failed and skipped files come back untouched
+    expect(decoder.decode(archive.get('src/broken.js'))).toBe('function (');
+    expect(archive.get('logo.png')).toEqual(files[4].bytes);
+  });
+});
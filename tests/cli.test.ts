@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CliIO, runCli } from '../lib/cli';
+
+// An in-memory file system and captured output streams
+const memoryIO = (files: Record<string, string>, stdin = '') => {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIO = {
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error('ENOENT: no such file');
+      return files[path];
+    },
+    writeFile: async (path, content) => {
+      files[path] = content;
+    },
+    readStdin: async () => stdin,
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+  };
+  return { io, files, stdout: () => out.join(''), stderr: () => err.join('') };
+};
+
+describe('formacheck CLI', () => {
+  it('formats stdin to stdout, ending with a line break', async () => {
+    const run = memoryIO({}, '{"a":1}');
+    expect(await runCli(['format', '--language', 'json'], run.io)).toBe(0);
+    expect(run.stdout()).toBe('{\n  "a": 1\n}\n');
+  });
+
+  it('lists unformatted files with --check and exits with 1', async () => {
+    const run = memoryIO({ 'ok.css': 'a {\n  color: red;\n}\n', 'bad.css': 'a{color:red}' });
+    expect(await runCli(['format', '--check', 'ok.css', 'bad.css'], run.io)).toBe(1);
+    expect(run.stdout()).toBe('bad.css\n');
+    expect(await runCli(['format', '--check', 'ok.css'], run.io)).toBe(0);
+  });
+
+  it('rewrites files in place with --write, applying style flags', async () => {
+    const run = memoryIO({ 'src/a.ts': 'const a = "x"' });
+    expect(await runCli(['format', '-w', '--single-quote', '--no-semi', 'src/a.ts'], run.io)).toBe(0);
+    expect(run.files['src/a.ts']).toBe("const a = 'x'\n");
+    expect(run.stdout()).toBe('');
+  });
+
+  it('minifies and detects languages', async () => {
+    const run = memoryIO({ 'data.json': '{ "a": [1, 2] }', 'query': 'SELECT id FROM users WHERE id = 1' });
+    expect(await runCli(['minify', 'data.json'], run.io)).toBe(0);
+    expect(await runCli(['detect', 'data.json', 'query'], run.io)).toBe(0);
+    expect(run.stdout().split('\n')).toEqual(['{"a":[1,2]}', 'data.json\tjson\t(extension)', expect.stringMatching(/^query\tsql\t\(content, \d+%\)$/), '']);
+  });
+
+  it('reports syntax errors with their location', async () => {
+    const run = memoryIO({ 'broken.js': 'function (' });
+    expect(await runCli(['check', 'broken.js'], run.io)).toBe(1);
+    expect(run.stdout()).toMatch(/^broken\.js:1:\d+: error: /);
+  });
+
+  it('keeps going after a failing file and exits with 1', async () => {
+    const run = memoryIO({ 'good.json': '[]' });
+    expect(await runCli(['format', 'missing.json', 'good.json'], run.io)).toBe(1);
+    expect(run.stderr()).toContain('missing.json: ENOENT');
+    expect(run.stdout()).toBe('[]\n');
+  });
+
+  it('exits with 2 on bad usage', async () => {
+    expect(await runCli([], memoryIO({}).io)).toBe(2);
+    expect(await runCli(['reformat', 'a.js'], memoryIO({}).io)).toBe(2);
+    expect(await runCli(['format', '--language', 'cobol'], memoryIO({}).io)).toBe(2);
+    expect(await runCli(['format', '--write'], memoryIO({}).io)).toBe(2);
+    expect(await runCli(['minify', '--check', 'a.js'], memoryIO({}).io)).toBe(2);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { convertData } from '../utils/converter';
+
+const COMMENT_WARNING = 'TOML comments were dropped';
+
+describe('TOML to JSON', () => {
+  it('converts without warnings when nothing is lost', () => {
+    const result = convertData('name = "x # not a comment"\nurl = \'a#b\'\ntext = """\nsay "#"\n"""', 'toml', 'json');
+    expect(JSON.parse(result.output)).toEqual({ name: 'x # not a comment', url: 'a#b', text: 'say "#"\n' });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('warns about whole-line comments', () => {
+    expect(convertData('# settings\nname = "x"', 'toml', 'json').warnings).toEqual([COMMENT_WARNING]);
+  });
+
+  it('warns about comments after a value', () => {
+    expect(convertData('name = "x" # note', 'toml', 'json').warnings).toEqual([COMMENT_WARNING]);
+    expect(convertData('"key \\" #" = 1 # note', 'toml', 'json').warnings).toEqual([COMMENT_WARNING]);
+  });
+
+  it('rounds integers beyond the JSON number range with a warning', () => {
+    const result = convertData('big = 9007199254740993\nsmall = 1', 'toml', 'json');
+    expect(JSON.parse(result.output)).toEqual({ big: 9007199254740992, small: 1 });
+    expect(result.warnings).toEqual(['Integers too large for JSON numbers were rounded']);
+  });
+});
+
+describe('__proto__ keys', () => {
+  it('keeps a __proto__ element as an ordinary key', () => {
+    const result = JSON.parse(convertData('<root><__proto__><admin>true</admin></__proto__><name>x</name></root>', 'xml', 'json').output);
+    expect(result).toEqual({ root: { ['__proto__']: { admin: 'true' }, name: 'x' } });
+    expect(Object.getPrototypeOf(result.root)).toBe(Object.prototype);
+  });
+
+  it('keeps __proto__ columns as ordinary keys without touching Object.prototype', () => {
+    const result = JSON.parse(convertData('__proto__,__proto__.admin,name\n1,true,x', 'csv', 'json', { csvFlattenSeparator: '.' }).output);
+    expect(Object.keys(result[0])).toEqual(['__proto__', 'name']);
+    expect(({} as Record<string, unknown>).admin).toBeUndefined();
+  });
+});
@@ -0,0 +1,21 @@
+import { readdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import path from 'path';
+import { Language } from '../types';
+
+export interface Fixture {
+  language: Language;
+  name: string;
+  content: string;
+}
+
+const FIXTURES_DIR = fileURLToPath(new URL('./fixtures', import.meta.url));
+
+// Fixtures live in tests/fixtures/<language>/, one sample document per file
+export const loadFixtures = (): Fixture[] =>
+  Object.values(Language).flatMap((language) => {
+    const dir = path.join(FIXTURES_DIR, language);
+    return readdirSync(dir)
+      .sort()
+      .map((name) => ({ language, name, content: readFileSync(path.join(dir, name), 'utf8') }));
+  });
@@ -0,0 +1,13 @@
+class Counter {
+  constructor(start = 0) {
+    this.value = start;
+  }
+
+  increment() {
+    this.value++;
+    return this;
+  }
+}
+
+const counter = new Counter();
+console.log(counter.increment().value);
@@ -0,0 +1,10 @@
+document.querySelectorAll('button.toggle').forEach(function (button) {
+  button.addEventListener('click', function () {
+    var target = document.getElementById(button.dataset.target);
+    if (target && target.hidden === true) {
+      target.hidden = false;
+    } else if (target) {
+      target.hidden = true;
+    }
+  });
+});
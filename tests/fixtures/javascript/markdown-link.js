@@ -0,0 +1,8 @@
+// Renders a link, see [the docs](https://example.com/docs) for the format
+const toLink = (label, url) => `[${label}](${url})`;
+
+function render(items) {
+  return items.map((item) => toLink(item.title, item.href)).join('\n');
+}
+
+module.exports = { render };
@@ -0,0 +1,8 @@
+import { readFile as read } from 'fs/promises';
+import path from 'path';
+
+export async function loadConfig(dir) {
+  const file = path.join(dir, 'config.json');
+  const text = await read(file, 'utf8');
+  return JSON.parse(text);
+}
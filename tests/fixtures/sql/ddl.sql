@@ -0,0 +1,7 @@
+CREATE TABLE accounts (
+  id INTEGER PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO accounts (id, email) VALUES (1, 'a@example.com');
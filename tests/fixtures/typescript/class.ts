@@ -0,0 +1,16 @@
+enum Level {
+  Debug,
+  Info,
+}
+
+export class Logger {
+  private readonly prefix: string;
+
+  constructor(prefix: string, public level: Level = Level.Info) {
+    this.prefix = prefix;
+  }
+
+  log(message: string): void {
+    if (this.level <= Level.Info) console.log(`${this.prefix} ${message}`);
+  }
+}
@@ -0,0 +1,6 @@
+export function first<T>(items: T[]): T | undefined {
+  return items[0];
+}
+
+const names = first<string>(['a', 'b']);
+const value = JSON.parse('{}') as Record<string, unknown>;
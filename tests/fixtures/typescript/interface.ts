@@ -0,0 +1,7 @@
+interface User {
+  id: number;
+  name: string;
+  email?: string;
+}
+
+export const greet = (user: User): string => `Hello, ${user.name}`;
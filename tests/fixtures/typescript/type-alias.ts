@@ -0,0 +1,4 @@
+type Shape = { kind: 'circle'; radius: number } | { kind: 'square'; size: number };
+
+export const area = (shape: Shape) =>
+  shape.kind === 'circle' ? Math.PI * shape.radius ** 2 : shape.size ** 2;
@@ -0,0 +1,101 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { buildFileTree, compareFileSets, countByStatus, FileSet, readFileSet, stripCommonRoot } from '../utils/folderDiff';
+import { readZip } from '../utils/zipReader';
+
+const encoder = new TextEncoder();
+
+// Writes a zip archive by hand: deflated entries, folders as "name/" entries, CRCs left at 0 (not checked)
+const makeZip = (entries: Record<string, string>): Uint8Array => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [path, content] of Object.entries(entries)) {
+    const name = encoder.encode(path);
+    const data = path.endsWith('/') ? new Uint8Array() : new Uint8Array(deflateRawSync(encoder.encode(content)));
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, 8, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, 8, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+  return new Uint8Array(Buffer.concat([...locals, ...centrals, end]));
+};
+
+const fileSet = (label: string, files: Record<string, string | Uint8Array>): FileSet => ({
+  label,
+  files: new Map(Object.entries(files).map(([path, content]) => [path, typeof content === 'string' ? encoder.encode(content) : content])),
+});
+
+describe('zip reader', () => {
+  it('inflates every file and skips folder entries', async () => {
+    const files = await readZip(makeZip({ 'app/': '', 'app/index.js': 'console.log(1);\n', 'app/data.json': '{"a": 1}' }));
+    expect([...files.keys()]).toEqual(['app/index.js', 'app/data.json']);
+    expect(new TextDecoder().decode(files.get('app/data.json'))).toBe('{"a": 1}');
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(readZip(encoder.encode('just some text, long enough to hold a record'))).rejects.toThrow(/Not a zip/);
+  });
+});
+
+describe('folder comparison', () => {
+  it('pairs up archives holding differently named root folders', async () => {
+    const pick = (name: string, entries: Record<string, string>) =>
+      readFileSet([{ path: name, file: new File([makeZip(entries)], name) }]);
+    const original = await pick('release-1.0.zip', { 'release-1.0/a.txt': 'a', 'release-1.0/__MACOSX/._a.txt': 'x' });
+    const modified = await pick('release-1.1.zip', { 'release-1.1/a.txt': 'a' });
+    expect([...original.files.keys()]).toEqual(['a.txt']);
+    expect(compareFileSets(original, modified)).toMatchObject([{ path: 'a.txt', status: 'identical' }]);
+  });
+
+  it('keeps paths when there is no common root', () => {
+    const files = fileSet('x', { 'a/x.txt': '1', 'b/y.txt': '2' }).files;
+    expect(stripCommonRoot(files)).toBe(files);
+  });
+
+  it('marks files as added, removed, modified or identical', () => {
+    const original = fileSet('old', { 'same.txt': 'same', 'src/changed.js': 'let a = 1;', 'src/gone.css': 'a{}', 'logo.png': new Uint8Array([137, 80, 0, 1]) });
+    const modified = fileSet('new', { 'same.txt': 'same', 'src/changed.js': 'let a = 2;', 'src/new/added.ts': 'export {}', 'logo.png': new Uint8Array([137, 80, 0, 2]) });
+    const comparisons = compareFileSets(original, modified);
+
+    expect(comparisons.map(({ path, status }) => `${status} ${path}`)).toEqual([
+      'modified logo.png',
+      'identical same.txt',
+      'modified src/changed.js',
+      'removed src/gone.css',
+      'added src/new/added.ts',
+    ]);
+    expect(comparisons[0].binary).toBe(true);
+    expect(countByStatus(comparisons)).toEqual({ added: 1, removed: 1, modified: 2, identical: 1 });
+
+    const tree = buildFileTree(comparisons);
+    expect(tree.map(({ name, status }) => `${name}:${status}`)).toEqual(['src:modified', 'logo.png:modified', 'same.txt:identical']);
+    const src = tree[0].children!;
+    expect(src.map(({ name, status }) => `${name}:${status}`)).toEqual(['new:added', 'changed.js:modified', 'gone.css:removed']);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { acceptHunk, countDifferingLines, formatHunks, MAX_FORMAT_CHECK_LINES } from '../utils/formatCheck';
+
+const INPUT = 'const a=1\nconst b = 2;\n\n\nfunction f(){return a}\n';
+const FORMATTED = 'const a = 1;\nconst b = 2;\n\nfunction f() {\n  return a;\n}\n';
+
+describe('format check', () => {
+  it('finds no hunks in formatted code', () => {
+    expect(formatHunks(FORMATTED, FORMATTED)).toEqual([]);
+  });
+
+  it('groups consecutive changed lines into hunks', () => {
+    const hunks = formatHunks(INPUT, FORMATTED);
+    expect(hunks).toEqual([
+      { start: 0, removed: ['const a=1\n'], added: ['const a = 1;\n'] },
+      { start: 3, removed: ['\n', 'function f(){return a}\n'], added: ['function f() {\n', '  return a;\n', '}\n'] },
+    ]);
+    expect(countDifferingLines(hunks)).toBe(4);
+  });
+
+  it('accepts hunks one at a time until the input is formatted', () => {
+    let input = INPUT;
+    input = acceptHunk(input, formatHunks(input, FORMATTED)[1]);
+    expect(input).toBe('const a=1\nconst b = 2;\n\nfunction f() {\n  return a;\n}\n');
+    expect(formatHunks(input, FORMATTED)).toHaveLength(1);
+    input = acceptHunk(input, formatHunks(input, FORMATTED)[0]);
+    expect(input).toBe(FORMATTED);
+  });
+
+  it('handles a missing final newline as a line change', () => {
+    const hunks = formatHunks('[1]', '[1]\n');
+    expect(hunks).toEqual([{ start: 0, removed: ['[1]'], added: ['[1]\n'] }]);
+    expect(acceptHunk('[1]', hunks[0])).toBe('[1]\n');
+  });
+
+  it('shows the changed middle of very large documents as one hunk', () => {
+    const items = Array.from({ length: MAX_FORMAT_CHECK_LINES }, (_, i) => i);
+    const input = `// data\n${JSON.stringify(items)}\n`;
+    const formatted = `// data\n${JSON.stringify(items, null, 2)}\n`;
+    const hunks = formatHunks(input, formatted);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0].start).toBe(1);
+    expect(hunks[0].removed).toEqual([`${JSON.stringify(items)}\n`]);
+    expect(hunks[0].added).toHaveLength(MAX_FORMAT_CHECK_LINES + 2);
+    expect(acceptHunk(input, hunks[0])).toBe(formatted);
+    expect(formatHunks(formatted, formatted)).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import * as parserBabel from 'prettier/plugins/babel';
+import * as parserHtml from 'prettier/plugins/html';
+import * as parserPostcss from 'prettier/plugins/postcss';
+import { Language } from '../types';
+import { formatCode, minifyCode } from '../utils/formatter';
+import { detectLanguage } from '../utils/languageDetector';
+import { parseJsonDialect } from '../utils/jsonDialects';
+import { Fixture, loadFixtures } from './fixtures';
+
+const fixtures = loadFixtures();
+const cases = (list: Fixture[]) => list.map((fixture) => [`${fixture.language}/${fixture.name}`, fixture] as const);
+
+// Keys that only record positions, comments and layout; the trees keep the structure and the values
+const JS_LAYOUT_KEYS = new Set([
+  'loc', 'range', 'start', 'end', 'extra', 'comments', 'leadingComments', 'trailingComments', 'innerComments', 'tokens',
+]);
+const CSS_LAYOUT_KEYS = new Set(['source', 'inputs', 'raws', 'sourceIndex', 'spaces', 'before', 'after', 'text']);
+
+const jsTree = (program: unknown): unknown =>
+  JSON.parse(JSON.stringify(program, (key, value) => (JS_LAYOUT_KEYS.has(key) ? undefined : value)));
+
+// Comments are dropped by minification; media query containers repeat the source text of their parts
+const cssTree = (root: unknown): unknown =>
+  JSON.parse(
+    JSON.stringify(root, function (this: any, key, value) {
+      if (CSS_LAYOUT_KEYS.has(key)) return undefined;
+      if (key === 'nodes' && Array.isArray(value)) return value.filter((node) => node?.type !== 'css-comment');
+      if (key === 'value' && Array.isArray(this.nodes) && String(this.type).startsWith('media-')) return undefined;
+      return value;
+    })
+  );
+
+// Whitespace inside these elements is content; everywhere else a run of it renders as one space
+const HTML_PREFORMATTED = new Set(['pre', 'textarea', 'script', 'style']);
+
+type HtmlNode = { kind: string; name?: string; value?: string; attrs?: { name: string; value: string }[]; children?: HtmlNode[] };
+
+const htmlTree = (node: HtmlNode, preformatted = false): unknown => {
+  const inside = preformatted || HTML_PREFORMATTED.has(node.name ?? '');
+  return {
+    kind: node.kind,
+    name: node.name,
+    value: node.value,
+    attrs: node.attrs?.map(({ name, value }) => [name, value]),
+    children: node.children
+      ?.map((child) =>
+        child.kind === 'text' && !inside ? { ...child, value: child.value!.replace(/\s+/g, ' ').trim() } : child
+      )
+      .filter((child) => !(child.kind === 'text' && child.value === ''))
+      .map((child) => htmlTree(child, inside)),
+  };
+};
+
+// The syntax tree of a document, reduced to what minifying and beautifying must not change
+const syntaxTree = async (code: string, language: Language): Promise<unknown> => {
+  switch (language) {
+    case Language.JSON:
+      return JSON.parse(code);
+    case Language.JSONC:
+    case Language.JSON5:
+      return parseJsonDialect(code, language);
+    case Language.JAVASCRIPT:
+      return jsTree(await parserBabel.parsers.babel.parse(code, {} as any));
+    case Language.CSS:
+      return cssTree(await parserPostcss.parsers.css.parse(code, {} as any));
+    case Language.HTML:
+      return htmlTree(await parserHtml.parsers.html.parse(code, {} as any));
+    default:
+      throw new Error(`No syntax tree comparison for ${language}`);
+  }
+};
+
+describe('formatCode fixture corpus', () => {
+  it.each(cases(fixtures))('%s is idempotent', async (_, { content, language }) => {
+    const once = await formatCode(content, language);
+    expect(await formatCode(once, language)).toBe(once);
+  });
+
+  it.each(cases(fixtures))('%s is still detected once formatted', async (_, { content, language }) => {
+    expect(detectLanguage(await formatCode(content, language))).toBe(language);
+  });
+});
+
+describe('minify then beautify', () => {
+  const roundTripped = fixtures.filter(({ language }) =>
+    [Language.JSON, Language.JSONC, Language.JSON5, Language.JAVASCRIPT, Language.CSS, Language.HTML].includes(language)
+  );
+
+  it.each(cases(roundTripped))('%s keeps its syntax tree', async (_, { content, language }) => {
+    const minified = await minifyCode(content, language);
+    const beautified = await formatCode(minified, language);
+    const original = await syntaxTree(content, language);
+    expect(await syntaxTree(minified, language)).toEqual(original);
+    expect(await syntaxTree(beautified, language)).toEqual(original);
+  });
+});
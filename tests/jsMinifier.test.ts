@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { minifyJavaScript } from '../utils/jsMinifier';
+
+const minify = (code: string, options = {}, language = Language.JAVASCRIPT) => minifyJavaScript(code, language, options);
+
+describe('JavaScript minifier', () => {
+  it('keeps template literals with empty and adjacent substitutions', async () => {
+    expect(await minify('const t = `${x}px`;')).toBe('const t=`${x}px`;');
+    expect(await minify('const t = `${a}${b}`;\nconst u = ``;')).toBe('const t=`${a}${b}`;const u=``;');
+    expect(await minify('const t = `  a  ${ b }  c  `;')).toBe('const t=`  a  ${b}  c  `;');
+  });
+
+  it('keeps strings and drops comments', async () => {
+    expect(await minify('// comment\nconst s = "keep  // this";\n/* block */ const t = \'a  b\';'))
+      .toBe('const s="keep  // this";const t=\'a  b\';');
+  });
+
+  it('tells regex literals from division', async () => {
+    expect(await minify('const r = /a b\\/c/g.test(s);\nconst d = a / b / c;')).toBe('const r=/a b\\/c/g.test(s);const d=a/b/c;');
+  });
+
+  it('inserts the semicolons automatic insertion would have added', async () => {
+    expect(await minify('const x = a\n++b')).toBe('const x=a;++b');
+    expect(await minify('function f() {\n  return\n  1\n}')).toBe('function f(){return;1}');
+    // Without a semicolon these lines are already one statement: b(c || d), f[1, 2]
+    expect(await minify('let a = b\n(c || d).run()\nlet e = f\n[1, 2].forEach(g)')).toBe('let a=b(c||d).run();let e=f[1,2].forEach(g)');
+  });
+
+  it('keeps the space between unary and binary operators', async () => {
+    expect(await minify('const a = b - -c;\nconst d = e + +f;\nconst g = h + ++i;')).toBe('const a=b- -c;const d=e+ +f;const g=h+ ++i;');
+  });
+
+  it('folds constant expressions only when shorter', async () => {
+    expect(await minify('const a = 1 + 2 * 3;\nconst s = "a" + "b" + 1;\nconst c = 2 < "10";', { foldConstants: true }))
+      .toBe('const a=7;const s="ab1";const c=true;');
+    expect(await minify('const n = !0;\nconst big = 2 ** 40;\nconst inf = 1 / 0;', { foldConstants: true }))
+      .toBe('const n=!0;const big=2**40;const inf=1/0;');
+  });
+
+  it('mangles local names but not globals', async () => {
+    expect(await minify('function add(first, second) {\n  const total = first + second;\n  return total;\n}\nconsole.log(add(1, 2));', { mangle: true }))
+      .toBe('function add(a,b){const c=a+b;return c;}console.log(add(1,2));');
+  });
+
+  it('strips TypeScript types', async () => {
+    expect(await minify('const x: number = 1;\ninterface A { b: string }\nexport const y = x as number;', { stripTypes: true }, Language.TYPESCRIPT))
+      .toBe('const x=1;export const y=x;');
+    await expect(minify('const x = 1;', { mangle: true }, Language.TYPESCRIPT)).rejects.toThrow('Mangling TypeScript requires stripping types first');
+  });
+});
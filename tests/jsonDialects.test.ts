@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { minifyJsonDialect, parseJsonDialect } from '../utils/jsonDialects';
+import { formatCode } from '../utils/formatter';
+import { validateCode } from '../utils/validator';
+import { languageFromPath } from '../utils/languageDetector';
+import { convertData } from '../utils/converter';
+
+const JSONC = `{
+  // Editor settings
+  "editor.tabSize": 2, /* spaces */
+  "files.exclude": ["dist", "node_modules",],
+}`;
+
+const JSON5 = `{
+  name: 'demo',
+  version: 0x10,
+  limits: [Infinity, -Infinity, +1, .5,],
+  quote: "it's",
+  long: 'one \\
+two',
+}`;
+
+describe('JSON dialects', () => {
+  it('reads comments and trailing commas in JSONC', () => {
+    expect(parseJsonDialect(JSONC, Language.JSONC)).toEqual({
+      'editor.tabSize': 2,
+      'files.exclude': ['dist', 'node_modules'],
+    });
+  });
+
+  it('reads the JSON5 additions', () => {
+    expect(parseJsonDialect(JSON5, Language.JSON5)).toEqual({
+      name: 'demo',
+      version: 16,
+      limits: [Infinity, -Infinity, 1, 0.5],
+      quote: "it's",
+      long: 'one two',
+    });
+  });
+
+  it('rejects JSON5 syntax in JSONC with its location', () => {
+    expect(() => parseJsonDialect("{ a: 1 }", Language.JSONC)).toThrow('Property names must be double-quoted (1:3)');
+    expect(() => parseJsonDialect('{\n  "a": \'x\'\n}', Language.JSONC)).toThrow('Strings must use double quotes (2:8)');
+  });
+
+  it('reports errors as diagnostics', async () => {
+    const diagnostics = await validateCode('{\n  "a": 1\n  "b": 2\n}', Language.JSONC);
+    expect(diagnostics).toMatchObject([{ severity: 'error', line: 3, column: 3 }]);
+  });
+
+  it('keeps comments when formatting', async () => {
+    const formatted = await formatCode(JSONC, Language.JSONC);
+    expect(formatted).toContain('// Editor settings');
+    expect(formatted).toContain('/* spaces */');
+  });
+
+  it('does not rewrite JSON5 syntax found in a JSONC document', async () => {
+    await expect(formatCode("{ a: 'x' }", Language.JSONC)).rejects.toThrow();
+  });
+
+  it('minifies without comments but with trailing commas', () => {
+    expect(minifyJsonDialect(JSONC, Language.JSONC)).toBe('{"editor.tabSize":2,"files.exclude":["dist","node_modules",],}');
+  });
+
+  it('converts to strict JSON with a warning', () => {
+    const result = convertData(JSON5, 'json', 'json');
+    expect(JSON.parse(result.output)).toMatchObject({ name: 'demo', version: 16 });
+    expect(result.warnings).toContain('Comments, trailing commas and other JSON5 syntax were dropped');
+  });
+
+  it('opens well-known config files as JSONC', () => {
+    expect(languageFromPath('tsconfig.json')).toBe(Language.JSONC);
+    expect(languageFromPath('.vscode/settings.json')).toBe(Language.JSONC);
+    expect(languageFromPath('package.json')).toBe(Language.JSON);
+    expect(languageFromPath('config.json5')).toBe(Language.JSON5);
+  });
+});
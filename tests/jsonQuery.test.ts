@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { detectQueryLanguage, queryJq, queryJsonPath, runQuery } from '../utils/jsonQuery';
+
+const STORE = {
+  store: {
+    book: [
+      { title: 'A', price: 8, tags: ['x'] },
+      { title: 'B', price: 12, isbn: '1' },
+      { title: 'C', price: 22, isbn: '2' },
+    ],
+    bicycle: { color: 'red', price: 19 },
+  },
+  n: [1, 2, 3, 4, 5],
+};
+
+describe('JSONPath', () => {
+  it.each([
+    ['$.store.book[*].title', ['A', 'B', 'C']],
+    ["$['store']['bicycle'].color", ['red']],
+    ['$.store.book[0, 2].title', ['A', 'C']],
+    ['$..price', [8, 12, 22, 19]],
+    ['$.missing', []],
+  ])('selects paths: %s', (query, expected) => {
+    expect(queryJsonPath(STORE, query)).toEqual(expected);
+  });
+
+  it.each([
+    ['$.n[1:3]', [2, 3]],
+    ['$.n[-2:]', [4, 5]],
+    ['$.n[::-2]', [5, 3, 1]],
+  ])('slices arrays: %s', (query, expected) => {
+    expect(queryJsonPath(STORE, query)).toEqual(expected);
+  });
+
+  it.each([
+    ['$.store.book[?(@.price < 10)].title', ['A']],
+    ['$.store.book[?(@.isbn)].title', ['B', 'C']],
+    ['$.store.book[?(@.price > 10 && !@.tags)].title', ['B', 'C']],
+    ['$.store.book[?(@.title =~ /^[AB]$/)].price', [8, 12]],
+  ])('filters: %s', (query, expected) => {
+    expect(queryJsonPath(STORE, query)).toEqual(expected);
+  });
+});
+
+describe('jq', () => {
+  it.each([
+    ['.store.bicycle.color', ['red']],
+    ['.n[-1]', [5]],
+    ['.n[1:3]', [[2, 3]]],
+    ['.x?', [null]],
+    ['.store.book | length', [3]],
+    ['.store.bicycle | keys', [['color', 'price']]],
+  ])('selects paths: %s', (query, expected) => {
+    expect(queryJq(STORE, query)).toEqual(expected);
+  });
+
+  it.each([
+    ['.store.book[] | select(.price > 10) | .title', ['B', 'C']],
+    ['.n | map(. * 2)', [[2, 4, 6, 8, 10]]],
+    ['[.store.book[].price] | add', [42]],
+    ['.store.book | map({title, cheap: (.price < 10)})', [[
+      { title: 'A', cheap: true },
+      { title: 'B', cheap: false },
+      { title: 'C', cheap: false },
+    ]]],
+    ['[.store.book[] | .isbn // "none"]', [['none', '1', '2']]],
+    ['.n | sort_by(-.) | first', [5]],
+  ])('pipes and built-ins: %s', (query, expected) => {
+    expect(queryJq(STORE, query)).toEqual(expected);
+  });
+
+  it.each([
+    ['"\\(.store.bicycle.color) bike costs \\(.store.bicycle.price)"', ['red bike costs 19']],
+    ['"tags: \\(.store.book[0].tags)"', ['tags: ["x"]']],
+    ['"\\(.n[0,1])-\\(.n[2,3])"', ['1-3', '2-3', '1-4', '2-4']],
+    ['"a \\("nested \\(.n[0])") b"', ['a nested 1 b']],
+    ['"literal \\\\(not interpolated)"', ['literal \\(not interpolated)']],
+  ])('interpolates strings: %s', (query, expected) => {
+    expect(queryJq(STORE, query)).toEqual(expected);
+  });
+
+  it.each([
+    ['.n | .foo', 'Cannot index array ([1,2,3,4,5]) with "foo"'],
+    ['.n |', 'Expected a filter at position 5, found end of query'],
+    ['if . then 1 else 2 end', 'Unexpected token at position 11, found "1"'],
+    ['"\\(.n', 'Unterminated string interpolation at position 2'],
+    ['"\\()"', 'Expected a filter at position 4, found end of query'],
+    ['.n | frobnicate', 'Unknown function frobnicate/0'],
+  ])('reports errors: %s', (query, message) => {
+    expect(() => queryJq(STORE, query)).toThrow(message);
+  });
+});
+
+describe('runQuery', () => {
+  it('tells JSONPath from jq by the leading "$"', () => {
+    expect(detectQueryLanguage(' $.a')).toBe('jsonpath');
+    expect(detectQueryLanguage('.a')).toBe('jq');
+    expect(runQuery(STORE, '$.n[0]')).toEqual({ language: 'jsonpath', results: [1] });
+    expect(runQuery(STORE, '.n[0]')).toEqual({ language: 'jq', results: [1] });
+  });
+});
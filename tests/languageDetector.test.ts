@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { detectLanguage, detectLanguageCandidates, LOW_CONFIDENCE } from '../utils/languageDetector';
+import { loadFixtures } from './fixtures';
+
+const fixtures = loadFixtures();
+
+describe('detectLanguage fixture corpus', () => {
+  it('has fixtures for every language', () => {
+    const covered = new Set(fixtures.map((fixture) => fixture.language));
+    expect([...covered].sort()).toEqual(Object.values(Language).sort());
+  });
+
+  it.each(fixtures.map((fixture) => [`${fixture.language}/${fixture.name}`, fixture] as const))('%s', (_, fixture) => {
+    expect(detectLanguage(fixture.content)).toBe(fixture.language);
+  });
+});
+
+describe('detectLanguageCandidates', () => {
+  it('ranks candidates by confidence, summing to one', () => {
+    const { candidates } = detectLanguageCandidates('<note><to>Tove</to></note>');
+    const total = candidates.reduce((sum, candidate) => sum + candidate.confidence, 0);
+    expect(total).toBeCloseTo(1);
+    expect(candidates.map((candidate) => candidate.confidence)).toEqual(
+      [...candidates.map((candidate) => candidate.confidence)].sort((a, b) => b - a)
+    );
+  });
+
+  it('confirms the winner with a real parser', () => {
+    const result = detectLanguageCandidates('{"a": [1, 2]}');
+    expect(result.candidates[0]).toMatchObject({ language: Language.JSON, parsed: true });
+  });
+
+  it('does not call JavaScript with a Markdown link Markdown', () => {
+    const code = "const link = '[docs](https://example.com)';\nexport default link;";
+    expect(detectLanguage(code)).toBe(Language.JAVASCRIPT);
+  });
+
+  it('does not call JavaScript using "as" in imports TypeScript', () => {
+    const code = "import { a as b } from './a';\nexport const c = b * 2;";
+    expect(detectLanguage(code)).toBe(Language.JAVASCRIPT);
+  });
+
+  it('is sure of unambiguous documents', () => {
+    expect(detectLanguageCandidates('SELECT id FROM users WHERE id = 1;').confidence).toBeGreaterThanOrEqual(LOW_CONFIDENCE);
+  });
+
+  it('reports low confidence for ambiguous snippets, with the alternatives', () => {
+    const result = detectLanguageCandidates('<item><b>bold</b></item>');
+    expect(result.confidence).toBeLessThan(LOW_CONFIDENCE);
+    expect(result.candidates.map((candidate) => candidate.language).sort()).toEqual([Language.HTML, Language.XML]);
+  });
+
+  it('returns no candidates for empty input', () => {
+    expect(detectLanguageCandidates('   ').candidates).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { decodeShareFragment, encodeShareFragment, isEncryptedShareFragment, isShareFragment, SharedState } from '../utils/share';
+
+const state: SharedState = {
+  viewMode: 'diff',
+  language: Language.JAVASCRIPT,
+  input: 'const a = 1;\n',
+  output: 'const a = 2; // ünïcödé ✓\n',
+  merge: { base: '', ours: '', theirs: '' },
+};
+
+describe('share links', () => {
+  it('round-trips a state through a compressed fragment', async () => {
+    const fragment = await encodeShareFragment(state);
+    expect(isShareFragment(fragment)).toBe(true);
+    expect(isEncryptedShareFragment(fragment)).toBe(false);
+    expect(fragment).toMatch(/^#share=z\.[\w-]+$/);
+    await expect(decodeShareFragment(fragment)).resolves.toEqual(state);
+  });
+
+  it('compresses repetitive content', async () => {
+    const input = '{"key": "value"}\n'.repeat(1000);
+    const fragment = await encodeShareFragment({ ...state, input });
+    expect(fragment.length).toBeLessThan(input.length / 10);
+  });
+
+  it('encrypts with a passphrase and needs it to decode', async () => {
+    const fragment = await encodeShareFragment(state, 'correct horse');
+    expect(isEncryptedShareFragment(fragment)).toBe(true);
+    await expect(decodeShareFragment(fragment, 'correct horse')).resolves.toEqual(state);
+    await expect(decodeShareFragment(fragment)).rejects.toThrow(/passphrase/);
+    await expect(decodeShareFragment(fragment, 'wrong')).rejects.toThrow(/Wrong passphrase/);
+  });
+
+  it('rejects truncated links and unexpected payloads', async () => {
+    const fragment = await encodeShareFragment(state);
+    await expect(decodeShareFragment(fragment.slice(0, fragment.length - 8))).rejects.toThrow(/damaged/);
+    await expect(decodeShareFragment('#share=x.abc')).rejects.toThrow(/unsupported version/);
+
+    const forged = await encodeShareFragment({ ...state, language: 'cobol' as Language });
+    await expect(decodeShareFragment(forged)).rejects.toThrow(/not valid/);
+  });
+});
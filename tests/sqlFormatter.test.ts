@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { SqlDialect } from '../types';
+import { formatSql, minifySql, tokenizeSql } from '../utils/sqlFormatter';
+
+const tokens = (code: string, dialect: SqlDialect) =>
+  tokenizeSql(code, dialect)
+    .filter(token => token.type !== 'whitespace')
+    .map(({ type, value }) => [type, value]);
+
+describe('tokenizeSql', () => {
+  it('reads PostgreSQL identifiers, escape strings and dollar-quoted strings', () => {
+    expect(tokens(`"a" E'a\\'b' 'c' $q$ it's $$ $q$ x`, 'postgresql')).toEqual([
+      ['quoted-identifier', '"a"'],
+      ['string', "E'a\\'b'"],
+      ['string', "'c'"],
+      ['string', "$q$ it's $$ $q$"],
+      ['word', 'x'],
+    ]);
+  });
+
+  it('reads MySQL backticks, double-quoted strings, backslash escapes and # comments', () => {
+    expect(tokens(`"a" 'b\\'' \`c\` # d`, 'mysql')).toEqual([
+      ['string', '"a"'],
+      ['string', "'b\\''"],
+      ['quoted-identifier', '`c`'],
+      ['line-comment', '# d'],
+    ]);
+  });
+
+  it('reads SQLite bracket, backtick and double-quoted identifiers', () => {
+    expect(tokens('[a] `b` "c"', 'sqlite')).toEqual([
+      ['quoted-identifier', '[a]'],
+      ['quoted-identifier', '`b`'],
+      ['quoted-identifier', '"c"'],
+    ]);
+  });
+
+  it('reads T-SQL bracket identifiers with escaped brackets and #temp tables', () => {
+    expect(tokens('[a]]b] "c" #t', 'tsql')).toEqual([
+      ['quoted-identifier', '[a]]b]'],
+      ['quoted-identifier', '"c"'],
+      ['word', '#t'],
+    ]);
+  });
+});
+
+describe('formatSql', () => {
+  it('puts clauses on their own lines and indents their contents', () => {
+    expect(formatSql("select a, b from t where x = 1 and y = 'a  b' order by a")).toBe(
+      "SELECT\n  a,\n  b\nFROM\n  t\nWHERE\n  x = 1\n  AND y = 'a  b'\nORDER BY\n  a",
+    );
+  });
+
+  it('honours the keyword case and leaves quoted identifiers alone', () => {
+    expect(formatSql('SELECT "Col" FROM t', { keywordCase: 'lower' })).toBe('select\n  "Col"\nfrom\n  t');
+    expect(formatSql('select [a b], `c` from t', { dialect: 'sqlite' })).toBe('SELECT\n  [a b],\n  `c`\nFROM\n  t');
+  });
+});
+
+describe('minifySql', () => {
+  it('drops comments but keeps string contents that look like comments', () => {
+    expect(minifySql("SELECT a,  'x  -- not a comment' AS s -- real comment\nFROM t /* block */ WHERE b = 'it''s'")).toBe(
+      "SELECT a,'x  -- not a comment' AS s FROM t WHERE b='it''s'",
+    );
+  });
+
+  it('keeps a space between operators that would otherwise form a comment', () => {
+    expect(minifySql('SELECT 1 - -1, a--b\n FROM t')).toBe('SELECT 1- -1,a FROM t');
+  });
+
+  it('keeps MySQL executable comments and drops # comments', () => {
+    expect(minifySql('SELECT /*!40001 SQL_NO_CACHE */ * FROM `my table` # c\nWHERE x = "a  b"', { dialect: 'mysql' })).toBe(
+      'SELECT /*!40001 SQL_NO_CACHE */ *FROM `my table` WHERE x="a  b"',
+    );
+  });
+
+  it('keeps dollar-quoted bodies verbatim', () => {
+    expect(minifySql('CREATE FUNCTION f() RETURNS int AS $body$\n  SELECT  1; -- keep\n$body$ LANGUAGE sql;')).toBe(
+      'CREATE FUNCTION f()RETURNS int AS $body$\n  SELECT  1; -- keep\n$body$ LANGUAGE sql;',
+    );
+  });
+
+  it('keeps T-SQL batch separators on their own line', () => {
+    expect(minifySql('SELECT [my col] FROM #tmp\nGO\nSELECT 1', { dialect: 'tsql' })).toBe(
+      'SELECT [my col] FROM #tmp\nGO\nSELECT 1',
+    );
+  });
+});
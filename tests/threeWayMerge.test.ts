@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { mergeDocuments, mergeJson, mergeLines } from '../utils/threeWayMerge';
+
+describe('line merge', () => {
+  const base = 'a\nb\nc\nd\n';
+
+  it('takes changes made on one side only', () => {
+    const result = mergeLines(base, 'a\nB\nc\nd\n', 'a\nb\nc\nD\n');
+    expect(result.conflicts).toEqual([]);
+    expect(result.render([])).toBe('a\nB\nc\nD\n');
+  });
+
+  it('takes the same change made on both sides once', () => {
+    const result = mergeLines(base, 'a\nB\nc\nd\n', 'a\nB\nc\nd\n');
+    expect(result.conflicts).toEqual([]);
+    expect(result.render([])).toBe('a\nB\nc\nd\n');
+  });
+
+  it('reports lines changed differently on both sides', () => {
+    const result = mergeLines(base, 'a\nours\nc\nd\n', 'a\ntheirs\nc\nd\n');
+    expect(result.conflicts).toEqual([{ location: 'line 2', base: 'b\n', ours: 'ours\n', theirs: 'theirs\n', canKeepBoth: true }]);
+    expect(result.render([])).toBe('a\n<<<<<<< ours\nours\n||||||| base\nb\n=======\ntheirs\n>>>>>>> theirs\nc\nd\n');
+    expect(result.render(['ours'])).toBe('a\nours\nc\nd\n');
+    expect(result.render(['theirs'])).toBe('a\ntheirs\nc\nd\n');
+    expect(result.render(['both'])).toBe('a\nours\ntheirs\nc\nd\n');
+  });
+
+  it('reports insertions at the same place', () => {
+    const result = mergeLines('a\nb\n', 'a\nx\nb\n', 'a\ny\nb\n');
+    expect(result.conflicts.map(({ location }) => location)).toEqual(['after line 1']);
+  });
+});
+
+describe('JSON merge', () => {
+  const base = JSON.stringify({ name: 'app', version: 1, tags: ['a'] });
+
+  it('merges changes to different keys', () => {
+    const result = mergeJson(base, JSON.stringify({ name: 'app', version: 2, tags: ['a'] }), JSON.stringify({ name: 'app', version: 1, tags: ['a'], license: 'MIT' }));
+    expect(result.conflicts).toEqual([]);
+    expect(JSON.parse(result.render([]))).toEqual({ name: 'app', version: 2, tags: ['a'], license: 'MIT' });
+  });
+
+  it('drops keys deleted on one side and unchanged on the other', () => {
+    const result = mergeJson(base, JSON.stringify({ name: 'app', tags: ['a'] }), base);
+    expect(JSON.parse(result.render([]))).toEqual({ name: 'app', tags: ['a'] });
+  });
+
+  it('reports values changed differently on both sides', () => {
+    const result = mergeJson(base, JSON.stringify({ name: 'app', version: 2, tags: ['a', 'b'] }), JSON.stringify({ name: 'app', version: 3, tags: ['a', 'c'] }));
+    expect(result.conflicts.map(({ location, canKeepBoth }) => [location, canKeepBoth])).toEqual([['$.version', false], ['$.tags', true]]);
+    expect(JSON.parse(result.render(['ours', 'both']))).toEqual({ name: 'app', version: 2, tags: ['a', 'b', 'c'] });
+    expect(result.render([undefined, 'theirs'])).toBe(
+      '{\n  "name": "app",\n<<<<<<< ours\n  "version": 2,\n=======\n  "version": 3,\n>>>>>>> theirs\n  "tags": [\n    "a",\n    "c"\n  ]\n}\n'
+    );
+  });
+
+  it('keeps keys named like Object.prototype members', () => {
+    const result = mergeJson('{}', '{"a": 1}', '{"constructor": 1, "toString": "x", "__proto__": {"b": 2}}');
+    expect(result.conflicts).toEqual([]);
+    const merged = JSON.parse(result.render([]));
+    expect(Object.keys(merged)).toEqual(['a', 'constructor', 'toString', '__proto__']);
+    expect(merged.__proto__).toEqual({ b: 2 });
+  });
+
+  it('leaves strings that look like conflict placeholders alone', () => {
+    const result = mergeJson('{"v": 1}', '{"v": 2, "note": "__MERGE_CONFLICT_0__"}', '{"v": 3}');
+    expect(result.conflicts).toHaveLength(1);
+    expect(JSON.parse(result.render(['theirs']))).toEqual({ v: 3, note: '__MERGE_CONFLICT_0__' });
+    const text = result.render([]);
+    expect(text).toContain('"note": "__MERGE_CONFLICT_0__"');
+    expect(text).toContain('<<<<<<< ours\n  "v": 2,\n=======\n  "v": 3,\n>>>>>>> theirs');
+  });
+
+  it('merges line by line when a version is not valid JSON', () => {
+    const result = mergeDocuments('{"a": 1}', '{"a": 2}', '{"a": 1,}', true);
+    expect(result.mode).toBe('lines');
+    expect(result.notice).toMatch(/^Merged line by line: /);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { applyUnifiedDiff, createUnifiedDiff, diffLines, LineOp, parseUnifiedDiff, splitLines } from '../utils/unifiedDiff';
+
+// Length of the longest common subsequence, by dynamic programming, as a reference for minimality
+const lcsLength = (a: string[], b: string[]) => {
+  let row = new Array<number>(b.length + 1).fill(0);
+  a.forEach((line) => {
+    const next = [0];
+    b.forEach((other, j) => next.push(line === other ? row[j] + 1 : Math.max(row[j + 1], next[j])));
+    row = next;
+  });
+  return row[b.length];
+};
+
+const sides = (ops: LineOp[]) => ({
+  a: ops.filter((op) => op.type !== 'insert').map((op) => op.line),
+  b: ops.filter((op) => op.type !== 'delete').map((op) => op.line),
+});
+
+// Deterministic pseudo-random lines from a small alphabet, so that matches are frequent
+const randomLines = (seed: number, length: number) => {
+  let state = seed;
+  return Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return `${'abcd'[state % 4]}\n`;
+  });
+};
+
+describe('diffLines', () => {
+  it('returns only equal lines for identical texts', () => {
+    expect(diffLines(['a\n', 'b\n'], ['a\n', 'b\n'])).toEqual([{ type: 'equal', line: 'a\n' }, { type: 'equal', line: 'b\n' }]);
+    expect(diffLines([], [])).toEqual([]);
+  });
+
+  it('describes a change as deletions and insertions', () => {
+    expect(diffLines(['a\n', 'b\n', 'c\n'], ['a\n', 'x\n', 'c\n', 'd\n'])).toEqual([
+      { type: 'equal', line: 'a\n' },
+      { type: 'delete', line: 'b\n' },
+      { type: 'insert', line: 'x\n' },
+      { type: 'equal', line: 'c\n' },
+      { type: 'insert', line: 'd\n' },
+    ]);
+  });
+
+  it('finds a shortest edit script', () => {
+    for (let seed = 1; seed <= 60; seed++) {
+      const a = randomLines(seed, seed % 17);
+      const b = randomLines(seed * 7 + 3, (seed * 5) % 19);
+      const ops = diffLines(a, b);
+      expect(sides(ops)).toEqual({ a, b });
+      expect(ops.filter((op) => op.type === 'equal')).toHaveLength(lcsLength(a, b));
+    }
+  });
+
+  it('handles large, completely different texts', () => {
+    const a = Array.from({ length: 3000 }, (_, i) => `old ${i}\n`);
+    const b = Array.from({ length: 3000 }, (_, i) => `new ${i}\n`);
+    const ops = diffLines(a, b);
+    expect(ops.filter((op) => op.type === 'delete')).toHaveLength(3000);
+    expect(ops.filter((op) => op.type === 'insert')).toHaveLength(3000);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('is empty for identical texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('writes hunks with context and names', () => {
+    const original = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n';
+    const modified = original.replace('two', 'TWO').replace('nine', 'NINE');
+    expect(createUnifiedDiff(original, modified, { context: 1, originalName: 'a.txt', modifiedName: 'b.txt' })).toBe(
+      '--- a.txt\n+++ b.txt\n@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n@@ -8,3 +8,3 @@\n eight\n-nine\n+NINE\n ten\n'
+    );
+  });
+
+  it('marks a missing final newline', () => {
+    expect(createUnifiedDiff('a\n', 'a')).toBe('--- original\n+++ modified\n@@ -1 +1 @@\n-a\n+a\n\\ No newline at end of file\n');
+  });
+});
+
+describe('applyUnifiedDiff', () => {
+  const original = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n';
+  const modified = 'one\nTWO\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\neleven\n';
+
+  it('round-trips with createUnifiedDiff', () => {
+    const patch = createUnifiedDiff(original, modified);
+    expect(applyUnifiedDiff(original, patch)).toEqual({
+      content: modified,
+      hunks: parseUnifiedDiff(patch).map(({ header }) => ({ header, applied: true, offset: 0 })),
+    });
+    expect(applyUnifiedDiff('a\n', createUnifiedDiff('a\n', 'a')).content).toBe('a');
+  });
+
+  it('applies hunks that moved and reports the offset', () => {
+    const patch = createUnifiedDiff(original, modified, { context: 1 });
+    const result = applyUnifiedDiff(`zero\n${original}`, patch);
+    expect(result.content).toBe(`zero\n${modified}`);
+    expect(result.hunks.map(({ offset }) => offset)).toEqual([1, 1]);
+  });
+
+  it('skips hunks whose context does not match', () => {
+    const patch = createUnifiedDiff(original, modified, { context: 1 });
+    const result = applyUnifiedDiff(original.replace('three', '3'), patch);
+    expect(result.content).toBe('one\ntwo\n3\nfour\nfive\nsix\nseven\neight\nnine\nten\neleven\n');
+    expect(result.hunks.map(({ applied }) => applied)).toEqual([false, true]);
+  });
+
+  it('rejects text that is not a patch', () => {
+    expect(() => applyUnifiedDiff(original, 'hello')).toThrow('No hunks found');
+    expect(() => applyUnifiedDiff(original, '@@ -1,2 +1,2 @@\n one')).toThrow('patch ends before the hunk is complete');
+  });
+
+  it('splits lines keeping their terminators', () => {
+    expect(splitLines('a\n\nb')).toEqual(['a\n', '\n', 'b']);
+  });
+});
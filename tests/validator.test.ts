@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { validateCode } from '../utils/validator';
+
+describe('JSON validation', () => {
+  it('accepts valid JSON', async () => {
+    expect(await validateCode('{"a": [1, 2]}', Language.JSON)).toEqual([]);
+  });
+
+  it('places errors reported with a position', async () => {
+    expect(await validateCode('{\n  "a" 1\n}', Language.JSON)).toEqual([
+      { severity: 'error', message: "Expected ':' after property name", line: 2, column: 7 },
+    ]);
+  });
+
+  it('places unexpected tokens reported with a source excerpt only', async () => {
+    expect(await validateCode('{\n"a": x,\n"b": 1,\n"c": 2\n}', Language.JSON)).toEqual([
+      { severity: 'error', message: "Unexpected token 'x'", line: 2, column: 6 },
+    ]);
+  });
+
+  it('places comments and trailing commas', async () => {
+    expect(await validateCode('{\n  // note\n  "a": 1\n}', Language.JSON)).toMatchObject([{ line: 2, column: 3 }]);
+    expect(await validateCode('[\n  1,\n  2,\n]', Language.JSON)).toMatchObject([{ line: 3, column: 4 }]);
+  });
+});
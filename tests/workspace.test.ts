@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { createDocument, isBlankDocument, moveDocument, untitledName } from '../utils/workspace';
+
+const names = (docs: { name: string }[]) => docs.map((doc) => doc.name);
+
+describe('workspace documents', () => {
+  it('creates documents with unique ids and default settings', () => {
+    const a = createDocument({ name: 'a' });
+    const b = createDocument({ name: 'b', language: Language.SQL, input: 'SELECT 1' });
+    expect(a.id).not.toBe(b.id);
+    expect(a.viewMode).toBe('formatter');
+    expect(b.language).toBe(Language.SQL);
+    expect(b.styleOptions[Language.SQL].tabWidth).toBe(2);
+    expect(isBlankDocument(a)).toBe(true);
+    expect(isBlankDocument(b)).toBe(false);
+  });
+
+  it('numbers untitled tabs, reusing free numbers', () => {
+    expect(untitledName([])).toBe('Untitled 1');
+    const docs = [createDocument({ name: 'Untitled 1' }), createDocument({ name: 'Untitled 3' })];
+    expect(untitledName(docs)).toBe('Untitled 2');
+  });
+
+  it('moves a tab to the position of another', () => {
+    const docs = ['a', 'b', 'c', 'd'].map((name) => createDocument({ name }));
+    expect(names(moveDocument(docs, docs[0].id, docs[2].id))).toEqual(['b', 'c', 'a', 'd']);
+    expect(names(moveDocument(docs, docs[3].id, docs[1].id))).toEqual(['a', 'd', 'b', 'c']);
+    expect(moveDocument(docs, docs[1].id, 'missing')).toBe(docs);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { formatXml, minifyXml, parseXml } from '../utils/xmlFormatter';
+
+const DOCUMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- catalog -->
+<c:catalog xmlns:c="urn:catalog" z="1" a="2"><c:book id="b1"/>
+<note>Hello <b>world</b> &amp; more</note>
+   <raw><![CDATA[ <x> & y ]]></raw>
+   <pre xml:space="preserve">  keep   </pre></c:catalog>`;
+
+describe('formatXml', () => {
+  it('indents element content and keeps everything else as written', () => {
+    expect(formatXml(DOCUMENT)).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<!-- catalog -->
+<c:catalog xmlns:c="urn:catalog" z="1" a="2">
+  <c:book id="b1"/>
+  <note>Hello <b>world</b> &amp; more</note>
+  <raw><![CDATA[ <x> & y ]]></raw>
+  <pre xml:space="preserve">  keep   </pre>
+</c:catalog>
+`);
+  });
+
+  it('wraps attributes one per line on request', () => {
+    expect(formatXml('<a x="1" y="2"><b/></a>', { singleAttributePerLine: true, indent: '\t' })).toBe('<a\n\tx="1"\n\ty="2"\n>\n\t<b/>\n</a>\n');
+  });
+
+  it('is idempotent', () => {
+    const once = formatXml(DOCUMENT);
+    expect(formatXml(once)).toBe(once);
+  });
+});
+
+describe('minifyXml', () => {
+  it('drops comments and blank text between tags only', () => {
+    expect(minifyXml(DOCUMENT)).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><c:catalog xmlns:c="urn:catalog" z="1" a="2"><c:book id="b1"/>' +
+        '<note>Hello <b>world</b> &amp; more</note><raw><![CDATA[ <x> & y ]]></raw><pre xml:space="preserve">  keep   </pre></c:catalog>'
+    );
+  });
+});
+
+describe('parseXml', () => {
+  it.each([
+    ['<a><b></a>', 'Closing tag </a> does not match <b>', 1, 7],
+    ['<a>\n  x & y\n</a>', 'Unescaped "&"', 2, 5],
+    ['<a b="1" b="2"/>', 'Duplicate attribute "b"', 1, 10],
+    ['<a/><b/>', 'Only one root element is allowed', 1, 5],
+    ['<a>\n<b>\n</b>', 'Unclosed element <a>', 1, 1],
+    ['<a>&nbsp;</a>', 'Undefined entity "&nbsp;"', 1, 4],
+    ['<a>&#99999999;</a>', '"&#99999999;" does not refer to a character allowed in XML', 1, 4],
+    ['<a b="&#x0;"/>', '"&#x0;" does not refer to a character allowed in XML', 1, 7],
+  ])('rejects %j', (code, message, line, column) => {
+    expect(() => parseXml(code)).toThrow(message);
+    try {
+      parseXml(code);
+    } catch (e: any) {
+      expect(e.loc.start).toEqual({ line, column });
+    }
+  });
+
+  it('accepts entities declared in the DOCTYPE', () => {
+    expect(() => parseXml('<!DOCTYPE a [<!ENTITY who "me">]><a>&who;</a>')).not.toThrow();
+  });
+});
@@ -1,14 +1,29 @@
 export enum Language {
   JSON = 'json',
+  JSONC = 'jsonc',
+  JSON5 = 'json5',
   JAVASCRIPT = 'javascript',
   TYPESCRIPT = 'typescript',
   HTML = 'html',
   CSS = 'css',
   XML = 'xml',
   SQL = 'sql',
+  YAML = 'yaml',
   MARKDOWN = 'markdown'
 }
 
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// Lines and columns are 1-based, as in Monaco
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
 export interface EditorProps {
   language: Language;
   value: string;
@@ -20,8 +35,83 @@ export interface EditorProps {
   onPaste?: () => void;
   onUpload?: (content: string, fileName: string) => void;
   onDownload?: () => void;
+  diagnostics?: Diagnostic[];
+  // Monaco language id overriding `language`, for content in another format (e.g. converted YAML)
+  highlightLanguage?: string;
+  // Shows a button switching the pane to a rendered preview
+  onShowPreview?: () => void;
 }
 
 export type FormatMode = 'beautify' | 'minify';
 
-export type ViewMode = 'formatter' | 'diff';
\ No newline at end of file
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite' | 'tsql';
+
+export type KeywordCase = 'upper' | 'lower' | 'preserve';
+
+export interface SqlFormatOptions {
+  dialect: SqlDialect;
+  keywordCase: KeywordCase;
+}
+
+export interface JsMinifyOptions {
+  stripTypes: boolean;
+  mangle: boolean;
+  foldConstants: boolean;
+}
+
+export type TrailingComma = 'none' | 'es5' | 'all';
+
+export type EndOfLine = 'lf' | 'crlf';
+
+// Layout settings for the beautifier, kept per language; they mirror Prettier's options
+export interface StyleOptions {
+  printWidth: number;
+  tabWidth: number;
+  useTabs: boolean;
+  semi: boolean;
+  singleQuote: boolean;
+  trailingComma: TrailingComma;
+  bracketSpacing: boolean;
+  singleAttributePerLine: boolean;
+  endOfLine: EndOfLine;
+}
+
+export interface FormatOptions {
+  sql?: Partial<SqlFormatOptions>;
+  js?: Partial<JsMinifyOptions>;
+  style?: Partial<StyleOptions>;
+}
+
+export type ViewMode = 'formatter' | 'diff' | 'merge';
+
+export type MergeSide = 'base' | 'ours' | 'theirs';
+
+export type MergeInputs = Record<MergeSide, string>;
+
+// One saved editor session, kept in IndexedDB
+export interface HistorySnapshot {
+  id: number;
+  createdAt: number;
+  updatedAt: number;
+  viewMode: ViewMode;
+  language: Language;
+  input: string;
+  output: string;
+  merge: MergeInputs;
+  // Pinned snapshots are never pruned nor overwritten
+  pinned: boolean;
+}
+
+// One tab of the workspace, with everything needed to bring its editors back
+export interface WorkspaceDocument {
+  id: string;
+  name: string;
+  viewMode: ViewMode;
+  language: Language;
+  input: string;
+  output: string;
+  merge: MergeInputs;
+  sqlOptions: SqlFormatOptions;
+  jsOptions: JsMinifyOptions;
+  styleOptions: Record<Language, StyleOptions>;
+}
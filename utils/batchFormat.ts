@@ -0,0 +1,64 @@
+import { FormatMode, FormatOptions, Language } from '../types';
+import { batchJobInWorker, isCancelled } from './formatClient';
+import { decodeText, isBinary } from './folderDiff';
+import { detectLanguage, languageFromPath } from './languageDetector';
+import { createZip } from './zipWriter';
+
+export interface BatchFile {
+  path: string;
+  bytes: Uint8Array;
+}
+
+export interface BatchResult {
+  path: string;
+  status: 'ok' | 'error' | 'skipped';
+  language?: Language;
+  // Whether the language came from the file name or had to be guessed from the content
+  detectedBy?: 'extension' | 'content';
+  output?: string;
+  message?: string;
+}
+
+// Beautifies or minifies each file in turn, reporting every result as soon as it is known.
+// Aborting stops before the next file; the files not reached are left out of the results.
+export const runBatch = async (
+  files: BatchFile[],
+  mode: FormatMode,
+  optionsFor: (language: Language) => FormatOptions,
+  onResult: (result: BatchResult) => void,
+  signal?: AbortSignal
+): Promise<BatchResult[]> => {
+  const results: BatchResult[] = [];
+  const report = (result: BatchResult) => {
+    results.push(result);
+    onResult(result);
+  };
+
+  for (const { path, bytes } of files) {
+    if (signal?.aborted) break;
+    if (isBinary(bytes)) {
+      report({ path, status: 'skipped', message: 'Binary file' });
+      continue;
+    }
+    const code = decodeText(bytes);
+    const byExtension = languageFromPath(path);
+    const language = byExtension ?? detectLanguage(code);
+    const detectedBy = byExtension ? 'extension' : 'content';
+    try {
+      const output = await batchJobInWorker(mode, code, language, optionsFor(language), signal);
+      report({ path, status: 'ok', language, detectedBy, output });
+    } catch (e: any) {
+      if (isCancelled(e)) break;
+      report({ path, status: 'error', language, detectedBy, message: e.message || String(e) });
+    }
+  }
+  return results;
+};
+
+// Every input file goes into the archive under its original path: the formatted text when it
+// succeeded, the untouched bytes otherwise
+export const batchToZip = (files: BatchFile[], results: BatchResult[]): Promise<Uint8Array> => {
+  const outputs = new Map(results.filter(({ status }) => status === 'ok').map(({ path, output }) => [path, output!]));
+  const encoder = new TextEncoder();
+  return createZip(files.map(({ path, bytes }) => ({ path, bytes: outputs.has(path) ? encoder.encode(outputs.get(path)) : bytes })));
+};
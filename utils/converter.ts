@@ -0,0 +1,512 @@
+import YAML, { CST, Lexer } from 'yaml';
+import { parse as parseToml, stringify as stringifyToml, TomlDate } from 'smol-toml';
+import { Language } from '../types';
+import { jsonTypeOf } from './jsonDiff';
+import { decodeXmlEntities, parseXml, XmlElement, XmlNode } from './xmlFormatter';
+import { parseJsonDialect } from './jsonDialects';
+
+export type DataFormat = 'json' | 'yaml' | 'xml' | 'csv' | 'toml';
+
+export const DATA_FORMATS: { value: DataFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'yaml', label: 'YAML' },
+  { value: 'xml', label: 'XML' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'toml', label: 'TOML' },
+];
+
+// Monaco language ids used to highlight converted output
+export const DATA_FORMAT_HIGHLIGHT: Record<DataFormat, string> = {
+  json: 'json',
+  yaml: 'yaml',
+  xml: 'xml',
+  csv: 'plaintext',
+  toml: 'ini',
+};
+
+export interface ConversionOptions {
+  // Prefix marking object keys that map to XML attributes, e.g. "@id"
+  xmlAttributePrefix: string;
+  // Key holding the text content of XML elements that also have attributes or children
+  xmlTextKey: string;
+  csvDelimiter: string;
+  // Joins the keys of flattened nested objects in CSV headers, e.g. "address.city"
+  csvFlattenSeparator: string;
+}
+
+export const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
+  xmlAttributePrefix: '@',
+  xmlTextKey: '#text',
+  csvDelimiter: ',',
+  csvFlattenSeparator: '.',
+};
+
+export interface ConversionResult {
+  output: string;
+  // Information lost or reinterpreted on the way, in the order it was noticed
+  warnings: string[];
+}
+
+type Warn = (message: string) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> => jsonTypeOf(value) === 'object';
+
+const hasOwn = (obj: object, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+// Defined rather than assigned, so that a "__proto__" element or column stays an ordinary key
+const setKey = (obj: Record<string, unknown>, key: string, value: unknown) =>
+  Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true });
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+// Best guess of the data format of a text, used when the source format is not given
+export const detectDataFormat = (text: string, language?: Language): DataFormat => {
+  if (language === Language.JSON || language === Language.JSONC || language === Language.JSON5) return 'json';
+  if (language === Language.XML) return 'xml';
+  if (language === Language.YAML) return 'yaml';
+  const trimmed = text.trim();
+  try {
+    JSON.parse(trimmed);
+    return 'json';
+  } catch {
+    // Not JSON, keep sniffing
+  }
+  if (trimmed.startsWith('<')) return 'xml';
+  if (/^\s*\[[\w.\s"'-]+\]\s*$/m.test(trimmed) || /^\s*[\w."'-]+\s*=\s*\S/m.test(trimmed)) return 'toml';
+  if (/^(---|%YAML)/.test(trimmed) || /^\s*[\w"'-]+\s*:(\s|$)/m.test(trimmed) || /^\s*-\s+\S/m.test(trimmed)) return 'yaml';
+  return 'csv';
+};
+
+// ---------------------------------------------------------------------------
+// YAML
+// ---------------------------------------------------------------------------
+
+const parseYamlData = (text: string, warn: Warn): unknown => {
+  const documents = YAML.parseAllDocuments(text);
+  if (!Array.isArray(documents)) return null;
+  for (const doc of documents) {
+    if (doc.errors.length) throw new Error(`YAML: ${doc.errors[0].message}`);
+  }
+
+  const tokenTypes = new Set([...new Lexer().lex(text)].map((token) => CST.tokenType(token)));
+  if (tokenTypes.has('comment')) warn('YAML comments were dropped');
+  if (tokenTypes.has('alias')) warn('YAML anchors and aliases were expanded into copies');
+  if (tokenTypes.has('tag')) warn('YAML tags were dropped; tagged values kept their plain form');
+
+  const values = documents.map((doc) => doc.toJS());
+  if (values.length > 1) {
+    warn(`${values.length} YAML documents were combined into one array`);
+    return values;
+  }
+  return values[0] ?? null;
+};
+
+const stringifyYamlData = (value: unknown): string => YAML.stringify(value, { lineWidth: 0 });
+
+// ---------------------------------------------------------------------------
+// XML
+// ---------------------------------------------------------------------------
+
+const XML_NAME = /^[A-Za-z_][\w.-]*(:[A-Za-z_][\w.-]*)?$/;
+
+const escapeXml = (text: string, attribute = false) => {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+};
+
+const parseXmlData = (text: string, options: ConversionOptions, warn: Warn): unknown => {
+  let nodes: XmlNode[];
+  try {
+    nodes = parseXml(text);
+  } catch (e: any) {
+    throw new Error(`XML: ${e.message}`);
+  }
+
+  let droppedComments = false;
+  let mixedContent = false;
+
+  const convert = (element: XmlElement): unknown => {
+    const result: Record<string, unknown> = {};
+    element.attributes.forEach((attr) => {
+      setKey(result, `${options.xmlAttributePrefix}${attr.name}`, decodeXmlEntities(attr.value));
+    });
+
+    let text = '';
+    let hasChildren = false;
+    // Repeated child elements are collected into arrays
+    const repeated = new Set<string>();
+    element.children.forEach((node) => {
+      if (node.type === 'element') {
+        hasChildren = true;
+        const value = convert(node);
+        if (!hasOwn(result, node.name)) {
+          setKey(result, node.name, value);
+        } else if (repeated.has(node.name)) {
+          (result[node.name] as unknown[]).push(value);
+        } else {
+          setKey(result, node.name, [result[node.name], value]);
+          repeated.add(node.name);
+        }
+      } else if (node.type === 'text') {
+        text += decodeXmlEntities(node.value);
+      } else if (node.type === 'cdata') {
+        text += node.value;
+      } else {
+        droppedComments = true;
+      }
+    });
+
+    const trimmed = text.trim();
+    if (hasChildren && trimmed) mixedContent = true;
+    if (!hasChildren && element.attributes.length === 0) return trimmed;
+    if (trimmed) setKey(result, options.xmlTextKey, trimmed);
+    return result;
+  };
+
+  const root = nodes.find((node): node is XmlElement => node.type === 'element')!;
+  // Comments, processing instructions and the DOCTYPE around the root element
+  if (nodes.length > 1) droppedComments = true;
+  const value = { [root.name]: convert(root) };
+  if (droppedComments) warn('XML comments and processing instructions were dropped');
+  if (mixedContent) warn('Mixed text and element content was split; the order of text and elements is lost');
+  warn('XML has no value types: all values were read as strings');
+  return value;
+};
+
+const stringifyXmlData = (value: unknown, options: ConversionOptions, warn: Warn): string => {
+  const name = (key: string) => {
+    if (XML_NAME.test(key)) return key;
+    warn('Keys that are not valid XML names were renamed');
+    const sanitized = key.replace(/[^\w.-]/g, '_');
+    return /^[A-Za-z_]/.test(sanitized) ? sanitized : `_${sanitized}`;
+  };
+
+  const scalar = (v: unknown) => {
+    if (typeof v === 'number' || typeof v === 'boolean') warn('Numbers and booleans became text; XML has no value types');
+    return String(v);
+  };
+
+  const element = (key: string, v: unknown, indent: string): string => {
+    const tag = name(key);
+    if (Array.isArray(v)) {
+      return v.map((item) => {
+        if (Array.isArray(item)) {
+          warn('Nested arrays were wrapped in <item> elements');
+          return element(key, { item }, indent);
+        }
+        return element(key, item, indent);
+      }).join('');
+    }
+    if (v === null || v === undefined) {
+      warn('null values became empty elements');
+      return `${indent}<${tag}/>\n`;
+    }
+    if (!isObject(v)) return `${indent}<${tag}>${escapeXml(scalar(v))}</${tag}>\n`;
+
+    let attributes = '';
+    let text = '';
+    let children = '';
+    Object.entries(v).forEach(([k, child]) => {
+      if (options.xmlAttributePrefix && k.startsWith(options.xmlAttributePrefix)) {
+        if (typeof child === 'object' && child !== null) warn('Objects used as attribute values were serialized as JSON text');
+        const attrValue = typeof child === 'object' && child !== null ? JSON.stringify(child) : scalar(child);
+        attributes += ` ${name(k.slice(options.xmlAttributePrefix.length))}="${escapeXml(attrValue, true)}"`;
+      } else if (k === options.xmlTextKey) {
+        text += escapeXml(scalar(child));
+      } else {
+        children += element(k, child, `${indent}  `);
+      }
+    });
+    if (!children && !text) return `${indent}<${tag}${attributes}/>\n`;
+    if (!children) return `${indent}<${tag}${attributes}>${text}</${tag}>\n`;
+    return `${indent}<${tag}${attributes}>\n${text ? `${indent}  ${text}\n` : ''}${children}${indent}</${tag}>\n`;
+  };
+
+  // A document has exactly one root element
+  const entries = isObject(value) ? Object.entries(value) : [];
+  let body: string;
+  if (entries.length === 1 && !Array.isArray(entries[0][1])) {
+    body = element(entries[0][0], entries[0][1], '');
+  } else {
+    warn('The data has no single top-level key, so it was wrapped in a <root> element');
+    body = element('root', isObject(value) ? value : { item: value }, '');
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+};
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+// RFC 4180: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+  const source = text.replace(/^﻿/, '');
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (ch === '"') quoted = false;
+      else field += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (source.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length;
+      continue;
+    } else if (ch === '\n' || ch === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if (quoted) throw new Error('CSV: unterminated quoted field');
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+};
+
+const csvField = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const flatten = (value: unknown, prefix: string, separator: string, out: Record<string, unknown>) => {
+  if (isObject(value) || Array.isArray(value)) {
+    const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value);
+    if (entries.length === 0 && prefix) setKey(out, prefix, Array.isArray(value) ? '[]' : '{}');
+    entries.forEach(([key, v]) => flatten(v, prefix ? `${prefix}${separator}${key}` : key, separator, out));
+  } else {
+    setKey(out, prefix || 'value', value);
+  }
+};
+
+const stringifyCsvData = (value: unknown, options: ConversionOptions, warn: Warn): string => {
+  let records: unknown[];
+  const entries = isObject(value) ? Object.entries(value) : [];
+  if (Array.isArray(value)) {
+    records = value;
+  } else if (entries.length === 1 && Array.isArray(entries[0][1])) {
+    // A wrapper like {"users": [...]} holds the actual rows
+    records = entries[0][1] as unknown[];
+    warn(`The rows were taken from the "${entries[0][0]}" array; the wrapping key was dropped`);
+  } else {
+    records = [value];
+    warn('A single object was written as a one-row table');
+  }
+
+  const rows = records.map((record) => {
+    const row: Record<string, unknown> = {};
+    flatten(record, '', options.csvFlattenSeparator, row);
+    return row;
+  });
+  if (records.some((r) => (isObject(r) && Object.values(r).some((v) => typeof v === 'object' && v !== null)) || Array.isArray(r))) {
+    warn(`Nested objects and arrays were flattened into "${options.csvFlattenSeparator}"-separated columns`);
+  }
+
+  // Union of all keys, in order of first appearance
+  const columns: string[] = [];
+  rows.forEach((row) => Object.keys(row).forEach((key) => { if (!columns.includes(key)) columns.push(key); }));
+  if (rows.some((row) => columns.some((c) => !(c in row)))) warn('Records have different fields; missing cells were left empty');
+  if (rows.some((row) => Object.values(row).some((v) => v === null))) warn('null values became empty cells');
+  if (rows.some((row) => Object.values(row).some((v) => typeof v === 'number' || typeof v === 'boolean'))) {
+    warn('CSV has no value types: numbers and booleans became text');
+  }
+
+  const d = options.csvDelimiter;
+  const lines = [columns.map((c) => csvField(c, d)).join(d)];
+  rows.forEach((row) => {
+    lines.push(columns.map((c) => (row[c] === undefined || row[c] === null ? '' : csvField(String(row[c]), d))).join(d));
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+const inferCell = (cell: string): unknown => {
+  if (cell === '') return null;
+  if (cell === 'true' || cell === 'false') return cell === 'true';
+  if (NUMBER.test(cell) && Number.isFinite(Number(cell))) return Number(cell);
+  return cell;
+};
+
+// Rebuilds nested objects from flattened headers; all-numeric key sets become arrays
+const unflatten = (row: Record<string, unknown>, separator: string): Record<string, unknown> => {
+  const root: Record<string, any> = {};
+  Object.entries(row).forEach(([key, value]) => {
+    const parts = separator ? key.split(separator) : [key];
+    let node = root;
+    parts.slice(0, -1).forEach((part) => {
+      if (!hasOwn(node, part) || !isObject(node[part])) setKey(node, part, {});
+      node = node[part];
+    });
+    setKey(node, parts[parts.length - 1], value);
+  });
+  const toArrays = (value: unknown): unknown => {
+    if (!isObject(value)) return value;
+    const keys = Object.keys(value);
+    const converted = Object.fromEntries(keys.map((k) => [k, toArrays(value[k])]));
+    return keys.length > 0 && keys.every((k, i) => k === String(i)) ? keys.map((k) => converted[k]) : converted;
+  };
+  return toArrays(root) as Record<string, unknown>;
+};
+
+const parseCsvData = (text: string, options: ConversionOptions, warn: Warn): unknown => {
+  const [header, ...rows] = parseCsv(text, options.csvDelimiter);
+  if (!header) return [];
+  if (new Set(header).size !== header.length) warn('Duplicate column names were merged; the last value wins');
+  if (rows.some((row) => row.length !== header.length)) warn('Some rows have a different number of cells than the header');
+  warn('Value types were inferred from the text of each cell (numbers, booleans, empty as null)');
+  return rows.map((row) => unflatten(Object.fromEntries(header.map((h, i) => [h, inferCell(row[i] ?? '')])), options.csvFlattenSeparator));
+};
+
+// ---------------------------------------------------------------------------
+// TOML
+// ---------------------------------------------------------------------------
+
+// True when a "#" starts a comment somewhere, whole-line or after a value; strings are skipped
+const hasTomlComment = (text: string): boolean => {
+  let pos = 0;
+  while (pos < text.length) {
+    const char = text[pos];
+    if (char === '#') return true;
+    if (char === '"' || char === "'") {
+      const multiline = text.startsWith(char.repeat(3), pos);
+      const delimiter = multiline ? char.repeat(3) : char;
+      pos += delimiter.length;
+      while (pos < text.length && !text.startsWith(delimiter, pos)) {
+        // Escapes only exist in basic strings; a single-line string cannot run past its line
+        if (char === '"' && text[pos] === '\\') pos++;
+        else if (!multiline && text[pos] === '\n') break;
+        pos++;
+      }
+      // A multi-line string may end with up to two extra quotes before its delimiter
+      while (multiline && text.startsWith(delimiter + char, pos)) pos++;
+      pos += delimiter.length;
+    } else {
+      pos++;
+    }
+  }
+  return false;
+};
+
+const parseTomlData = (text: string, warn: Warn): unknown => {
+  let sawDate = false;
+  let sawBigInt = false;
+  const toJson = (value: unknown): unknown => {
+    if (value instanceof TomlDate || value instanceof Date) {
+      sawDate = true;
+      return value instanceof TomlDate ? value.toISOString() : (value as Date).toISOString();
+    }
+    if (typeof value === 'bigint') {
+      sawBigInt = true;
+      return Number(value);
+    }
+    if (Array.isArray(value)) return value.map(toJson);
+    if (isObject(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toJson(v)]));
+    return value;
+  };
+  let parsed: unknown;
+  try {
+    // Integers beyond 2^53 come back as bigint rather than failing, so they convert with a warning
+    parsed = parseToml(text, { integersAsBigInt: 'asNeeded' });
+  } catch (e: any) {
+    throw new Error(`TOML: ${e.message.split('\n')[0]}`);
+  }
+  if (hasTomlComment(text)) warn('TOML comments were dropped');
+  const value = toJson(parsed);
+  if (sawDate) warn('TOML dates and times became strings');
+  if (sawBigInt) warn('Integers too large for JSON numbers were rounded');
+  return value;
+};
+
+const stringifyTomlData = (value: unknown, warn: Warn): string => {
+  let droppedNull = false;
+  const strip = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.filter((item) => (item === null ? (droppedNull = true, false) : true)).map(strip);
+    if (isObject(v)) {
+      return Object.fromEntries(Object.entries(v).filter(([, item]) => (item === null ? (droppedNull = true, false) : true)).map(([k, item]) => [k, strip(item)]));
+    }
+    return v;
+  };
+  let root = strip(value);
+  if (!isObject(root)) {
+    warn('TOML documents are tables, so the data was placed under an "items" key');
+    root = { items: root };
+  }
+  if (droppedNull) warn('TOML has no null: null values were removed');
+  return stringifyToml(root as Record<string, unknown>);
+};
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+const parseData = (text: string, format: DataFormat, options: ConversionOptions, warn: Warn): unknown => {
+  switch (format) {
+    case 'json':
+      try {
+        return JSON.parse(text);
+      } catch (e: any) {
+        // JSON5 reads JSONC too; converting is how either becomes strict JSON
+        try {
+          const value = parseJsonDialect(text, Language.JSON5);
+          warn('Comments, trailing commas and other JSON5 syntax were dropped');
+          return value;
+        } catch {
+          throw new Error(`JSON: ${e.message}`);
+        }
+      }
+    case 'yaml': return parseYamlData(text, warn);
+    case 'xml': return parseXmlData(text, options, warn);
+    case 'csv': return parseCsvData(text, options, warn);
+    case 'toml': return parseTomlData(text, warn);
+  }
+};
+
+const stringifyData = (value: unknown, format: DataFormat, options: ConversionOptions, warn: Warn): string => {
+  switch (format) {
+    case 'json': return `${JSON.stringify(value, null, 2)}\n`;
+    case 'yaml': return stringifyYamlData(value);
+    case 'xml': return stringifyXmlData(value, options, warn);
+    case 'csv': return stringifyCsvData(value, options, warn);
+    case 'toml': return stringifyTomlData(value, warn);
+  }
+};
+
+// Converts through a plain JSON value, so any pair of formats works
+export const convertData = (
+  input: string,
+  from: DataFormat,
+  to: DataFormat,
+  options: Partial<ConversionOptions> = {}
+): ConversionResult => {
+  const opts = { ...DEFAULT_CONVERSION_OPTIONS, ...options };
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  if (!input.trim()) throw new Error('Nothing to convert');
+  const value = parseData(input, from, opts, warn);
+  return { output: stringifyData(value, to, opts, warn), warnings };
+};
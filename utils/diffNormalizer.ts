@@ -0,0 +1,86 @@
+import { Language } from '../types';
+import { formatCode } from './formatter';
+
+export interface DiffNormalizationOptions {
+  // Beautify both sides with formatCode before comparing
+  formatFirst: boolean;
+  ignoreWhitespace: boolean;
+  ignoreCase: boolean;
+  normalizeLineEndings: boolean;
+  // Regular expressions whose matches are blanked out, e.g. timestamps or UUIDs
+  masks: string[];
+}
+
+export const DEFAULT_DIFF_NORMALIZATION: DiffNormalizationOptions = {
+  formatFirst: false,
+  ignoreWhitespace: false,
+  ignoreCase: false,
+  normalizeLineEndings: false,
+  masks: [],
+};
+
+export const MASK_PRESETS: { label: string; pattern: string }[] = [
+  { label: 'ISO timestamps', pattern: '\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:?\\d{2})?' },
+  { label: 'UUIDs', pattern: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}' },
+  { label: 'Unix timestamps', pattern: '\\b1\\d{9}(\\d{3})?\\b' },
+  { label: 'Hex hashes', pattern: '\\b[0-9a-f]{32,64}\\b' },
+];
+
+export const MASK_PLACEHOLDER = '<masked>';
+
+export const isNormalizationActive = (options: DiffNormalizationOptions) =>
+  options.formatFirst || options.ignoreWhitespace || options.ignoreCase || options.normalizeLineEndings
+  || options.masks.length > 0;
+
+// Returns the error message of an invalid mask pattern, or null
+export const validateMask = (pattern: string): string | null => {
+  try {
+    // A pattern matching the empty string would insert placeholders between every character
+    if (new RegExp(pattern).test('')) return 'Pattern matches empty text';
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+export interface NormalizedText {
+  text: string;
+  // Set when beautifying failed and the raw text was used instead
+  warning?: string;
+}
+
+// Produces the text actually compared; the original content is never modified
+export const normalizeForDiff = async (
+  content: string,
+  language: Language,
+  options: DiffNormalizationOptions
+): Promise<NormalizedText> => {
+  let text = content;
+  let warning: string | undefined;
+
+  if (options.normalizeLineEndings || options.ignoreWhitespace) text = text.replace(/\r\n?/g, '\n');
+
+  if (options.formatFirst && text.trim()) {
+    try {
+      text = await formatCode(text, language);
+    } catch (e: any) {
+      warning = `Could not beautify: ${e.message}`;
+    }
+  }
+
+  for (const pattern of options.masks) {
+    if (validateMask(pattern) === null) text = text.replace(new RegExp(pattern, 'g'), MASK_PLACEHOLDER);
+  }
+
+  if (options.ignoreWhitespace) {
+    text = text
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter((line) => line.length > 0)
+      .join('\n');
+  }
+
+  if (options.ignoreCase) text = text.toLowerCase();
+
+  return { text, warning };
+};
@@ -0,0 +1,150 @@
+import { readZip } from './zipReader';
+
+export type FileStatus = 'added' | 'removed' | 'modified' | 'identical';
+
+// One side of a folder comparison: an uploaded directory or an unpacked archive
+export interface FileSet {
+  label: string;
+  files: Map<string, Uint8Array>;
+}
+
+export interface FileComparison {
+  path: string;
+  status: FileStatus;
+  original?: Uint8Array;
+  modified?: Uint8Array;
+  // Binary files are compared but cannot be opened in the text diff
+  binary: boolean;
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  // For folders, the summary of everything below them
+  status: FileStatus;
+  children?: FileTreeNode[];
+  file?: FileComparison;
+}
+
+// Metadata that operating systems add to folders and archives, never part of a release
+const IGNORED_PATH = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)/;
+
+// Same heuristic as git: a NUL byte near the start means binary
+export const isBinary = (bytes: Uint8Array) => bytes.subarray(0, 8000).includes(0);
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+export const decodeText = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
+
+// "release-1.0/src/a.js" and "release-1.1/src/a.js" should pair up, so a folder holding
+// everything is dropped from the paths
+export const stripCommonRoot = (files: Map<string, Uint8Array>): Map<string, Uint8Array> => {
+  const paths = [...files.keys()];
+  const root = paths[0]?.split('/')[0];
+  if (!root || !paths.every((path) => path.startsWith(`${root}/`))) return files;
+  return new Map([...files].map(([path, bytes]) => [path.slice(root.length + 1), bytes]));
+};
+
+// A file picked or dropped, with its path inside the chosen folder
+export interface PickedFile {
+  path: string;
+  file: File;
+}
+
+// Directory uploads give every file its path relative to the picked folder
+export const pickedFromInput = (files: FileList | null): PickedFile[] =>
+  Array.from(files ?? [] as ArrayLike<File>).map((file) => ({ path: file.webkitRelativePath || file.name, file }));
+
+// Dropped folders have to be walked entry by entry
+export const pickedFromDrop = async (dataTransfer: DataTransfer): Promise<PickedFile[]> => {
+  const readEntry = async (entry: FileSystemEntry): Promise<PickedFile[]> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      return [{ path: entry.fullPath.replace(/^\//, ''), file }];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries hands out directories in batches until it returns an empty one
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    return (await Promise.all(children.map(readEntry))).flat();
+  };
+
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+// Reads a folder's files or a single .zip archive. `stripRoot` drops a folder holding everything.
+export const readFileSet = async (picked: PickedFile[], stripRoot: boolean = true): Promise<FileSet> => {
+  if (picked.length === 0) throw new Error('No files selected');
+
+  let files = new Map<string, Uint8Array>();
+  let label: string;
+  if (picked.length === 1 && /\.zip$/i.test(picked[0].file.name)) {
+    label = picked[0].file.name;
+    files = await readZip(await picked[0].file.arrayBuffer());
+  } else {
+    label = picked[0].path.split('/')[0];
+    for (const { path, file } of picked) {
+      files.set(path, new Uint8Array(await file.arrayBuffer()));
+    }
+  }
+
+  const kept = new Map([...files].filter(([path]) => !IGNORED_PATH.test(path)));
+  return { label, files: stripRoot ? stripCommonRoot(kept) : kept };
+};
+
+export const compareFileSets = (original: FileSet, modified: FileSet): FileComparison[] => {
+  const paths = new Set([...original.files.keys(), ...modified.files.keys()]);
+  return [...paths].sort().map((path) => {
+    const left = original.files.get(path);
+    const right = modified.files.get(path);
+    const status: FileStatus = !left ? 'added' : !right ? 'removed' : sameBytes(left, right) ? 'identical' : 'modified';
+    return { path, status, original: left, modified: right, binary: [left, right].some((bytes) => bytes && isBinary(bytes)) };
+  });
+};
+
+const summarize = (children: FileTreeNode[]): FileStatus => {
+  const statuses = new Set(children.map((child) => child.status));
+  return statuses.size === 1 ? [...statuses][0] : 'modified';
+};
+
+// Nests the flat comparison into folders, folders before files, each sorted by name
+export const buildFileTree = (comparisons: FileComparison[]): FileTreeNode[] => {
+  const root: FileTreeNode = { name: '', path: '', status: 'identical', children: [] };
+  for (const comparison of comparisons) {
+    const parts = comparison.path.split('/');
+    let folder = root;
+    parts.slice(0, -1).forEach((name, i) => {
+      const path = parts.slice(0, i + 1).join('/');
+      let child = folder.children!.find((node) => node.children && node.name === name);
+      if (!child) {
+        child = { name, path, status: 'identical', children: [] };
+        folder.children!.push(child);
+      }
+      folder = child;
+    });
+    folder.children!.push({ name: parts[parts.length - 1], path: comparison.path, status: comparison.status, file: comparison });
+  }
+
+  const finish = (nodes: FileTreeNode[]): FileTreeNode[] =>
+    nodes
+      .map((node) => {
+        if (!node.children) return node;
+        const children = finish(node.children);
+        return { ...node, children, status: summarize(children) };
+      })
+      .sort((a, b) => Number(!a.children) - Number(!b.children) || a.name.localeCompare(b.name));
+  return finish(root.children!);
+};
+
+export const countByStatus = (comparisons: FileComparison[]): Record<FileStatus, number> => {
+  const counts: Record<FileStatus, number> = { added: 0, removed: 0, modified: 0, identical: 0 };
+  comparisons.forEach(({ status }) => counts[status]++);
+  return counts;
+};
@@ -0,0 +1,60 @@
+import { diffLines, splitLines } from './unifiedDiff';
+
+// One run of changed lines between the input and its formatted version
+export interface FormatHunk {
+  // 0-based index of the first input line the hunk replaces (or is inserted before)
+  start: number;
+  removed: string[];
+  added: string[];
+}
+
+// Above this many lines on both sides together, the changed middle of the document is shown as a
+// single hunk instead of being diffed line by line
+export const MAX_FORMAT_CHECK_LINES = 20_000;
+
+// Runs in the format worker: diffing a minified input against its formatted version takes long
+export const formatHunks = (input: string, formatted: string): FormatHunk[] => {
+  const a = splitLines(input);
+  const b = splitLines(formatted);
+  if (a.length + b.length > MAX_FORMAT_CHECK_LINES) {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+    if (prefix === a.length && prefix === b.length) return [];
+    return [{ start: prefix, removed: a.slice(prefix, a.length - suffix), added: b.slice(prefix, b.length - suffix) }];
+  }
+
+  const hunks: FormatHunk[] = [];
+  let line = 0;
+  let current: FormatHunk | null = null;
+  for (const { type, line: text } of diffLines(a, b)) {
+    if (type === 'equal') {
+      current = null;
+      line++;
+      continue;
+    }
+    if (!current) {
+      current = { start: line, removed: [], added: [] };
+      hunks.push(current);
+    }
+    if (type === 'delete') {
+      current.removed.push(text);
+      line++;
+    } else {
+      current.added.push(text);
+    }
+  }
+  return hunks;
+};
+
+// A line rewritten by the formatter counts once, not as one removal plus one addition
+export const countDifferingLines = (hunks: FormatHunk[]): number =>
+  hunks.reduce((total, { removed, added }) => total + Math.max(removed.length, added.length), 0);
+
+// Applies a single hunk of the formatted version to the input, leaving the rest as it is
+export const acceptHunk = (input: string, { start, removed, added }: FormatHunk): string => {
+  const lines = splitLines(input);
+  lines.splice(start, removed.length, ...added);
+  return lines.join('');
+};
@@ -0,0 +1,96 @@
+import { Diagnostic, FormatMode, FormatOptions, Language, SqlDialect } from '../types';
+import { executeJob, FormatJob, WorkerResponse } from './formatJobs';
+import { FormatHunk } from './formatCheck';
+
+// Inputs above this many characters are only formatted on demand, never on every keystroke
+export const AUTO_UPDATE_LIMIT = 1_000_000;
+
+// Formatting and validation get a worker each, so a slow format never holds back the syntax check.
+// Batch runs have their own too, so editing meanwhile does not cancel them, and so do the diffs of
+// the format check.
+type Lane = 'format' | 'validate' | 'batch' | 'formatCheck';
+
+interface RunningJob {
+  id: number;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+const lanes: Record<Lane, { worker: Worker | null; running: RunningJob | null }> = {
+  format: { worker: null, running: null },
+  validate: { worker: null, running: null },
+  batch: { worker: null, running: null },
+  formatCheck: { worker: null, running: null },
+};
+
+let nextJobId = 1;
+
+const cancelledError = () => new DOMException('The job was cancelled by a newer one', 'AbortError');
+
+export const isCancelled = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+// A running job can only be stopped by terminating its worker; the next job starts a fresh one
+const cancelLane = (lane: Lane) => {
+  const state = lanes[lane];
+  if (!state.running) return;
+  state.running.reject(cancelledError());
+  state.running = null;
+  state.worker?.terminate();
+  state.worker = null;
+};
+
+const workerFor = (lane: Lane): Worker => {
+  const state = lanes[lane];
+  if (state.worker) return state.worker;
+
+  const worker = new Worker(new URL('./formatWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const running = state.running;
+    if (!running || running.id !== response.id) return;
+    state.running = null;
+    if ('error' in response) running.reject(new Error(response.error));
+    else running.resolve(response.result);
+  };
+  worker.onerror = (event) => {
+    const running = state.running;
+    state.running = null;
+    state.worker = null;
+    worker.terminate();
+    running?.reject(new Error(event.message || 'The format worker crashed'));
+  };
+  state.worker = worker;
+  return worker;
+};
+
+// Starting a job cancels the one still running in its lane, whose promise rejects with an AbortError
+const runJob = <T>(lane: Lane, job: FormatJob, signal?: AbortSignal): Promise<T> => {
+  cancelLane(lane);
+  if (signal?.aborted) return Promise.reject(cancelledError());
+  // Without worker support (old browsers, tests) the job runs inline
+  if (typeof Worker === 'undefined') return executeJob(job) as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const id = nextJobId++;
+    lanes[lane].running = { id, resolve, reject };
+    signal?.addEventListener('abort', () => {
+      if (lanes[lane].running?.id === id) cancelLane(lane);
+    }, { once: true });
+    workerFor(lane).postMessage({ id, job });
+  });
+};
+
+export const formatInWorker = (code: string, language: Language, options: FormatOptions = {}, signal?: AbortSignal) =>
+  runJob<string>('format', { kind: 'format', code, language, options }, signal);
+
+export const minifyInWorker = (code: string, language: Language, options: FormatOptions = {}, signal?: AbortSignal) =>
+  runJob<string>('format', { kind: 'minify', code, language, options }, signal);
+
+export const batchJobInWorker = (kind: FormatMode, code: string, language: Language, options: FormatOptions = {}, signal?: AbortSignal) =>
+  runJob<string>('batch', { kind: kind === 'beautify' ? 'format' : 'minify', code, language, options }, signal);
+
+export const formatHunksInWorker = (input: string, formatted: string, signal?: AbortSignal) =>
+  runJob<FormatHunk[]>('formatCheck', { kind: 'formatHunks', input, formatted }, signal);
+
+export const validateInWorker = (code: string, language: Language, sqlDialect: SqlDialect, signal?: AbortSignal) =>
+  runJob<Diagnostic[]>('validate', { kind: 'validate', code, language, sqlDialect }, signal);
@@ -0,0 +1,27 @@
+import { Diagnostic, FormatOptions, Language, SqlDialect } from '../types';
+import { formatCode, minifyCode } from './formatter';
+import { validateCode } from './validator';
+import { FormatHunk, formatHunks } from './formatCheck';
+
+export type FormatJob =
+  | { kind: 'format' | 'minify'; code: string; language: Language; options: FormatOptions }
+  | { kind: 'validate'; code: string; language: Language; sqlDialect: SqlDialect }
+  | { kind: 'formatHunks'; input: string; formatted: string };
+
+// Messages exchanged with the format worker, matched by id
+export type WorkerRequest = { id: number; job: FormatJob };
+
+export type WorkerResponse = { id: number; result: string | Diagnostic[] | FormatHunk[] } | { id: number; error: string };
+
+export const executeJob = async (job: FormatJob): Promise<string | Diagnostic[] | FormatHunk[]> => {
+  switch (job.kind) {
+    case 'format':
+      return formatCode(job.code, job.language, job.options);
+    case 'minify':
+      return minifyCode(job.code, job.language, job.options);
+    case 'validate':
+      return validateCode(job.code, job.language, job.sqlDialect);
+    case 'formatHunks':
+      return formatHunks(job.input, job.formatted);
+  }
+};
@@ -0,0 +1,13 @@
+import { executeJob, WorkerRequest, WorkerResponse } from './formatJobs';
+
+// Runs formatter, minifier, validator and format check jobs off the main thread, one at a time
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, job } = event.data;
+  let response: WorkerResponse;
+  try {
+    response = { id, result: await executeJob(job) };
+  } catch (e: any) {
+    response = { id, error: String(e?.message ?? e) };
+  }
+  self.postMessage(response);
+};
@@ -1,199 +1,157 @@
-import { Language } from '../types';
+import { FormatOptions, Language } from '../types';
+import { formatSql, minifySql } from './sqlFormatter';
+import { minifyJavaScript } from './jsMinifier';
+import { minifyYaml } from './yamlFormatter';
+import { formatXml, minifyXml } from './xmlFormatter';
+import { minifyJsonDialect, parseJsonDialect } from './jsonDialects';
+import { applyEndOfLine, DEFAULT_STYLE_OPTIONS, indentUnit } from './styleOptions';
 import * as prettier from 'prettier/standalone';
 import * as parserBabel from 'prettier/plugins/babel';
 import * as parserHtml from 'prettier/plugins/html';
 import * as parserPostcss from 'prettier/plugins/postcss';
 import * as parserEstree from 'prettier/plugins/estree';
 import * as parserTypescript from 'prettier/plugins/typescript';
+import * as parserYaml from 'prettier/plugins/yaml';
+import * as parserMarkdown from 'prettier/plugins/markdown';
 
-// Helper to detect language based on content
-export const detectLanguage = (content: string): Language => {
-  const trimmed = content.trim();
-  if (!trimmed) return Language.JSON;
-
-  // 1. JSON (Strict & Loose)
-  // Check for standard JSON start/end characters
-  if ((trimmed.startsWith('{') && trimmed.endsWith('}')) || (trimmed.startsWith('[') && trimmed.endsWith(']'))) {
-    try {
-      JSON.parse(trimmed);
-      return Language.JSON;
-    } catch {
-      // If parse fails, it might be a JS Object or just invalid JSON.
-    }
-  }
+// Regex-based minifiers for HTML and CSS. The content that must survive as written (whitespace-sensitive
+// elements, quoted strings) comes first in each pattern, so it is matched and kept as a whole.
+const HTML_WHITESPACE = /(<(pre|textarea|script|style)\b[\s\S]*?<\/\2\s*>)|>\s+(?=<)|\s{2,}/gi;
+const CSS_COMMENTS = /("(?:\\[\s\S]|[^"\\])*"|'(?:\\[\s\S]|[^'\\])*')|\/\*[\s\S]*?\*\//g;
+const CSS_WHITESPACE = /("(?:\\[\s\S]|[^"\\])*"|'(?:\\[\s\S]|[^'\\])*')|\s*([;{}])\s*|:\s+|\s+/g;
+
+export const formatCode = async (code: string, language: Language, options: FormatOptions = {}): Promise<string> => {
+  if (!code.trim()) return '';
 
-  // 2. HTML / XML
-  if (trimmed.startsWith('<')) {
-    // XML Declaration
-    if (/^<\?xml\s/i.test(trimmed)) return Language.XML;
-    // Doctype HTML
-    if (/^<!doctype\s+html/i.test(trimmed)) return Language.HTML;
+  const style = { ...DEFAULT_STYLE_OPTIONS[language], ...options.style };
+  const prettierStyle = {
+    printWidth: style.printWidth,
+    tabWidth: style.tabWidth,
+    useTabs: style.useTabs,
+    semi: style.semi,
+    singleQuote: style.singleQuote,
+    trailingComma: style.trailingComma,
+    bracketSpacing: style.bracketSpacing,
+    singleAttributePerLine: style.singleAttributePerLine,
+    endOfLine: style.endOfLine,
+  };
+
+  switch (language) {
+    case Language.JSON:
+      const parsed = JSON.parse(code);
+      return applyEndOfLine(JSON.stringify(parsed, null, indentUnit(style)), style.endOfLine);
+
+    case Language.JSONC:
+    case Language.JSON5:
+      // Prettier keeps the comments but reads either dialect leniently, so the syntax is checked first
+      parseJsonDialect(code, language);
+      return await prettier.format(code, {
+        ...prettierStyle,
+        parser: language,
+        plugins: [parserBabel, parserEstree],
+      } as any);
     
-    // Look for HTML-specific tags that are unlikely in generic XML
-    const htmlTags = /<\s*\/?\s*(html|head|body|div|span|p|a|ul|ol|li|table|tr|td|br|img|h[1-6]|form|input|button|script|style|meta|link|header|footer|nav|section|article)\b/i;
-    if (htmlTags.test(trimmed)) return Language.HTML;
+    case Language.JAVASCRIPT:
+      return await prettier.format(code, {
+        ...prettierStyle,
+        parser: 'babel',
+        plugins: [parserBabel, parserEstree],
+      });
+
+    case Language.TYPESCRIPT:
+      return await prettier.format(code, {
+        ...prettierStyle,
+        parser: 'typescript',
+        plugins: [parserTypescript, parserEstree],
+      });
+
+    case Language.HTML:
+      return await prettier.format(code, {
+        ...prettierStyle,
+        parser: 'html',
+        plugins: [parserHtml],
+      });
+
+    case Language.CSS:
+      return await prettier.format(code, {
+        ...prettierStyle,
+        parser: 'css',
+        plugins: [parserPostcss],
+      });
     
-    return Language.XML;
-  }
-
-  // 3. SQL
-  const sqlStartPattern = /^\s*(SELECT|INSERT|UPDATE|DELETE|CREATE|ALTER|DROP|TRUNCATE|GRANT|REVOKE|BEGIN|DECLARE|WITH)\b/i;
-  const sqlClausePattern = /\b(FROM|WHERE|GROUP BY|ORDER BY|INNER JOIN|LEFT JOIN|RIGHT JOIN|VALUES|SET|PRIMARY KEY|FOREIGN KEY)\b/i;
-  
-  if (sqlStartPattern.test(trimmed) || sqlClausePattern.test(trimmed)) {
-      const isJs = /\b(const|var|let|function|return|import|export|class)\b/.test(trimmed);
-      if (!isJs) return Language.SQL;
-  }
-
-  // 4. CSS
-  const hasCssBlock = /[^{}]+{\s*([a-zA-Z0-9-]+\s*:\s*[^;]+;\s*)+}/.test(trimmed) || /^[^{}]+{\s*[\s\S]+\s*}$/m.test(trimmed);
-  const isJsLike = /\b(function|class|if|for|while|const|var|let|return|import|export|=>)\b/.test(trimmed);
-  
-  if (hasCssBlock && !isJsLike) {
-      if (!/"\s*:\s*"/m.test(trimmed)) {
-          return Language.CSS;
-      }
-  }
-
-  // 5. Markdown
-  // Look for common markdown patterns: headers (# ), bold (**), links ([]()), lists (- )
-  const mdPattern = /(^#{1,6}\s)|(^\s*[-*+]\s)|(^>\s)|(\[.*\]\(.*\))/m;
-  if (mdPattern.test(trimmed)) {
-    return Language.MARKDOWN;
-  }
-
-  // 6. TypeScript / JavaScript
-  const tsKeywords = /\b(interface|type|enum|namespace|implements|abstract|readonly|private|protected|public|as)\b/;
-  const tsTypeAnnotation = /:\s*(string|number|boolean|any|void|never|object|unknown)\b/;
-  const tsGenerics = /<[A-Z][a-zA-Z0-9]*>/; 
-
-  if (tsKeywords.test(trimmed) || tsTypeAnnotation.test(trimmed) || tsGenerics.test(trimmed)) {
-      return Language.TYPESCRIPT;
+    case Language.XML:
+      return applyEndOfLine(formatXml(code, {
+        indent: indentUnit(style),
+        printWidth: style.printWidth,
+        singleAttributePerLine: style.singleAttributePerLine,
+      }), style.endOfLine);
+
+    case Language.SQL:
+      return applyEndOfLine(formatSql(code, options.sql, indentUnit(style)), style.endOfLine);
+
+    case Language.YAML:
+      // Prettier keeps "---" document separators, comments, anchors and aliases
+      return await prettier.format(code, {
+        ...prettierStyle,
+        useTabs: false,
+        parser: 'yaml',
+        plugins: [parserYaml],
+      });
+
+    case Language.MARKDOWN:
+      // The other plugins format fenced code blocks in languages prettier knows
+      return await prettier.format(code, {
+        ...prettierStyle,
+        parser: 'markdown',
+        plugins: [parserMarkdown, parserBabel, parserEstree, parserTypescript, parserPostcss, parserHtml, parserYaml],
+      } as any);
+
+    default:
+      return code;
   }
-
-  // 7. Default to JavaScript
-  return Language.JAVASCRIPT;
 };
 
-export const formatCode = async (code: string, language: Language): Promise<string> => {
-  if (!code.trim()) return '';
+export const minifyCode = async (code: string, language: Language, options: FormatOptions = {}): Promise<string> => {
+   if (!code.trim()) return '';
 
-  try {
-    switch (language) {
-      case Language.JSON:
-        const parsed = JSON.parse(code);
-        return JSON.stringify(parsed, null, 2);
-      
-      case Language.JAVASCRIPT:
-        return await prettier.format(code, {
-          parser: 'babel',
-          plugins: [parserBabel, parserEstree],
-          semi: true,
-          singleQuote: true,
-        });
-
-      case Language.TYPESCRIPT:
-        return await prettier.format(code, {
-          parser: 'typescript',
-          plugins: [parserTypescript, parserEstree],
-          semi: true,
-          singleQuote: true,
-        });
-
-      case Language.HTML:
-        return await prettier.format(code, {
-          parser: 'html',
-          plugins: [parserHtml],
-        });
-
-      case Language.CSS:
-        return await prettier.format(code, {
-          parser: 'css',
-          plugins: [parserPostcss],
-        });
-      
-      case Language.XML:
-        return await prettier.format(code, {
-          parser: 'html',
-          plugins: [parserHtml],
-          htmlWhitespaceSensitivity: 'ignore',
-          xmlWhitespaceSensitivity: 'ignore'
-        } as any);
-
-      case Language.SQL:
-        return code
-          .replace(/\s+/g, ' ')
-          .replace(/\s*([,()])\s*/g, '$1 ')
-          .replace(/\s*\(\s*/g, ' (')
-          .replace(/\s*\)\s*/g, ') ')
-          .replace(/\b(SELECT|FROM|WHERE|AND|OR|ORDER BY|GROUP BY|LIMIT|INSERT INTO|UPDATE|DELETE FROM|HAVING|JOIN|LEFT JOIN|RIGHT JOIN|INNER JOIN|VALUES|SET|CREATE TABLE|ALTER TABLE)\b/gi, (match) => `\n${match.toUpperCase()}`)
-          .replace(/\b(ON|AS|IN|IS|NULL|NOT|ASC|DESC)\b/gi, (match) => ` ${match.toUpperCase()} `)
+   switch (language) {
+     case Language.JSON:
+       // Safe minification
+       return JSON.stringify(JSON.parse(code));
+
+     case Language.JSONC:
+     case Language.JSON5:
+       return minifyJsonDialect(code, language);
+       
+     case Language.XML:
+       return minifyXml(code);
+
+     case Language.HTML:
+       // Remove newlines and multiple spaces between tags, leaving whitespace-sensitive elements as written
+       return code
+          .replace(HTML_WHITESPACE, (match, verbatim) => verbatim ?? (match.startsWith('>') ? '>' : ' '))
           .trim();
           
-      case Language.MARKDOWN:
-          // Simple Markdown formatting (normalize headers and lists)
-          return code
-            .replace(/^#+\s*/gm, (match) => match.trim() + ' ') // Fix header spacing
-            .replace(/^\s*[-*]\s+/gm, '- '); // Normalize list bullets
-
-      default:
-        return code;
-    }
-  } catch (error) {
-    console.warn("Formatting error:", error);
-    throw error;
-  }
-};
-
-export const minifyCode = (code: string, language: Language): string => {
-   if (!code.trim()) return '';
-
-   try {
-     switch (language) {
-       case Language.JSON:
-         // Safe minification
-         return JSON.stringify(JSON.parse(code));
-         
-       case Language.HTML:
-       case Language.XML:
-         // Remove newlines and multiple spaces between tags
-         return code
-            .replace(/>\s+</g, '><')
-            .replace(/\s{2,}/g, ' ')
-            .trim();
-            
-       case Language.CSS:
-         // Remove comments and whitespace
-         return code
-            .replace(/\/\*[\s\S]*?\*\//g, '')
-            .replace(/\s+/g, ' ')
-            .replace(/\s*([:;{}])\s*/g, '$1')
-            .trim();
-            
-       case Language.JAVASCRIPT:
-       case Language.TYPESCRIPT:
-         // Safer simple minification for client-side without parser
-         // 1. Remove single line comments
-         // 2. Remove multi line comments
-         // 3. Remove new lines
-         // 4. Collapse multiple spaces (but be careful about strings - this is imperfect regex minification)
-         // A safe compromise for "minify" button without a real bundler:
-         return code
-            .replace(/\/\*[\s\S]*?\*\/|([^\\:]|^)\/\/.*$/gm, '$1') // Remove comments
-            .replace(/^\s+|\s+$/gm, '') // Trim lines
-            .replace(/[\n\r]+/g, ' ') // Replace newlines with space
-            .replace(/\s{2,}/g, ' ') // Collapse spaces
-            .trim();
-
-       case Language.SQL:
-         return code.replace(/\s+/g, ' ').trim();
-         
-       default:
-         return code.replace(/\s+/g, ' ');
-     }
-   } catch (e) {
-     console.error("Minification error", e);
-     // Return original code if minification fails to avoid "deleting" user content
-     return code;
+     case Language.CSS:
+       // Remove comments and whitespace outside strings. The space before ":" stays: in a
+       // selector it is a descendant combinator (".menu :hover").
+       return code
+          .replace(CSS_COMMENTS, (match, string) => string ?? '')
+          .replace(CSS_WHITESPACE, (match, string, punctuation) => string ?? punctuation ?? (match.startsWith(':') ? ':' : ' '))
+          .trim();
+          
+     case Language.JAVASCRIPT:
+     case Language.TYPESCRIPT:
+       // Parser-backed: the result is re-parsed and verified, errors are thrown rather than emitting broken code
+       return await minifyJavaScript(code, language, options.js);
+
+     case Language.SQL:
+       return minifySql(code, options.sql);
+
+     case Language.YAML:
+       return minifyYaml(code);
+       
+     default:
+       return code.replace(/\s+/g, ' ');
    }
 }
\ No newline at end of file
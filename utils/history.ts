@@ -0,0 +1,92 @@
+import { HistorySnapshot } from '../types';
+
+const DB_NAME = 'formacheck';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+
+// Unpinned snapshots beyond this count are pruned, oldest first
+export const MAX_HISTORY_ENTRIES = 50;
+
+export type SnapshotDraft = Omit<HistorySnapshot, 'id' | 'createdAt' | 'updatedAt' | 'pinned'>;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available in this browser');
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open the history database'));
+    });
+    // A failed open (private mode, blocked storage) is retried on the next call
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  return run(db.transaction(STORE, mode).objectStore(STORE));
+};
+
+// Pinned first, then the most recently updated
+export const listSnapshots = async (): Promise<HistorySnapshot[]> => {
+  const snapshots = await withStore('readonly', (store) => promisify(store.getAll() as IDBRequest<HistorySnapshot[]>));
+  return snapshots.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+};
+
+const pruneHistory = async () => {
+  const unpinned = (await listSnapshots()).filter((snapshot) => !snapshot.pinned);
+  const excess = unpinned.slice(MAX_HISTORY_ENTRIES);
+  if (excess.length === 0) return;
+  await withStore('readwrite', (store) => Promise.all(excess.map((snapshot) => promisify(store.delete(snapshot.id)))));
+};
+
+const panes = (snapshot: SnapshotDraft) => [snapshot.input, snapshot.output, snapshot.merge.base, snapshot.merge.ours, snapshot.merge.theirs];
+
+// True when saving `draft` over `existing` would blank a pane that held something
+const emptiesPane = (existing: SnapshotDraft, draft: SnapshotDraft) => {
+  const next = panes(draft);
+  return panes(existing).some((text, i) => text.trim() !== '' && next[i].trim() === '');
+};
+
+// Updates snapshot `id` in place, or starts a new snapshot when there is none yet, it was
+// deleted, pinned since, or the update would wipe one of its panes. Resolves to the id the
+// session should keep using.
+export const saveSnapshot = async (draft: SnapshotDraft, id: number | null): Promise<number> => {
+  const now = Date.now();
+  const savedId = await withStore('readwrite', async (store) => {
+    const existing = id === null ? undefined : await promisify(store.get(id) as IDBRequest<HistorySnapshot | undefined>);
+    if (existing && !existing.pinned && !emptiesPane(existing, draft)) {
+      await promisify(store.put({ ...existing, ...draft, updatedAt: now }));
+      return existing.id;
+    }
+    return (await promisify(store.add({ ...draft, createdAt: now, updatedAt: now, pinned: false }))) as number;
+  });
+  await pruneHistory();
+  return savedId;
+};
+
+export const setSnapshotPinned = (id: number, pinned: boolean): Promise<void> =>
+  withStore('readwrite', async (store) => {
+    const snapshot = await promisify(store.get(id) as IDBRequest<HistorySnapshot | undefined>);
+    if (snapshot) await promisify(store.put({ ...snapshot, pinned }));
+  });
+
+export const deleteSnapshot = (id: number): Promise<void> =>
+  withStore('readwrite', (store) => promisify(store.delete(id)));
+
+export const clearHistory = (): Promise<void> =>
+  withStore('readwrite', (store) => promisify(store.clear()));
@@ -0,0 +1,848 @@
+import { JsMinifyOptions, Language } from '../types';
+import * as parserBabel from 'prettier/plugins/babel';
+import * as parserTypescript from 'prettier/plugins/typescript';
+
+export const DEFAULT_JS_MINIFY_OPTIONS: JsMinifyOptions = {
+  stripTypes: false,
+  mangle: false,
+  foldConstants: false,
+};
+
+type AstNode = { type: string; [key: string]: any };
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Keys which never hold child nodes, or only duplicate information (comments are handled separately)
+const SKIPPED_KEYS = new Set([
+  'loc', 'range', 'start', 'end', 'extra', 'comments', 'leadingComments', 'trailingComments',
+  'innerComments', 'tokens', 'errors', 'parent',
+]);
+
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+  'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'var', 'void', 'while', 'with', 'yield', 'let', 'static', 'implements', 'interface', 'package',
+  'private', 'protected', 'public', 'await', 'async', 'of', 'get', 'set', 'arguments', 'eval',
+  'undefined', 'NaN', 'Infinity',
+]);
+
+// Statements (and class / interface members) which may rely on automatic semicolon insertion
+const ASI_NODE_TYPES = new Set([
+  'ExpressionStatement', 'VariableDeclaration', 'ReturnStatement', 'ThrowStatement',
+  'BreakStatement', 'ContinueStatement', 'DebuggerStatement', 'DoWhileStatement',
+  'ImportDeclaration', 'ExportAllDeclaration', 'ClassProperty', 'ClassPrivateProperty',
+  'ClassAccessorProperty', 'PropertyDefinition', 'AccessorProperty', 'TSTypeAliasDeclaration',
+  'TSPropertySignature', 'TSMethodSignature', 'TSIndexSignature', 'TSCallSignatureDeclaration',
+  'TSConstructSignatureDeclaration', 'TSAbstractPropertyDefinition', 'TSAbstractMethodDefinition',
+  'TSAbstractAccessorProperty', 'TSDeclareFunction', 'TSDeclareMethod', 'TSImportEqualsDeclaration',
+  'TSExportAssignment', 'TSNamespaceExportDeclaration',
+]);
+
+const FUNCTION_TYPES = new Set([
+  'FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod',
+  'ClassMethod', 'ClassPrivateMethod',
+]);
+
+export const span = (node: AstNode): [number, number] =>
+  node.range ? [node.range[0], node.range[1]] : [node.start, node.end];
+
+// Visits every node depth-first; returning false from `enter` skips the node's children
+export const walk = (
+  node: AstNode,
+  enter: (node: AstNode, parent: AstNode | null, key: string) => boolean | void,
+  leave?: (node: AstNode) => void,
+  parent: AstNode | null = null,
+  key = ''
+) => {
+  if (enter(node, parent, key) === false) return;
+  for (const childKey of Object.keys(node)) {
+    if (SKIPPED_KEYS.has(childKey)) continue;
+    const value = node[childKey];
+    if (Array.isArray(value)) {
+      value.forEach((child) => {
+        if (child && typeof child.type === 'string') walk(child, enter, leave, node, childKey);
+      });
+    } else if (value && typeof value.type === 'string') {
+      walk(value, enter, leave, node, childKey);
+    }
+  }
+  leave?.(node);
+};
+
+const lineOf = (code: string, offset: number) => code.slice(0, offset).split('\n').length;
+
+const applyEdits = (code: string, edits: Edit[]) => {
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+  let result = code;
+  let lastStart = Infinity;
+  for (const edit of sorted) {
+    // Overlapping edits indicate a bug in one of the passes: better to refuse than to corrupt the code
+    if (edit.end > lastStart) throw new Error('Minification failed: conflicting edits');
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    lastStart = edit.start;
+  }
+  return result;
+};
+
+const parse = async (code: string, parser: 'babel' | 'typescript'): Promise<AstNode> => {
+  const plugin = parser === 'babel' ? parserBabel : parserTypescript;
+  return (plugin as any).parsers[parser].parse(code, {});
+};
+
+const programOf = (ast: AstNode): AstNode => (ast.type === 'File' ? ast.program : ast);
+
+// ---------------------------------------------------------------------------
+// Type stripping: TypeScript-only syntax is replaced by whitespace so that every
+// remaining offset (and every line break) stays where it was.
+// ---------------------------------------------------------------------------
+
+const TYPE_ONLY_DECLARATIONS = new Set([
+  'TSInterfaceDeclaration', 'TSTypeAliasDeclaration', 'TSDeclareFunction', 'TSNamespaceExportDeclaration',
+]);
+
+const FUNCTION_LIKE_PARAM_PARENTS = new Set([
+  'FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'TSEmptyBodyFunctionExpression',
+  'TSDeclareFunction',
+]);
+
+const CLASS_MEMBER_MODIFIERS = /\b(public|private|protected|readonly|override)\b/g;
+
+const isTypeOnlyNamespace = (node: AstNode): boolean => {
+  if (node.declare || node.global || node.kind === 'global') return true;
+  const body = node.body;
+  if (!body) return true;
+  if (body.type === 'TSModuleDeclaration') return isTypeOnlyNamespace(body);
+  return (body.body as AstNode[]).every((statement) => {
+    const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    if (!declaration) return false;
+    if (declaration.type === 'TSModuleDeclaration') return isTypeOnlyNamespace(declaration);
+    return TYPE_ONLY_DECLARATIONS.has(declaration.type) || !!declaration.declare;
+  });
+};
+
+const stripTypes = (code: string, ast: AstNode): string => {
+  const blanks: Array<[number, number]> = [];
+  const blank = (start: number, end: number) => blanks.push([start, end]);
+  const blankNode = (node: AstNode) => blank(...span(node));
+  const unsupported = (node: AstNode, what: string): never => {
+    throw new Error(`Cannot strip types: ${what} have runtime semantics (line ${lineOf(code, span(node)[0])})`);
+  };
+
+  // Blanks a list item and the comma that follows it
+  const blankListItem = (node: AstNode) => {
+    const [start, end] = span(node);
+    const comma = /^\s*,/.exec(code.slice(end));
+    blank(start, comma ? end + comma[0].length : end);
+  };
+
+  // Blanks the first occurrence of `char` between `from` and `to`, e.g. the "?" of an optional parameter
+  const blankMarker = (char: string, from: number, to: number) => {
+    const index = code.indexOf(char, from);
+    if (index !== -1 && index < to) blank(index, index + 1);
+  };
+
+  walk(programOf(ast), (node, parent) => {
+    const isExportWrapper = parent?.type === 'ExportNamedDeclaration' || parent?.type === 'ExportDefaultDeclaration';
+    const blankStatement = () => blankNode(isExportWrapper ? parent! : node);
+
+    if (TYPE_ONLY_DECLARATIONS.has(node.type) || node.declare) {
+      blankStatement();
+      return false;
+    }
+
+    switch (node.type) {
+      case 'TSTypeAnnotation':
+      case 'TSTypeParameterDeclaration':
+      case 'TSTypeParameterInstantiation':
+        blankNode(node);
+        return false;
+
+      case 'TSEnumDeclaration':
+        return unsupported(node, 'enums');
+
+      case 'TSParameterProperty':
+        return unsupported(node, 'constructor parameter properties');
+
+      case 'TSExportAssignment':
+        return unsupported(node, '"export =" assignments');
+
+      case 'TSImportEqualsDeclaration':
+        if (node.importKind === 'type') {
+          blankStatement();
+          return false;
+        }
+        return unsupported(node, '"import = require()" declarations');
+
+      case 'TSModuleDeclaration':
+        if (isTypeOnlyNamespace(node)) {
+          blankStatement();
+          return false;
+        }
+        return unsupported(node, 'namespaces with values');
+
+      case 'TSAsExpression':
+      case 'TSSatisfiesExpression': {
+        // The expression may be parenthesized, so look for the keyword rather than trusting its end
+        const from = span(node.expression)[1];
+        const keyword = /\b(as|satisfies)\b/.exec(code.slice(from, span(node.typeAnnotation)[0]));
+        if (keyword) blank(from + keyword.index, span(node)[1]);
+        return;
+      }
+
+      case 'TSNonNullExpression':
+        blank(span(node)[1] - 1, span(node)[1]);
+        return;
+
+      case 'TSTypeAssertion':
+        blank(span(node)[0], code.indexOf('>', span(node.typeAnnotation)[1]) + 1);
+        return;
+
+      case 'TSAbstractPropertyDefinition':
+      case 'TSAbstractMethodDefinition':
+      case 'TSAbstractAccessorProperty':
+      case 'TSIndexSignature':
+        blankNode(node);
+        return false;
+
+      case 'ImportDeclaration':
+        if (node.importKind === 'type') {
+          blankNode(node);
+          return false;
+        }
+        if (node.specifiers.length > 0 && node.specifiers.every((s: AstNode) => s.importKind === 'type')) {
+          blankNode(node);
+          return false;
+        }
+        node.specifiers.filter((s: AstNode) => s.importKind === 'type').forEach(blankListItem);
+        return false;
+
+      case 'ExportNamedDeclaration':
+        if (node.exportKind === 'type') {
+          blankNode(node);
+          return false;
+        }
+        node.specifiers.filter((s: AstNode) => s.exportKind === 'type').forEach(blankListItem);
+        return;
+
+      case 'ExportAllDeclaration':
+        if (node.exportKind === 'type') {
+          blankNode(node);
+          return false;
+        }
+        return;
+
+      case 'ClassDeclaration':
+      case 'ClassExpression': {
+        if (node.abstract) {
+          const abstract = /\babstract\b/.exec(code.slice(span(node)[0], span(node.body)[0]));
+          if (abstract) blank(span(node)[0] + abstract.index, span(node)[0] + abstract.index + abstract[0].length);
+        }
+        if (node.implements?.length) {
+          const first = span(node.implements[0])[0];
+          const last = span(node.implements[node.implements.length - 1])[1];
+          blank(code.lastIndexOf('implements', first), last);
+        }
+        return;
+      }
+
+      case 'MethodDefinition':
+      case 'PropertyDefinition':
+      case 'AccessorProperty': {
+        if (node.value?.type === 'TSEmptyBodyFunctionExpression') {
+          // Overload signature
+          blankNode(node);
+          return false;
+        }
+        const [start] = span(node);
+        const keyStart = span(node.key)[0] - (node.computed ? 1 : 0);
+        const modifiersFrom = node.decorators?.length ? span(node.decorators[node.decorators.length - 1])[1] : start;
+        const prefix = code.slice(modifiersFrom, keyStart);
+        for (const match of prefix.matchAll(CLASS_MEMBER_MODIFIERS)) {
+          blank(modifiersFrom + match.index!, modifiersFrom + match.index! + match[0].length);
+        }
+        if (node.optional || node.definite) {
+          const keyEnd = span(node.key)[1];
+          const limit = node.typeAnnotation ? span(node.typeAnnotation)[0] : node.value ? span(node.value)[0] : span(node)[1];
+          blankMarker(node.optional ? '?' : '!', keyEnd, limit);
+        }
+        return;
+      }
+
+      case 'VariableDeclarator':
+        if (node.definite) {
+          blankMarker('!', span(node.id)[0] + node.id.name.length, span(node.id)[1]);
+        }
+        return;
+
+      case 'Identifier':
+      case 'ObjectPattern':
+      case 'ArrayPattern':
+      case 'RestElement':
+        if (node.optional && (parent && FUNCTION_LIKE_PARAM_PARENTS.has(parent.type))) {
+          const from = node.type === 'Identifier' ? span(node)[0] + node.name.length : span(node)[0];
+          const to = node.typeAnnotation ? span(node.typeAnnotation)[0] : span(node)[1];
+          blankMarker('?', from, to);
+        }
+        return;
+    }
+
+    // "this" parameters only exist in the type system
+    if (FUNCTION_LIKE_PARAM_PARENTS.has(node.type) && node.params?.[0]?.type === 'Identifier' && node.params[0].name === 'this') {
+      blankListItem(node.params[0]);
+    }
+  });
+
+  const chars = code.split('');
+  for (const [start, end] of blanks) {
+    for (let i = start; i < end; i++) {
+      if (chars[i] !== '\n' && chars[i] !== '\r') chars[i] = ' ';
+    }
+  }
+  return chars.join('');
+};
+
+// Drops import specifiers which are never referenced once types are gone, as TypeScript does
+const elideUnusedImports = (code: string, ast: AstNode): string => {
+  const program = programOf(ast);
+  const referenced = new Set<string>();
+  walk(program, (node) => {
+    if (node.type === 'ImportDeclaration') return false;
+    if (node.type === 'Identifier' || node.type === 'JSXIdentifier') referenced.add(node.name);
+  });
+
+  const edits: Edit[] = [];
+  for (const statement of program.body as AstNode[]) {
+    if (statement.type !== 'ImportDeclaration' || statement.specifiers.length === 0) continue;
+    const unused = (statement.specifiers as AstNode[]).filter((s) => !referenced.has(s.local.name));
+    if (unused.length === 0) continue;
+    if (unused.length === statement.specifiers.length) {
+      edits.push({ start: statement.start, end: statement.end, text: '' });
+      continue;
+    }
+    unused.forEach((specifier) => {
+      const comma = /^\s*,/.exec(code.slice(specifier.end));
+      edits.push({ start: specifier.start, end: comma ? specifier.end + comma[0].length : specifier.end, text: '' });
+    });
+  }
+  return edits.length ? applyEdits(code, edits) : code;
+};
+
+// ---------------------------------------------------------------------------
+// Constant folding
+// ---------------------------------------------------------------------------
+
+type Constant = { value: string | number | boolean | null };
+
+// "+" and the relational operators on primitives, with the conversions JavaScript makes
+const add = (a: Constant['value'], b: Constant['value']) =>
+  typeof a === 'string' || typeof b === 'string' ? String(a) + String(b) : Number(a) + Number(b);
+
+type Relational = '<' | '<=' | '>' | '>=';
+const compare = (a: Constant['value'], b: Constant['value'], operator: Relational): boolean => {
+  // Two strings compare by code units; anything else compares as numbers
+  const [x, y] = typeof a === 'string' && typeof b === 'string' ? [a, b] : [Number(a), Number(b)];
+  switch (operator) {
+    case '<': return x < y;
+    case '<=': return x <= y;
+    case '>': return x > y;
+    case '>=': return x >= y;
+  }
+};
+
+const literalValue = (node: AstNode): Constant | undefined => {
+  switch (node.type) {
+    case 'NumericLiteral':
+    case 'StringLiteral':
+    case 'BooleanLiteral':
+      return { value: node.value };
+    case 'NullLiteral':
+      return { value: null };
+    case 'Literal':
+      if (node.regex || node.bigint !== undefined) return undefined;
+      if (['string', 'number', 'boolean'].includes(typeof node.value) || node.value === null) return { value: node.value };
+      return undefined;
+  }
+  return undefined;
+};
+
+const evaluate = (node: AstNode): Constant | undefined => {
+  const literal = literalValue(node);
+  if (literal) return literal;
+
+  if (node.type === 'UnaryExpression') {
+    const argument = evaluate(node.argument);
+    if (!argument) return undefined;
+    const v = argument.value;
+    switch (node.operator) {
+      case '-': return { value: -Number(v) };
+      case '+': return { value: Number(v) };
+      case '!': return { value: !v };
+      case '~': return { value: ~Number(v) };
+    }
+    return undefined;
+  }
+
+  if (node.type === 'BinaryExpression' || node.type === 'LogicalExpression') {
+    const left = evaluate(node.left);
+    const right = left && evaluate(node.right);
+    if (!left || !right) return undefined;
+    const a = left.value;
+    const b = right.value;
+    switch (node.operator) {
+      case '+': return { value: add(a, b) };
+      case '-': return { value: Number(a) - Number(b) };
+      case '*': return { value: Number(a) * Number(b) };
+      case '/': return { value: Number(a) / Number(b) };
+      case '%': return { value: Number(a) % Number(b) };
+      case '**': return { value: Number(a) ** Number(b) };
+      case '<<': return { value: Number(a) << Number(b) };
+      case '>>': return { value: Number(a) >> Number(b) };
+      case '>>>': return { value: Number(a) >>> Number(b) };
+      case '&': return { value: Number(a) & Number(b) };
+      case '|': return { value: Number(a) | Number(b) };
+      case '^': return { value: Number(a) ^ Number(b) };
+      case '==': return { value: a == b };
+      case '!=': return { value: a != b };
+      case '===': return { value: a === b };
+      case '!==': return { value: a !== b };
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        return { value: compare(a, b, node.operator) };
+      case '&&': return { value: a && b };
+      case '||': return { value: a || b };
+      case '??': return { value: a ?? b };
+    }
+  }
+  return undefined;
+};
+
+const renderConstant = ({ value }: Constant): string | undefined => {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || Object.is(value, -0)) return undefined;
+    return String(value);
+  }
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+};
+
+const foldConstants = (code: string, ast: AstNode): Edit[] => {
+  const edits: Edit[] = [];
+  walk(programOf(ast), (node) => {
+    if (node.type.startsWith('TS')) return false;
+    if (!['UnaryExpression', 'BinaryExpression', 'LogicalExpression'].includes(node.type)) return;
+    const constant = evaluate(node);
+    const text = constant && renderConstant(constant);
+    if (text === undefined) return;
+    const [start, end] = span(node);
+    if (text.length < end - start) edits.push({ start, end, text });
+    // Folded or not, a constant expression contains nothing else worth visiting
+    return false;
+  });
+  return edits;
+};
+
+// ---------------------------------------------------------------------------
+// Mangling of local (function-scoped and block-scoped) bindings
+// ---------------------------------------------------------------------------
+
+interface Binding {
+  name: string;
+  mangleable: boolean;
+  identifiers: AstNode[];
+  newName?: string;
+}
+
+interface Scope {
+  parent: Scope | null;
+  isFunction: boolean;
+  bindings: Map<string, Binding>;
+  children: Scope[];
+}
+
+const createScope = (parent: Scope | null, isFunction: boolean): Scope => {
+  const scope: Scope = { parent, isFunction, bindings: new Map(), children: [] };
+  parent?.children.push(scope);
+  return scope;
+};
+
+const patternIdentifiers = (pattern: AstNode | null | undefined, out: AstNode[] = []): AstNode[] => {
+  if (!pattern) return out;
+  switch (pattern.type) {
+    case 'Identifier':
+      out.push(pattern);
+      break;
+    case 'ObjectPattern':
+      pattern.properties.forEach((p: AstNode) => patternIdentifiers(p.type === 'RestElement' ? p.argument : p.value, out));
+      break;
+    case 'ArrayPattern':
+      pattern.elements.forEach((e: AstNode | null) => patternIdentifiers(e, out));
+      break;
+    case 'RestElement':
+      patternIdentifiers(pattern.argument, out);
+      break;
+    case 'AssignmentPattern':
+      patternIdentifiers(pattern.left, out);
+      break;
+  }
+  return out;
+};
+
+const isBlockScopeNode = (node: AstNode, parent: AstNode | null) =>
+  (node.type === 'BlockStatement' && !(parent && FUNCTION_TYPES.has(parent.type)) && parent?.type !== 'CatchClause')
+  || ['ForStatement', 'ForInStatement', 'ForOfStatement', 'SwitchStatement', 'CatchClause', 'StaticBlock'].includes(node.type);
+
+// Identifiers which are names of something other than a variable binding
+const isNonReference = (node: AstNode, parent: AstNode | null, key: string) => {
+  if (!parent) return false;
+  switch (parent.type) {
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return key === 'property' && !parent.computed;
+    case 'ObjectProperty':
+    case 'ObjectMethod':
+    case 'ClassProperty':
+    case 'ClassMethod':
+    case 'ClassAccessorProperty':
+    case 'ClassPrivateProperty':
+    case 'ClassPrivateMethod':
+      return key === 'key' && !parent.computed;
+    case 'LabeledStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+      return key === 'label';
+    case 'MetaProperty':
+    case 'PrivateName':
+    case 'ImportSpecifier':
+    case 'ImportDefaultSpecifier':
+    case 'ImportNamespaceSpecifier':
+    case 'ExportSpecifier':
+    case 'ExportNamespaceSpecifier':
+    case 'ExportDefaultSpecifier':
+      return true;
+  }
+  return false;
+};
+
+const generateName = (index: number): string => {
+  const first = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_$';
+  const rest = `${first}0123456789`;
+  let name = first[index % first.length];
+  let remaining = Math.floor(index / first.length);
+  while (remaining > 0) {
+    remaining -= 1;
+    name += rest[remaining % rest.length];
+    remaining = Math.floor(remaining / rest.length);
+  }
+  return name;
+};
+
+const mangle = (ast: AstNode): Edit[] => {
+  const program = programOf(ast);
+  const allNames = new Set<string>();
+  const jsxNames = new Set<string>();
+  let unsafe = false;
+
+  walk(program, (node) => {
+    if (node.type === 'Identifier') allNames.add(node.name);
+    if (node.type === 'JSXIdentifier') jsxNames.add(node.name);
+    if (node.type === 'WithStatement') unsafe = true;
+    if (node.type === 'CallExpression' && node.callee.type === 'Identifier' && node.callee.name === 'eval') unsafe = true;
+  });
+  // Direct eval and with statements can observe local names
+  if (unsafe) return [];
+
+  const root = createScope(null, true);
+  const scopes = new Map<AstNode, Scope>();
+
+  const declare = (scope: Scope, identifier: AstNode, mangleable = true) => {
+    let binding = scope.bindings.get(identifier.name);
+    if (!binding) {
+      binding = { name: identifier.name, mangleable: scope !== root, identifiers: [] };
+      scope.bindings.set(identifier.name, binding);
+    }
+    if (!mangleable || jsxNames.has(identifier.name)) binding.mangleable = false;
+  };
+
+  // First pass: create scopes and declare bindings, so hoisted names resolve in the second pass
+  const stack: Scope[] = [root];
+  const current = () => stack[stack.length - 1];
+  const functionScope = () => [...stack].reverse().find((s) => s.isFunction)!;
+
+  walk(program, (node, parent) => {
+    if (FUNCTION_TYPES.has(node.type)) {
+      if (node.type === 'FunctionDeclaration' && node.id) {
+        // Function declarations nested in blocks are hoisted differently in sloppy mode: keep their names
+        declare(current(), node.id, current().isFunction);
+      }
+      const scope = createScope(current(), true);
+      scopes.set(node, scope);
+      stack.push(scope);
+      if (node.type === 'FunctionExpression' && node.id) declare(scope, node.id);
+      node.params.forEach((param: AstNode) => patternIdentifiers(param).forEach((id) => declare(scope, id)));
+      return;
+    }
+    if (node.type === 'ClassDeclaration' && node.id) declare(current(), node.id);
+    if (node.type === 'ClassExpression' && node.id) {
+      const scope = createScope(current(), false);
+      scopes.set(node, scope);
+      stack.push(scope);
+      declare(scope, node.id);
+      return;
+    }
+    if (isBlockScopeNode(node, parent)) {
+      const scope = createScope(current(), false);
+      scopes.set(node, scope);
+      stack.push(scope);
+      if (node.type === 'CatchClause' && node.param) patternIdentifiers(node.param).forEach((id) => declare(scope, id));
+      return;
+    }
+    if (node.type === 'VariableDeclaration') {
+      const scope = node.kind === 'var' ? functionScope() : current();
+      node.declarations.forEach((d: AstNode) => patternIdentifiers(d.id).forEach((id) => declare(scope, id)));
+    }
+  }, (node) => {
+    if (scopes.has(node)) stack.pop();
+  });
+
+  // Second pass: resolve every identifier to its binding
+  const resolveStack: Scope[] = [root];
+  const shorthandValues = new Set<AstNode>();
+
+  walk(program, (node, parent, key) => {
+    const scope = scopes.get(node);
+    if (scope) resolveStack.push(scope);
+
+    if (node.type === 'ObjectProperty' && node.shorthand) {
+      shorthandValues.add(node.value.type === 'AssignmentPattern' ? node.value.left : node.value);
+    }
+    if (node.type !== 'Identifier' || isNonReference(node, parent, key)) return;
+
+    // The name of a function declaration belongs to the enclosing scope, not to the function's own
+    const isFunctionName = parent?.type === 'FunctionDeclaration' && key === 'id';
+    const from = resolveStack[resolveStack.length - (isFunctionName ? 2 : 1)];
+    for (let s: Scope | null = from; s; s = s.parent) {
+      const binding = s.bindings.get(node.name);
+      if (binding) {
+        binding.identifiers.push(node);
+        return;
+      }
+    }
+  }, (node) => {
+    if (scopes.has(node)) resolveStack.pop();
+  });
+
+  const assign = (scope: Scope, firstIndex: number) => {
+    let index = firstIndex;
+    const bindings = [...scope.bindings.values()]
+      .filter((b) => b.mangleable)
+      .sort((a, b) => b.identifiers.length - a.identifiers.length);
+    for (const binding of bindings) {
+      let name = generateName(index++);
+      while (RESERVED_WORDS.has(name) || allNames.has(name)) name = generateName(index++);
+      binding.newName = name;
+    }
+    scope.children.forEach((child) => assign(child, index));
+  };
+  assign(root, 0);
+
+  const edits: Edit[] = [];
+  const visit = (scope: Scope) => {
+    for (const binding of scope.bindings.values()) {
+      if (!binding.newName) continue;
+      for (const identifier of binding.identifiers) {
+        const [start] = span(identifier);
+        const end = start + identifier.name.length;
+        const text = shorthandValues.has(identifier) ? `${identifier.name}:${binding.newName}` : binding.newName;
+        edits.push({ start, end, text });
+      }
+    }
+    scope.children.forEach(visit);
+  };
+  visit(root);
+  return edits;
+};
+
+// ---------------------------------------------------------------------------
+// Whitespace and comment removal
+// ---------------------------------------------------------------------------
+
+const isIdentifierChar = (ch: string) => /[\w$\\]/.test(ch) || ch.charCodeAt(0) > 127;
+
+// Whether a space must separate two characters to keep the tokens apart
+const needsSpace = (previous: string, next: string) => {
+  if (!previous) return false;
+  if (isIdentifierChar(previous) && isIdentifierChar(next)) return true;
+  if ((previous === '+' || previous === '-') && next === previous) return true;
+  if (previous === '/' && (next === '/' || next === '*')) return true;
+  if (previous === '<' && next === '!') return true;
+  if (previous === '-' && next === '>') return true;
+  if (/\d/.test(previous) && next === '.') return true;
+  if ((previous === '"' || previous === "'") && isIdentifierChar(next)) return true;
+  return false;
+};
+
+const isWhitespaceOnlyJsxText = (node: AstNode) =>
+  node.type === 'JSXText' && /^\s*$/.test(node.value) && node.value.includes('\n');
+
+const removeWhitespace = (code: string, ast: AstNode): string => {
+  type Segment = { start: number; end: number; keep: boolean };
+  const segments: Segment[] = [];
+  const semicolons = new Set<number>();
+
+  for (const comment of (ast.comments ?? []) as AstNode[]) {
+    const [start, end] = span(comment);
+    segments.push({ start, end, keep: false });
+  }
+  const commentAt = new Map(segments.map((s) => [s.start, s.end]));
+
+  const nextSignificant = (from: number) => {
+    let i = from;
+    while (i < code.length) {
+      if (/\s/.test(code[i])) i++;
+      else if (commentAt.has(i)) i = commentAt.get(i)!;
+      else return code[i];
+    }
+    return '';
+  };
+
+  // Nodes directly inside export declarations share their end position, hence the set
+  walk(programOf(ast), (node, _parent, key) => {
+    const [start, end] = span(node);
+    switch (node.type) {
+      case 'StringLiteral':
+      case 'DirectiveLiteral':
+      case 'RegExpLiteral':
+      case 'TemplateElement':
+        segments.push({ start, end, keep: true });
+        return false;
+      case 'Literal':
+        if (typeof node.value === 'string' || node.regex) segments.push({ start, end, keep: true });
+        return false;
+      case 'JSXText':
+        segments.push({ start, end, keep: !isWhitespaceOnlyJsxText(node) });
+        return false;
+    }
+
+    const isLoopHead = key === 'init' || key === 'left';
+    const isOverload = node.type === 'MethodDefinition' && node.value?.type === 'TSEmptyBodyFunctionExpression';
+    const isBareExport = (node.type === 'ExportNamedDeclaration' && !node.declaration)
+      || (node.type === 'ExportDefaultDeclaration' && !/Declaration$/.test(node.declaration.type));
+    if ((ASI_NODE_TYPES.has(node.type) || isOverload || isBareExport) && !isLoopHead && code[end - 1] !== ';') {
+      const next = nextSignificant(end);
+      if (next !== ';' && next !== ',' && next !== '}' && next !== '') semicolons.add(end);
+    }
+  });
+
+  segments.sort((a, b) => a.start - b.start);
+
+  let output = '';
+  let pendingSpace = false;
+  let i = 0;
+
+  // Hashbang lines must stay on their own line
+  if (code.startsWith('#!')) {
+    const lineEnd = code.indexOf('\n');
+    output = `${lineEnd === -1 ? code : code.slice(0, lineEnd)}\n`;
+    i = lineEnd === -1 ? code.length : lineEnd;
+  }
+
+  const emit = (text: string) => {
+    if (pendingSpace && needsSpace(output[output.length - 1] ?? '', text[0])) output += ' ';
+    pendingSpace = false;
+    output += text;
+  };
+
+  let segmentIndex = 0;
+  while (i < code.length) {
+    if (semicolons.has(i)) {
+      semicolons.delete(i);
+      pendingSpace = false;
+      output += ';';
+    }
+    while (segmentIndex < segments.length && segments[segmentIndex].start < i) segmentIndex++;
+    const segment = segments[segmentIndex];
+    if (segment && segment.start === i) {
+      if (segment.keep) emit(code.slice(segment.start, segment.end));
+      else pendingSpace = true;
+      // Consumed even when empty, as the quasi between `${a}${b}` is: i alone would not move past it
+      segmentIndex++;
+      i = segment.end;
+      continue;
+    }
+    if (/\s/.test(code[i])) {
+      pendingSpace = true;
+      i++;
+      continue;
+    }
+    emit(code[i]);
+    i++;
+  }
+  if (semicolons.has(code.length)) output += ';';
+
+  return output.trim();
+};
+
+// Structural fingerprint of an AST, ignoring positions, comments and formatting details
+const fingerprint = (ast: AstNode) =>
+  JSON.stringify(programOf(ast), (key, value) => {
+    if (SKIPPED_KEYS.has(key)) return undefined;
+    if (Array.isArray(value)) return value.filter((v) => !(v && typeof v === 'object' && isWhitespaceOnlyJsxText(v)));
+    return value;
+  });
+
+export const minifyJavaScript = async (
+  code: string,
+  language: Language,
+  options: Partial<JsMinifyOptions> = {}
+): Promise<string> => {
+  const { stripTypes: shouldStrip, mangle: shouldMangle, foldConstants: shouldFold } = {
+    ...DEFAULT_JS_MINIFY_OPTIONS,
+    ...options,
+  };
+  const isTypeScript = language === Language.TYPESCRIPT;
+
+  if (isTypeScript && shouldMangle && !shouldStrip) {
+    throw new Error('Mangling TypeScript requires stripping types first');
+  }
+
+  let source = code;
+  let parser: 'babel' | 'typescript' = isTypeScript ? 'typescript' : 'babel';
+  let ast = await parse(source, parser);
+
+  if (isTypeScript && shouldStrip) {
+    source = stripTypes(source, ast);
+    parser = 'babel';
+    ast = await parse(source, parser);
+    source = elideUnusedImports(source, ast);
+    ast = await parse(source, parser);
+  }
+
+  const edits = [
+    ...(shouldFold ? foldConstants(source, ast) : []),
+    ...(shouldMangle ? mangle(ast) : []),
+  ];
+  if (edits.length > 0) {
+    source = applyEdits(source, edits);
+    ast = await parse(source, parser);
+  }
+
+  const minified = removeWhitespace(source, ast);
+
+  let reparsed: AstNode;
+  try {
+    reparsed = await parse(minified, parser);
+  } catch (e: any) {
+    throw new Error(`Minification produced invalid code, aborting: ${e.message}`);
+  }
+  if (fingerprint(reparsed) !== fingerprint(ast)) {
+    throw new Error('Minification changed the program structure, aborting');
+  }
+  return minified;
+};
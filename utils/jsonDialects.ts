@@ -0,0 +1,188 @@
+import { Language } from '../types';
+
+// JSON with comments (tsconfig.json, VS Code settings) and JSON5 (https://json5.org). Both allow
+// comments and trailing commas; JSON5 also takes unquoted keys, single quotes, hex numbers,
+// Infinity / NaN and a few more escapes.
+export type JsonDialect = Language.JSONC | Language.JSON5;
+
+// Plain JSON goes through the same reader only to locate errors that JSON.parse gives no position for
+type JsonSyntax = Language.JSON | JsonDialect;
+
+interface Token {
+  type: 'punctuation' | 'string' | 'number' | 'word';
+  raw: string;
+  start: number;
+}
+
+// Errors carry a prettier-style location so the validator reports them like parser errors
+const syntaxError = (code: string, offset: number, message: string): Error => {
+  const before = code.slice(0, offset).split('\n');
+  const line = before.length;
+  const column = before[before.length - 1].length + 1;
+  return Object.assign(new Error(`${message} (${line}:${column})`), { loc: { start: { line, column } } });
+};
+
+const JSON_NUMBER = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+const JSON5_NUMBER = /[+-]?(0[xX][\da-fA-F]+|Infinity|NaN|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/y;
+const WORD = /[A-Za-z_$][\w$]*/y;
+const LINE_TERMINATORS = '\n\r\u2028\u2029';
+
+// Splits a document into tokens, skipping whitespace and comments
+const tokenize = (code: string, dialect: JsonSyntax): Token[] => {
+  const json5 = dialect === Language.JSON5;
+  const tokens: Token[] = [];
+  let pos = code.charCodeAt(0) === 0xfeff ? 1 : 0;
+  const fail = (message: string, at = pos): never => {
+    throw syntaxError(code, at, message);
+  };
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = pos;
+    return pattern.exec(code)?.[0];
+  };
+
+  while (pos < code.length) {
+    const char = code[pos];
+    const start = pos;
+    if (/\s/.test(char)) {
+      pos++;
+    } else if (dialect === Language.JSON && (code.startsWith('//', pos) || code.startsWith('/*', pos))) {
+      fail('Comments are not allowed in JSON');
+    } else if (code.startsWith('//', pos)) {
+      while (pos < code.length && !LINE_TERMINATORS.includes(code[pos])) pos++;
+    } else if (code.startsWith('/*', pos)) {
+      const end = code.indexOf('*/', pos + 2);
+      if (end < 0) fail('Unterminated comment');
+      pos = end + 2;
+    } else if ('{}[]:,'.includes(char)) {
+      tokens.push({ type: 'punctuation', raw: char, start });
+      pos++;
+    } else if (char === '"' || char === "'") {
+      if (char === "'" && !json5) fail('Strings must use double quotes');
+      pos++;
+      while (code[pos] !== char) {
+        if (pos >= code.length || LINE_TERMINATORS.includes(code[pos])) fail('Unterminated string', start);
+        // A backslash before a line break continues the string on the next line (JSON5)
+        pos += code[pos] === '\\' ? (code.startsWith('\r\n', pos + 1) ? 3 : 2) : 1;
+      }
+      pos++;
+      tokens.push({ type: 'string', raw: code.slice(start, pos), start });
+    } else {
+      const number = match(json5 ? JSON5_NUMBER : JSON_NUMBER);
+      const word = number === undefined ? match(WORD) : undefined;
+      if (number !== undefined) tokens.push({ type: 'number', raw: number, start });
+      else if (word !== undefined) tokens.push({ type: 'word', raw: word, start });
+      else fail(`Unexpected character "${char}"`);
+      pos += (number ?? word)!.length;
+    }
+  }
+  return tokens;
+};
+
+const JSON5_ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v', 0: '\0' };
+
+const decodeJson5String = (raw: string): string =>
+  raw.slice(1, -1).replace(/\\(x[\da-fA-F]{2}|u[\da-fA-F]{4}|\r\n|[\s\S])/g, (_, escape: string) => {
+    if (escape.length > 2) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    if (LINE_TERMINATORS.includes(escape[0])) return '';
+    return JSON5_ESCAPES[escape] ?? escape;
+  });
+
+const parseTokens = (code: string, tokens: Token[], dialect: JsonSyntax): unknown => {
+  const json5 = dialect === Language.JSON5;
+  let index = 0;
+  const fail = (message: string, token: Token | undefined = tokens[index]): never => {
+    throw syntaxError(code, token ? token.start : code.length, message);
+  };
+  // Moves past the comma after a member or element, which JSON does not allow before the closing bracket
+  const skipComma = (closing: string) => {
+    index++;
+    if (dialect === Language.JSON && tokens[index]?.raw === closing) fail('Trailing commas are not allowed in JSON', tokens[index - 1]);
+  };
+  const expect = (raw: string) => {
+    if (tokens[index]?.raw !== raw) fail(tokens[index] ? `Expected "${raw}"` : `Expected "${raw}" before the end of the document`);
+    index++;
+  };
+
+  const decodeString = (token: Token): string => {
+    if (json5) return decodeJson5String(token.raw);
+    try {
+      return JSON.parse(token.raw);
+    } catch {
+      return fail('Invalid string', token);
+    }
+  };
+
+  const parseKey = (): string => {
+    const token = tokens[index++];
+    if (token?.type === 'string') return decodeString(token);
+    if (token?.type === 'word' && json5) return token.raw;
+    return fail(token?.type === 'word' ? 'Property names must be double-quoted' : 'Expected a property name', token);
+  };
+
+  const parseValue = (): unknown => {
+    const token = tokens[index++];
+    if (!token) return fail('Unexpected end of the document');
+    switch (token.type) {
+      case 'string':
+        return decodeString(token);
+      case 'number': {
+        const sign = token.raw[0] === '-' ? -1 : 1;
+        return sign * Number(token.raw.replace(/^[+-]/, ''));
+      }
+      case 'word':
+        if (token.raw === 'true') return true;
+        if (token.raw === 'false') return false;
+        if (token.raw === 'null') return null;
+        return fail(`Unexpected "${token.raw}"`, token);
+      case 'punctuation':
+        if (token.raw === '{') {
+          const object: Record<string, unknown> = {};
+          while (tokens[index]?.raw !== '}') {
+            const key = parseKey();
+            expect(':');
+            // Defined rather than assigned, so that a "__proto__" key stays an ordinary property
+            Object.defineProperty(object, key, { value: parseValue(), enumerable: true, writable: true, configurable: true });
+            if (tokens[index]?.raw !== ',') break;
+            skipComma('}');
+          }
+          expect('}');
+          return object;
+        }
+        if (token.raw === '[') {
+          const array: unknown[] = [];
+          while (tokens[index]?.raw !== ']') {
+            array.push(parseValue());
+            if (tokens[index]?.raw !== ',') break;
+            skipComma(']');
+          }
+          expect(']');
+          return array;
+        }
+        return fail(`Unexpected "${token.raw}"`, token);
+    }
+  };
+
+  const value = parseValue();
+  if (index < tokens.length) fail(`Unexpected "${tokens[index].raw}" after the end of the document`);
+  return value;
+};
+
+export const parseJsonDialect = (code: string, dialect: JsonDialect): unknown =>
+  parseTokens(code, tokenize(code, dialect), dialect);
+
+// The line / column where strict JSON stops parsing, or undefined if the reader finds no error
+export const locateJsonError = (code: string): { line: number; column: number } | undefined => {
+  try {
+    parseTokens(code, tokenize(code, Language.JSON), Language.JSON);
+    return undefined;
+  } catch (e: any) {
+    return e.loc?.start;
+  }
+};
+
+// Drops whitespace and comments only: everything else, trailing commas included, stays as written
+export const minifyJsonDialect = (code: string, dialect: JsonDialect): string => {
+  const tokens = tokenize(code, dialect);
+  parseTokens(code, tokens, dialect);
+  return tokens.map((token) => token.raw).join('');
+};
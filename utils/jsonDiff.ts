@@ -0,0 +1,150 @@
+export type JsonChangeKind = 'added' | 'removed' | 'changed' | 'type-changed';
+
+export interface JsonChange {
+  kind: JsonChangeKind;
+  path: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface JsonDiffOptions {
+  // Compare arrays as unordered sets instead of index by index
+  unorderedArrays: boolean;
+  // Field used to pair up objects of unordered arrays, e.g. "id"
+  arrayKey: string;
+}
+
+export const DEFAULT_JSON_DIFF_OPTIONS: JsonDiffOptions = {
+  unorderedArrays: false,
+  arrayKey: '',
+};
+
+type JsonType = 'null' | 'array' | 'object' | 'string' | 'number' | 'boolean';
+
+export const jsonTypeOf = (value: unknown): JsonType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JsonType;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => jsonTypeOf(value) === 'object';
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export const childPath = (path: string, key: string | number) => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return IDENTIFIER.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+};
+
+// Key order and formatting do not matter, array order does
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  const type = jsonTypeOf(a);
+  if (type !== jsonTypeOf(b)) return false;
+  if (type === 'array') {
+    const left = a as unknown[];
+    const right = b as unknown[];
+    return left.length === right.length && left.every((item, i) => deepEqual(item, right[i]));
+  }
+  if (type === 'object') {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length
+      && keys.every((key) => Object.prototype.hasOwnProperty.call(right, key) && deepEqual(left[key], right[key]));
+  }
+  return false;
+};
+
+const diffValues = (a: unknown, b: unknown, path: string, options: JsonDiffOptions, changes: JsonChange[]) => {
+  const typeA = jsonTypeOf(a);
+  const typeB = jsonTypeOf(b);
+
+  if (typeA !== typeB) {
+    changes.push({ kind: 'type-changed', path, oldValue: a, newValue: b });
+    return;
+  }
+
+  if (typeA === 'object') {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    for (const key of Object.keys(left)) {
+      const p = childPath(path, key);
+      if (!Object.prototype.hasOwnProperty.call(right, key)) changes.push({ kind: 'removed', path: p, oldValue: left[key] });
+      else diffValues(left[key], right[key], p, options, changes);
+    }
+    for (const key of Object.keys(right)) {
+      if (!Object.prototype.hasOwnProperty.call(left, key)) {
+        changes.push({ kind: 'added', path: childPath(path, key), newValue: right[key] });
+      }
+    }
+    return;
+  }
+
+  if (typeA === 'array') {
+    if (options.unorderedArrays) diffUnorderedArrays(a as unknown[], b as unknown[], path, options, changes);
+    else diffOrderedArrays(a as unknown[], b as unknown[], path, options, changes);
+    return;
+  }
+
+  if (a !== b) changes.push({ kind: 'changed', path, oldValue: a, newValue: b });
+};
+
+const diffOrderedArrays = (a: unknown[], b: unknown[], path: string, options: JsonDiffOptions, changes: JsonChange[]) => {
+  const common = Math.min(a.length, b.length);
+  for (let i = 0; i < common; i++) diffValues(a[i], b[i], childPath(path, i), options, changes);
+  for (let i = common; i < a.length; i++) changes.push({ kind: 'removed', path: childPath(path, i), oldValue: a[i] });
+  for (let i = common; i < b.length; i++) changes.push({ kind: 'added', path: childPath(path, i), newValue: b[i] });
+};
+
+// Objects carrying the key field are paired by its value and compared recursively;
+// every other element is matched by deep equality, as in a multiset
+const diffUnorderedArrays = (a: unknown[], b: unknown[], path: string, options: JsonDiffOptions, changes: JsonChange[]) => {
+  const key = options.arrayKey.trim();
+  const keyOf = (item: unknown) =>
+    key && isPlainObject(item) && Object.prototype.hasOwnProperty.call(item, key) ? JSON.stringify(item[key]) : undefined;
+  const keyedPath = (item: unknown) => `${path}[?(@${childPath('', key)}==${keyOf(item)})]`;
+
+  const unmatchedRight = new Set(b.map((_, i) => i));
+  const rightByKey = new Map<string, number>();
+  b.forEach((item, i) => {
+    const k = keyOf(item);
+    if (k !== undefined && !rightByKey.has(k)) rightByKey.set(k, i);
+  });
+
+  a.forEach((item, i) => {
+    const k = keyOf(item);
+    if (k !== undefined) {
+      const match = rightByKey.get(k);
+      if (match !== undefined && unmatchedRight.has(match)) {
+        unmatchedRight.delete(match);
+        diffValues(item, b[match], keyedPath(item), options, changes);
+      } else {
+        changes.push({ kind: 'removed', path: keyedPath(item), oldValue: item });
+      }
+      return;
+    }
+
+    const match = [...unmatchedRight].find((j) => keyOf(b[j]) === undefined && deepEqual(item, b[j]));
+    if (match !== undefined) unmatchedRight.delete(match);
+    else changes.push({ kind: 'removed', path: childPath(path, i), oldValue: item });
+  });
+
+  [...unmatchedRight].forEach((j) => {
+    const item = b[j];
+    changes.push({ kind: 'added', path: keyOf(item) !== undefined ? keyedPath(item) : childPath(path, j), newValue: item });
+  });
+};
+
+// Compares two parsed JSON documents; paths use JSONPath notation rooted at "$"
+export const diffJson = (a: unknown, b: unknown, options: Partial<JsonDiffOptions> = {}): JsonChange[] => {
+  const changes: JsonChange[] = [];
+  diffValues(a, b, '$', { ...DEFAULT_JSON_DIFF_OPTIONS, ...options }, changes);
+  return changes;
+};
+
+// Single-line preview of a value for change listings
+export const previewValue = (value: unknown, maxLength = 80): string => {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
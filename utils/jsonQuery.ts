@@ -0,0 +1,916 @@
+import { deepEqual, jsonTypeOf } from './jsonDiff';
+
+export type QueryLanguage = 'jsonpath' | 'jq';
+
+export interface QueryResult {
+  language: QueryLanguage;
+  // JSONPath matches, or the values emitted by a jq filter
+  results: unknown[];
+}
+
+// JSONPath expressions always start at the root "$"; everything else is read as a jq filter
+export const detectQueryLanguage = (query: string): QueryLanguage => (query.trim().startsWith('$') ? 'jsonpath' : 'jq');
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+const isObject = (value: unknown): value is Record<string, unknown> => jsonTypeOf(value) === 'object';
+
+const TYPE_ORDER = ['null', 'boolean', 'number', 'string', 'array', 'object'];
+
+// jq ordering: null < false < true < numbers < strings < arrays < objects
+const compareValues = (a: unknown, b: unknown): number => {
+  const ta = TYPE_ORDER.indexOf(jsonTypeOf(a));
+  const tb = TYPE_ORDER.indexOf(jsonTypeOf(b));
+  if (ta !== tb) return ta - tb;
+  if (typeof a === 'boolean' || typeof a === 'number') return Number(a) - Number(b);
+  if (typeof a === 'string') return a < (b as string) ? -1 : a > (b as string) ? 1 : 0;
+  if (Array.isArray(a)) {
+    const right = b as unknown[];
+    for (let i = 0; i < Math.min(a.length, right.length); i++) {
+      const c = compareValues(a[i], right[i]);
+      if (c !== 0) return c;
+    }
+    return a.length - right.length;
+  }
+  if (isObject(a)) {
+    const left = Object.keys(a).sort();
+    const right = Object.keys(b as Record<string, unknown>).sort();
+    const keys = compareValues(left, right);
+    if (keys !== 0) return keys;
+    for (const key of left) {
+      const c = compareValues(a[key], (b as Record<string, unknown>)[key]);
+      if (c !== 0) return c;
+    }
+  }
+  return 0;
+};
+
+const truthy = (value: unknown) => value !== null && value !== false && value !== undefined;
+
+const describeType = (value: unknown) => `${jsonTypeOf(value)} (${JSON.stringify(value)?.slice(0, 30)})`;
+
+const slice = <T extends string | unknown[]>(value: T, start: number | null, end: number | null): T => {
+  const length = value.length;
+  const clamp = (n: number) => Math.max(0, Math.min(length, n < 0 ? length + n : n));
+  const from = start === null ? 0 : clamp(start);
+  const to = end === null ? length : clamp(end);
+  return value.slice(from, Math.max(from, to)) as T;
+};
+
+// ---------------------------------------------------------------------------
+// Tokenizer shared by both languages
+// ---------------------------------------------------------------------------
+
+type TokenType = 'number' | 'string' | 'interpolation' | 'ident' | 'punct' | 'regex' | 'eof';
+
+// A jq expression inside a string, "\(...)", with the position of its first character
+interface Interpolated {
+  source: string;
+  pos: number;
+}
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: number;
+  // Literal text and embedded expressions of an interpolated jq string
+  parts?: (string | Interpolated)[];
+}
+
+const PUNCTUATION = [
+  '..', '==', '!=', '<=', '>=', '//', '&&', '||', '=~', '?(',
+  '.', '|', ',', '[', ']', '(', ')', '{', '}', ':', ';', '<', '>', '+', '-', '*', '/', '%', '?', '!', '$', '@',
+];
+
+// Index of the ")" closing an interpolation opened just before `from`, skipping nested strings
+const interpolationEnd = (source: string, from: number): number => {
+  let depth = 1;
+  for (let i = from; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '"') {
+      i++;
+      while (i < source.length && source[i] !== '"') i += source[i] === '\\' ? 2 : 1;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// JSONPath is tokenized with allowRegex; jq strings may contain "\(...)" interpolations instead.
+// Positions are reported relative to `offset`, the start of `source` in the whole query.
+const tokenize = (source: string, allowRegex: boolean, offset = 0): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+
+    if (/[0-9]/.test(ch)) {
+      const match = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], pos: offset + start });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      let text = '';
+      const parts: (string | Interpolated)[] = [];
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\') {
+          const escaped = source[j + 1];
+          if (escaped === '(' && !allowRegex && ch === '"') {
+            const end = interpolationEnd(source, j + 2);
+            if (end < 0) throw new Error(`Unterminated string interpolation at position ${offset + j + 1}`);
+            if (text) parts.push(text);
+            parts.push({ source: source.slice(j + 2, end), pos: offset + j + 2 });
+            text = '';
+            j = end + 1;
+            continue;
+          }
+          if (escaped === 'u') {
+            text += String.fromCharCode(parseInt(source.slice(j + 2, j + 6), 16));
+            j += 6;
+            continue;
+          }
+          text += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped;
+          j += 2;
+          continue;
+        }
+        text += source[j++];
+      }
+      if (j >= source.length) throw new Error(`Unterminated string at position ${offset + start + 1}`);
+      if (parts.length) {
+        if (text) parts.push(text);
+        tokens.push({ type: 'interpolation', value: source.slice(start, j + 1), pos: offset + start, parts });
+      } else {
+        tokens.push({ type: 'string', value: text, pos: offset + start });
+      }
+      i = j + 1;
+      continue;
+    }
+
+    // Regex literals only appear after "=~" in JSONPath filters
+    if (allowRegex && ch === '/' && tokens[tokens.length - 1]?.value === '=~') {
+      const match = /^\/((?:\\.|[^/\\])*)\/([a-z]*)/.exec(source.slice(i));
+      if (!match) throw new Error(`Unterminated regular expression at position ${offset + start + 1}`);
+      tokens.push({ type: 'regex', value: match[0], pos: offset + start });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const value = /^[A-Za-z_]\w*/.exec(source.slice(i))![0];
+      tokens.push({ type: 'ident', value, pos: offset + start });
+      i += value.length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((p) => source.startsWith(p, i));
+    if (!punct) throw new Error(`Unexpected character "${ch}" at position ${offset + start + 1}`);
+    tokens.push({ type: 'punct', value: punct, pos: offset + start });
+    i += punct.length;
+  }
+  tokens.push({ type: 'eof', value: '', pos: offset + source.length });
+  return tokens;
+};
+
+class TokenStream {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  next(): Token {
+    return this.tokens[Math.min(this.index++, this.tokens.length - 1)];
+  }
+
+  is(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type !== 'string' && token.value === value;
+  }
+
+  accept(value: string): boolean {
+    if (!this.is(value)) return false;
+    this.index++;
+    return true;
+  }
+
+  expect(value: string): Token {
+    if (!this.is(value)) this.fail(`expected "${value}"`);
+    return this.next();
+  }
+
+  fail(message: string): never {
+    const token = this.peek();
+    const found = token.type === 'eof' ? 'end of query' : `"${token.value}"`;
+    throw new Error(`${message[0].toUpperCase()}${message.slice(1)} at position ${token.pos + 1}, found ${found}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JSONPath
+// ---------------------------------------------------------------------------
+
+type FilterExpr =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; root: '@' | '$'; segments: PathSegment[] }
+  | { kind: 'regex'; regex: RegExp }
+  | { kind: 'not'; operand: FilterExpr }
+  | { kind: 'binary'; op: string; left: FilterExpr; right: FilterExpr };
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'slice'; start: number | null; end: number | null; step: number }
+  | { kind: 'filter'; expr: FilterExpr };
+
+interface PathSegment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+const parseSignedNumber = (stream: TokenStream): number | null => {
+  const negative = stream.accept('-');
+  if (stream.peek().type !== 'number') {
+    if (negative) stream.fail('expected a number');
+    return null;
+  }
+  const n = Number(stream.next().value);
+  return negative ? -n : n;
+};
+
+const parseBracketSelector = (stream: TokenStream): Selector => {
+  if (stream.accept('*')) return { kind: 'wildcard' };
+  if (stream.accept('?(') || (stream.accept('?') && stream.expect('('))) {
+    const expr = parseFilterOr(stream);
+    stream.expect(')');
+    return { kind: 'filter', expr };
+  }
+  if (stream.peek().type === 'string') return { kind: 'name', name: stream.next().value };
+
+  const start = parseSignedNumber(stream);
+  if (!stream.is(':')) {
+    if (start === null) stream.fail('expected a selector');
+    return { kind: 'index', index: start };
+  }
+  stream.next();
+  const end = parseSignedNumber(stream);
+  const step = stream.accept(':') ? parseSignedNumber(stream) ?? 1 : 1;
+  if (step === 0) stream.fail('slice step cannot be 0');
+  return { kind: 'slice', start, end, step };
+};
+
+const parseSegments = (stream: TokenStream, inFilter: boolean): PathSegment[] => {
+  const segments: PathSegment[] = [];
+  for (;;) {
+    if (stream.is('..') || stream.is('.')) {
+      const descendant = stream.next().value === '..';
+      if (stream.accept('*')) segments.push({ descendant, selectors: [{ kind: 'wildcard' }] });
+      else if (stream.peek().type === 'ident' || (stream.peek().type === 'number' && !inFilter)) {
+        segments.push({ descendant, selectors: [{ kind: 'name', name: stream.next().value }] });
+      } else if (descendant && stream.is('[')) {
+        segments.push({ descendant, selectors: parseBracket(stream) });
+      } else stream.fail('expected a member name');
+      continue;
+    }
+    if (stream.is('[')) {
+      segments.push({ descendant: false, selectors: parseBracket(stream) });
+      continue;
+    }
+    return segments;
+  }
+};
+
+const parseBracket = (stream: TokenStream): Selector[] => {
+  stream.expect('[');
+  const selectors = [parseBracketSelector(stream)];
+  while (stream.accept(',')) selectors.push(parseBracketSelector(stream));
+  stream.expect(']');
+  return selectors;
+};
+
+const parseFilterPrimary = (stream: TokenStream): FilterExpr => {
+  const token = stream.peek();
+  if (stream.accept('!')) return { kind: 'not', operand: parseFilterPrimary(stream) };
+  if (stream.accept('(')) {
+    const expr = parseFilterOr(stream);
+    stream.expect(')');
+    return expr;
+  }
+  if (stream.is('@') || stream.is('$')) {
+    const root = stream.next().value as '@' | '$';
+    return { kind: 'path', root, segments: parseSegments(stream, true) };
+  }
+  if (token.type === 'string') return { kind: 'literal', value: stream.next().value };
+  if (token.type === 'number' || stream.is('-')) return { kind: 'literal', value: parseSignedNumber(stream) ?? 0 };
+  if (token.type === 'regex') {
+    const [, body, flags] = /^\/(.*)\/([a-z]*)$/s.exec(stream.next().value)!;
+    return { kind: 'regex', regex: new RegExp(body, flags) };
+  }
+  if (token.type === 'ident' && ['true', 'false', 'null'].includes(token.value)) {
+    stream.next();
+    return { kind: 'literal', value: JSON.parse(token.value) };
+  }
+  return stream.fail('expected a filter operand');
+};
+
+const parseFilterComparison = (stream: TokenStream): FilterExpr => {
+  const left = parseFilterPrimary(stream);
+  const op = ['==', '!=', '<=', '>=', '<', '>', '=~'].find((o) => stream.is(o));
+  if (!op) return left;
+  stream.next();
+  return { kind: 'binary', op, left, right: parseFilterPrimary(stream) };
+};
+
+const parseFilterAnd = (stream: TokenStream): FilterExpr => {
+  let left = parseFilterComparison(stream);
+  while (stream.accept('&&')) left = { kind: 'binary', op: '&&', left, right: parseFilterComparison(stream) };
+  return left;
+};
+
+const parseFilterOr = (stream: TokenStream): FilterExpr => {
+  let left = parseFilterAnd(stream);
+  while (stream.accept('||')) left = { kind: 'binary', op: '||', left, right: parseFilterAnd(stream) };
+  return left;
+};
+
+const children = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return Object.values(value);
+  return [];
+};
+
+const descendants = (value: unknown): unknown[] => [value, ...children(value).flatMap(descendants)];
+
+const applySelector = (value: unknown, selector: Selector, root: unknown): unknown[] => {
+  switch (selector.kind) {
+    case 'name':
+      return isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name) ? [value[selector.name]] : [];
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'wildcard':
+      return children(value);
+    case 'slice': {
+      if (!Array.isArray(value)) return [];
+      // Bounds as in RFC 9535: negative values count from the end, a negative step walks backwards
+      const length = value.length;
+      const normalize = (n: number) => (n < 0 ? length + n : n);
+      const picked: unknown[] = [];
+      if (selector.step > 0) {
+        const lower = Math.max(0, Math.min(length, normalize(selector.start ?? 0)));
+        const upper = Math.max(0, Math.min(length, normalize(selector.end ?? length)));
+        for (let i = lower; i < upper; i += selector.step) picked.push(value[i]);
+      } else {
+        const upper = selector.start === null ? length - 1 : Math.min(length - 1, Math.max(-1, normalize(selector.start)));
+        const lower = selector.end === null ? -1 : Math.min(length - 1, Math.max(-1, normalize(selector.end)));
+        for (let i = upper; i > lower; i += selector.step) picked.push(value[i]);
+      }
+      return picked;
+    }
+    case 'filter':
+      return children(value).filter((item) => truthy(evaluateFilter(selector.expr, item, root)));
+  }
+};
+
+const selectPath = (value: unknown, segments: PathSegment[], root: unknown): unknown[] =>
+  segments.reduce<unknown[]>((nodes, segment) => {
+    const sources = segment.descendant ? nodes.flatMap(descendants) : nodes;
+    return sources.flatMap((node) => segment.selectors.flatMap((selector) => applySelector(node, selector, root)));
+  }, [value]);
+
+// Paths inside filters yield their first match, or undefined when nothing matches
+const evaluateFilter = (expr: FilterExpr, current: unknown, root: unknown): unknown => {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'regex':
+      return expr.regex;
+    case 'path':
+      return selectPath(expr.root === '@' ? current : root, expr.segments, root)[0];
+    case 'not':
+      return !truthy(evaluateFilter(expr.operand, current, root));
+    case 'binary': {
+      if (expr.op === '&&') return truthy(evaluateFilter(expr.left, current, root)) && truthy(evaluateFilter(expr.right, current, root));
+      if (expr.op === '||') return truthy(evaluateFilter(expr.left, current, root)) || truthy(evaluateFilter(expr.right, current, root));
+      const left = evaluateFilter(expr.left, current, root);
+      const right = evaluateFilter(expr.right, current, root);
+      if (expr.op === '=~') return typeof left === 'string' && right instanceof RegExp && right.test(left);
+      if (left === undefined || right === undefined) return expr.op === '!=' ? left !== right : false;
+      if (expr.op === '==') return deepEqual(left, right);
+      if (expr.op === '!=') return !deepEqual(left, right);
+      // Ordering only makes sense between values of the same type
+      if (jsonTypeOf(left) !== jsonTypeOf(right) || !['number', 'string'].includes(jsonTypeOf(left))) return false;
+      const c = compareValues(left, right);
+      return expr.op === '<' ? c < 0 : expr.op === '<=' ? c <= 0 : expr.op === '>' ? c > 0 : c >= 0;
+    }
+  }
+};
+
+export const queryJsonPath = (document: unknown, expression: string): unknown[] => {
+  const stream = new TokenStream(tokenize(expression.trim(), true));
+  stream.expect('$');
+  const segments = parseSegments(stream, false);
+  if (stream.peek().type !== 'eof') stream.fail('unexpected token');
+  return selectPath(document, segments, document);
+};
+
+// ---------------------------------------------------------------------------
+// jq subset
+// ---------------------------------------------------------------------------
+
+type JqNode =
+  | { kind: 'identity' }
+  | { kind: 'recurse' }
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'field'; target: JqNode; name: string; optional: boolean }
+  | { kind: 'index'; target: JqNode; index: JqNode; optional: boolean }
+  | { kind: 'slice'; target: JqNode; start: JqNode | null; end: JqNode | null; optional: boolean }
+  | { kind: 'iterate'; target: JqNode; optional: boolean }
+  | { kind: 'pipe'; left: JqNode; right: JqNode }
+  | { kind: 'comma'; left: JqNode; right: JqNode }
+  | { kind: 'binary'; op: string; left: JqNode; right: JqNode }
+  | { kind: 'negate'; operand: JqNode }
+  | { kind: 'array'; body: JqNode | null }
+  | { kind: 'object'; entries: { key: JqNode; value: JqNode }[] }
+  | { kind: 'call'; name: string; args: JqNode[] }
+  | { kind: 'interpolation'; parts: (string | JqNode)[] };
+
+const parseJqPipe = (stream: TokenStream): JqNode => {
+  let left = parseJqComma(stream);
+  while (stream.accept('|')) left = { kind: 'pipe', left, right: parseJqComma(stream) };
+  return left;
+};
+
+const parseJqComma = (stream: TokenStream): JqNode => {
+  let left = parseJqAlternative(stream);
+  while (stream.accept(',')) left = { kind: 'comma', left, right: parseJqAlternative(stream) };
+  return left;
+};
+
+const parseJqAlternative = (stream: TokenStream): JqNode => {
+  const left = parseJqOr(stream);
+  // "//" is right-associative
+  return stream.accept('//') ? { kind: 'binary', op: '//', left, right: parseJqAlternative(stream) } : left;
+};
+
+const parseJqOr = (stream: TokenStream): JqNode => {
+  let left = parseJqAnd(stream);
+  while (stream.accept('or')) left = { kind: 'binary', op: 'or', left, right: parseJqAnd(stream) };
+  return left;
+};
+
+const parseJqAnd = (stream: TokenStream): JqNode => {
+  let left = parseJqComparison(stream);
+  while (stream.accept('and')) left = { kind: 'binary', op: 'and', left, right: parseJqComparison(stream) };
+  return left;
+};
+
+const parseJqComparison = (stream: TokenStream): JqNode => {
+  const left = parseJqAdditive(stream);
+  const op = ['==', '!=', '<=', '>=', '<', '>'].find((o) => stream.is(o));
+  if (!op) return left;
+  stream.next();
+  return { kind: 'binary', op, left, right: parseJqAdditive(stream) };
+};
+
+const parseJqAdditive = (stream: TokenStream): JqNode => {
+  let left = parseJqMultiplicative(stream);
+  while (stream.is('+') || stream.is('-')) {
+    const op = stream.next().value;
+    left = { kind: 'binary', op, left, right: parseJqMultiplicative(stream) };
+  }
+  return left;
+};
+
+const parseJqMultiplicative = (stream: TokenStream): JqNode => {
+  let left = parseJqPostfix(stream);
+  while (stream.is('*') || stream.is('/') || stream.is('%')) {
+    const op = stream.next().value;
+    left = { kind: 'binary', op, left, right: parseJqPostfix(stream) };
+  }
+  return left;
+};
+
+// Suffixes after a term: .name, ."name", [expr], [], [a:b], ?
+const parseJqSuffixes = (stream: TokenStream, target: JqNode): JqNode => {
+  for (;;) {
+    if (stream.is('.') && (stream.peek(1).type === 'ident' || stream.peek(1).type === 'string')) {
+      stream.next();
+      target = { kind: 'field', target, name: stream.next().value, optional: false };
+    } else if (stream.is('.') && stream.is('[', 1)) {
+      stream.next();
+    } else if (stream.is('[')) {
+      stream.next();
+      if (stream.accept(']')) {
+        target = { kind: 'iterate', target, optional: false };
+        continue;
+      }
+      const start = stream.is(':') ? null : parseJqPipe(stream);
+      if (stream.accept(':')) {
+        const end = stream.is(']') ? null : parseJqPipe(stream);
+        stream.expect(']');
+        target = { kind: 'slice', target, start, end, optional: false };
+      } else {
+        stream.expect(']');
+        target = { kind: 'index', target, index: start!, optional: false };
+      }
+    } else if (stream.is('?') && 'optional' in target) {
+      stream.next();
+      target = { ...target, optional: true };
+    } else {
+      return target;
+    }
+  }
+};
+
+const parseJqObjectKey = (stream: TokenStream): { key: JqNode; shorthand: JqNode | null } => {
+  const token = stream.peek();
+  if (token.type === 'ident' || token.type === 'string') {
+    stream.next();
+    const field: JqNode = { kind: 'field', target: { kind: 'identity' }, name: token.value, optional: false };
+    return { key: { kind: 'literal', value: token.value }, shorthand: field };
+  }
+  if (stream.accept('(')) {
+    const key = parseJqPipe(stream);
+    stream.expect(')');
+    return { key, shorthand: null };
+  }
+  return stream.fail('expected an object key');
+};
+
+const parseJqTerm = (stream: TokenStream): JqNode => {
+  const token = stream.peek();
+
+  if (stream.accept('..')) return { kind: 'recurse' };
+  if (stream.is('.')) {
+    stream.next();
+    const next = stream.peek();
+    if (next.type === 'ident' || next.type === 'string') {
+      stream.next();
+      return { kind: 'field', target: { kind: 'identity' }, name: next.value, optional: false };
+    }
+    return { kind: 'identity' };
+  }
+  if (token.type === 'number') return { kind: 'literal', value: Number(stream.next().value) };
+  if (token.type === 'string') return { kind: 'literal', value: stream.next().value };
+  if (token.type === 'interpolation') {
+    stream.next();
+    return { kind: 'interpolation', parts: token.parts!.map((part) => (typeof part === 'string' ? part : parseJq(part.source, part.pos))) };
+  }
+  if (stream.accept('-')) return { kind: 'negate', operand: parseJqPostfix(stream) };
+  if (stream.accept('(')) {
+    const inner = parseJqPipe(stream);
+    stream.expect(')');
+    return inner;
+  }
+  if (stream.accept('[')) {
+    if (stream.accept(']')) return { kind: 'array', body: null };
+    const body = parseJqPipe(stream);
+    stream.expect(']');
+    return { kind: 'array', body };
+  }
+  if (stream.accept('{')) {
+    const entries: { key: JqNode; value: JqNode }[] = [];
+    if (!stream.is('}')) {
+      do {
+        const { key, shorthand } = parseJqObjectKey(stream);
+        if (stream.accept(':')) entries.push({ key, value: parseJqAlternative(stream) });
+        else if (shorthand) entries.push({ key, value: shorthand });
+        else stream.fail('expected ":"');
+      } while (stream.accept(','));
+    }
+    stream.expect('}');
+    return { kind: 'object', entries };
+  }
+  if (token.type === 'ident') {
+    stream.next();
+    if (['true', 'false', 'null'].includes(token.value)) return { kind: 'literal', value: JSON.parse(token.value) };
+    const args: JqNode[] = [];
+    if (stream.accept('(')) {
+      do args.push(parseJqPipe(stream)); while (stream.accept(';'));
+      stream.expect(')');
+    }
+    return { kind: 'call', name: token.value, args };
+  }
+  return stream.fail('expected a filter');
+};
+
+const parseJqPostfix = (stream: TokenStream): JqNode => parseJqSuffixes(stream, parseJqTerm(stream));
+
+// A whole filter, or the expression of a string interpolation starting at `offset` in the query
+const parseJq = (source: string, offset: number): JqNode => {
+  const stream = new TokenStream(tokenize(source, false, offset));
+  const ast = parseJqPipe(stream);
+  if (stream.peek().type !== 'eof') stream.fail('unexpected token');
+  return ast;
+};
+
+const indexValue = (value: unknown, key: unknown): unknown => {
+  if (value === null) return null;
+  if (typeof key === 'string') {
+    if (!isObject(value)) throw new Error(`Cannot index ${describeType(value)} with "${key}"`);
+    return Object.prototype.hasOwnProperty.call(value, key) ? value[key] : null;
+  }
+  if (typeof key === 'number') {
+    if (!Array.isArray(value)) throw new Error(`Cannot index ${describeType(value)} with a number`);
+    const index = Math.floor(key < 0 ? value.length + key : key);
+    return index >= 0 && index < value.length ? value[index] : null;
+  }
+  throw new Error(`Cannot index ${jsonTypeOf(value)} with ${jsonTypeOf(key)}`);
+};
+
+const add = (a: unknown, b: unknown): unknown => {
+  if (a === null) return b;
+  if (b === null) return a;
+  if (typeof a === 'number' && typeof b === 'number') return a + b;
+  if (typeof a === 'string' && typeof b === 'string') return a + b;
+  if (Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+  if (isObject(a) && isObject(b)) return { ...a, ...b };
+  throw new Error(`${describeType(a)} and ${describeType(b)} cannot be added`);
+};
+
+const arithmetic = (op: string, a: unknown, b: unknown): unknown => {
+  if (op === '+') return add(a, b);
+  if (op === '-' && Array.isArray(a) && Array.isArray(b)) return a.filter((item) => !b.some((x) => deepEqual(x, item)));
+  if (op === '/' && typeof a === 'string' && typeof b === 'string') return a.split(b);
+  if (typeof a !== 'number' || typeof b !== 'number') {
+    throw new Error(`${describeType(a)} and ${describeType(b)} cannot be combined with "${op}"`);
+  }
+  if ((op === '/' || op === '%') && b === 0) throw new Error(`${a} cannot be divided by zero`);
+  return op === '-' ? a - b : op === '*' ? a * b : op === '/' ? a / b : Math.trunc(a) % Math.trunc(b);
+};
+
+const lengthOf = (value: unknown): number => {
+  if (value === null) return 0;
+  if (typeof value === 'number') return Math.abs(value);
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (isObject(value)) return Object.keys(value).length;
+  throw new Error(`${describeType(value)} has no length`);
+};
+
+const expectArray = (value: unknown, name: string): unknown[] => {
+  if (!Array.isArray(value)) throw new Error(`${name} expects an array, got ${describeType(value)}`);
+  return value;
+};
+
+const expectString = (value: unknown, name: string): string => {
+  if (typeof value !== 'string') throw new Error(`${name} expects a string, got ${describeType(value)}`);
+  return value;
+};
+
+const sortBy = (items: unknown[], keys: unknown[][]) =>
+  items.map((item, i) => ({ item, key: keys[i] })).sort((a, b) => compareValues(a.key, b.key));
+
+const flatten = (items: unknown[], depth: number): unknown[] =>
+  items.flatMap((item) => (Array.isArray(item) && depth > 0 ? flatten(item, depth - 1) : [item]));
+
+// Built-ins taking no argument operate on the input alone
+const BUILTINS_0: Record<string, (input: unknown) => unknown[]> = {
+  empty: () => [],
+  not: (input) => [!truthy(input)],
+  length: (input) => [lengthOf(input)],
+  keys: (input) => {
+    if (isObject(input)) return [Object.keys(input).sort()];
+    return [expectArray(input, 'keys').map((_, i) => i)];
+  },
+  values: (input) => (input === null ? [] : [input]),
+  type: (input) => [jsonTypeOf(input)],
+  add: (input) => [children(input).reduce((sum, item) => add(sum, item), null)],
+  sort: (input) => [[...expectArray(input, 'sort')].sort(compareValues)],
+  unique: (input) => [[...expectArray(input, 'unique')].sort(compareValues).filter((item, i, all) => i === 0 || !deepEqual(item, all[i - 1]))],
+  reverse: (input) => [typeof input === 'string' ? [...input].reverse().join('') : [...expectArray(input, 'reverse')].reverse()],
+  first: (input) => [indexValue(input, 0)],
+  last: (input) => [indexValue(input, -1)],
+  min: (input) => [[...expectArray(input, 'min')].sort(compareValues)[0] ?? null],
+  max: (input) => [[...expectArray(input, 'max')].sort(compareValues).pop() ?? null],
+  flatten: (input) => [flatten(expectArray(input, 'flatten'), Infinity)],
+  to_entries: (input) => {
+    if (!isObject(input)) throw new Error(`to_entries expects an object, got ${describeType(input)}`);
+    return [Object.entries(input).map(([key, value]) => ({ key, value }))];
+  },
+  from_entries: (input) => [Object.fromEntries(expectArray(input, 'from_entries').map((entry: any) => [entry.key ?? entry.name ?? entry.k, entry.value ?? entry.v]))],
+  tostring: (input) => [typeof input === 'string' ? input : JSON.stringify(input)],
+  tonumber: (input) => {
+    const n = typeof input === 'number' ? input : Number(input);
+    if (Number.isNaN(n)) throw new Error(`Cannot parse ${describeType(input)} as a number`);
+    return [n];
+  },
+  ascii_downcase: (input) => [expectString(input, 'ascii_downcase').toLowerCase()],
+  ascii_upcase: (input) => [expectString(input, 'ascii_upcase').toUpperCase()],
+  any: (input) => [children(input).some(truthy)],
+  all: (input) => [children(input).every(truthy)],
+  paths: (input) => {
+    const out: unknown[] = [];
+    const walk = (value: unknown, path: (string | number)[]) => {
+      if (Array.isArray(value)) value.forEach((item, i) => { out.push([...path, i]); walk(item, [...path, i]); });
+      else if (isObject(value)) Object.entries(value).forEach(([key, item]) => { out.push([...path, key]); walk(item, [...path, key]); });
+    };
+    walk(input, []);
+    return out;
+  },
+};
+
+const evaluateJq = (node: JqNode, input: unknown): unknown[] => {
+  switch (node.kind) {
+    case 'identity':
+      return [input];
+    case 'recurse':
+      return descendants(input);
+    case 'literal':
+      return [node.value];
+    case 'field':
+      return evaluateJq(node.target, input).flatMap((value) => guard(node.optional, () => [indexValue(value, node.name)]));
+    case 'index':
+      return evaluateJq(node.target, input).flatMap((value) =>
+        evaluateJq(node.index, input).flatMap((key) => guard(node.optional, () => [indexValue(value, key)])));
+    case 'slice':
+      return evaluateJq(node.target, input).flatMap((value) => guard(node.optional, () => {
+        if (value === null) return [null];
+        if (typeof value !== 'string' && !Array.isArray(value)) throw new Error(`Cannot slice ${describeType(value)}`);
+        const bound = (n: JqNode | null) => (n === null ? null : (evaluateJq(n, input)[0] as number));
+        return [slice(value, bound(node.start), bound(node.end))];
+      }));
+    case 'iterate':
+      return evaluateJq(node.target, input).flatMap((value) => guard(node.optional, () => {
+        if (!Array.isArray(value) && !isObject(value)) throw new Error(`Cannot iterate over ${describeType(value)}`);
+        return children(value);
+      }));
+    case 'pipe':
+      return evaluateJq(node.left, input).flatMap((value) => evaluateJq(node.right, value));
+    case 'comma':
+      return [...evaluateJq(node.left, input), ...evaluateJq(node.right, input)];
+    case 'negate':
+      return evaluateJq(node.operand, input).map((value) => arithmetic('-', 0, value));
+    case 'array':
+      return [node.body ? evaluateJq(node.body, input) : []];
+    case 'object':
+      return node.entries.reduce<Record<string, unknown>[]>((objects, entry) =>
+        objects.flatMap((object) => evaluateJq(entry.key, input).flatMap((key) => {
+          const name = expectString(key, 'Object key');
+          return evaluateJq(entry.value, input).map((value) => ({ ...object, [name]: value }));
+        })), [{}]);
+    case 'binary':
+      return evaluateBinary(node.op, node.left, node.right, input);
+    case 'call':
+      return evaluateCall(node.name, node.args, input);
+    case 'interpolation':
+      // One string per combination of outputs, the first interpolation varying fastest as in jq
+      return node.parts.reduceRight<string[]>((suffixes, part) => {
+        if (typeof part === 'string') return suffixes.map((suffix) => part + suffix);
+        const texts = evaluateJq(part, input).map((value) => BUILTINS_0.tostring(value)[0] as string);
+        return suffixes.flatMap((suffix) => texts.map((text) => text + suffix));
+      }, ['']);
+  }
+};
+
+// "?" turns errors into empty output
+const guard = (optional: boolean, run: () => unknown[]): unknown[] => {
+  if (!optional) return run();
+  try {
+    return run();
+  } catch {
+    return [];
+  }
+};
+
+const evaluateBinary = (op: string, left: JqNode, right: JqNode, input: unknown): unknown[] => {
+  if (op === '//') {
+    const values = guard(true, () => evaluateJq(left, input)).filter(truthy);
+    return values.length ? values : evaluateJq(right, input);
+  }
+  if (op === 'and' || op === 'or') {
+    return evaluateJq(left, input).flatMap((l) => {
+      if (op === 'and' && !truthy(l)) return [false];
+      if (op === 'or' && truthy(l)) return [true];
+      return evaluateJq(right, input).map(truthy);
+    });
+  }
+  return evaluateJq(right, input).flatMap((r) => evaluateJq(left, input).map((l) => {
+    switch (op) {
+      case '==': return deepEqual(l, r);
+      case '!=': return !deepEqual(l, r);
+      case '<': return compareValues(l, r) < 0;
+      case '<=': return compareValues(l, r) <= 0;
+      case '>': return compareValues(l, r) > 0;
+      case '>=': return compareValues(l, r) >= 0;
+      default: return arithmetic(op, l, r);
+    }
+  }));
+};
+
+const evaluateCall = (name: string, args: JqNode[], input: unknown): unknown[] => {
+  const arity = `${name}/${args.length}`;
+  if (args.length === 0 && BUILTINS_0[name]) return BUILTINS_0[name](input);
+  const [arg, arg2] = args;
+  const once = (node: JqNode, value: unknown) => evaluateJq(node, value)[0];
+
+  switch (arity) {
+    case 'select/1':
+      return evaluateJq(arg, input).some(truthy) ? [input] : [];
+    case 'map/1':
+      return [children(input).flatMap((item) => evaluateJq(arg, item))];
+    case 'map_values/1':
+      if (isObject(input)) return [Object.fromEntries(Object.entries(input).map(([k, v]) => [k, once(arg, v)]))];
+      return [expectArray(input, 'map_values').map((item) => once(arg, item))];
+    case 'has/1':
+      return evaluateJq(arg, input).map((key) => (isObject(input)
+        ? Object.prototype.hasOwnProperty.call(input, key as string)
+        : typeof key === 'number' && key >= 0 && key < expectArray(input, 'has').length));
+    case 'contains/1':
+      return evaluateJq(arg, input).map((needle) => contains(input, needle));
+    case 'startswith/1':
+      return evaluateJq(arg, input).map((s) => expectString(input, 'startswith').startsWith(expectString(s, 'startswith')));
+    case 'endswith/1':
+      return evaluateJq(arg, input).map((s) => expectString(input, 'endswith').endsWith(expectString(s, 'endswith')));
+    case 'test/1':
+    case 'test/2':
+      return evaluateJq(arg, input).map((pattern) => {
+        const flags = arg2 ? (once(arg2, input) as string) : '';
+        return new RegExp(expectString(pattern, 'test'), flags.replace(/[^gimsuy]/g, '')).test(expectString(input, 'test'));
+      });
+    case 'split/1':
+      return evaluateJq(arg, input).map((sep) => expectString(input, 'split').split(expectString(sep, 'split')));
+    case 'join/1':
+      return evaluateJq(arg, input).map((sep) =>
+        expectArray(input, 'join').map((item) => (item === null ? '' : typeof item === 'string' ? item : JSON.stringify(item)))
+          .join(expectString(sep, 'join')));
+    case 'flatten/1':
+      return [flatten(expectArray(input, 'flatten'), once(arg, input) as number)];
+    case 'sort_by/1':
+    case 'group_by/1':
+    case 'unique_by/1':
+    case 'min_by/1':
+    case 'max_by/1': {
+      const items = expectArray(input, name);
+      const sorted = sortBy(items, items.map((item) => evaluateJq(arg, item)));
+      if (name === 'sort_by') return [sorted.map((s) => s.item)];
+      if (name === 'min_by') return [sorted[0]?.item ?? null];
+      if (name === 'max_by') return [sorted[sorted.length - 1]?.item ?? null];
+      const groups: { key: unknown; items: unknown[] }[] = [];
+      sorted.forEach(({ item, key }) => {
+        const last = groups[groups.length - 1];
+        if (last && deepEqual(last.key, key)) last.items.push(item);
+        else groups.push({ key, items: [item] });
+      });
+      return [name === 'group_by' ? groups.map((g) => g.items) : groups.map((g) => g.items[0])];
+    }
+    case 'any/1':
+      return [children(input).some((item) => evaluateJq(arg, item).some(truthy))];
+    case 'all/1':
+      return [children(input).every((item) => evaluateJq(arg, item).every(truthy))];
+    case 'range/1':
+    case 'range/2': {
+      const from = args.length === 2 ? (once(arg, input) as number) : 0;
+      const to = once(args.length === 2 ? arg2 : arg, input) as number;
+      return Array.from({ length: Math.max(0, Math.ceil(to - from)) }, (_, i) => from + i);
+    }
+    case 'limit/2': {
+      const n = once(arg, input) as number;
+      return evaluateJq(arg2, input).slice(0, Math.max(0, n));
+    }
+    case 'first/1':
+      return evaluateJq(arg, input).slice(0, 1);
+    case 'last/1':
+      return evaluateJq(arg, input).slice(-1);
+    case 'with_entries/1':
+      return evaluateCall('from_entries', [], [children(BUILTINS_0.to_entries(input)[0]).flatMap((entry) => evaluateJq(arg, entry))]);
+    default:
+      throw new Error(`Unknown function ${arity}`);
+  }
+};
+
+const contains = (haystack: unknown, needle: unknown): boolean => {
+  if (typeof haystack === 'string' && typeof needle === 'string') return haystack.includes(needle);
+  if (Array.isArray(haystack) && Array.isArray(needle)) return needle.every((n) => haystack.some((h) => contains(h, n)));
+  if (isObject(haystack) && isObject(needle)) {
+    return Object.entries(needle).every(([key, value]) => Object.prototype.hasOwnProperty.call(haystack, key) && contains(haystack[key], value));
+  }
+  return deepEqual(haystack, needle);
+};
+
+export const queryJq = (document: unknown, filter: string): unknown[] => {
+  return evaluateJq(parseJq(filter.trim(), 0), document);
+};
+
+export const runQuery = (document: unknown, query: string): QueryResult => {
+  const language = detectQueryLanguage(query);
+  const results = language === 'jsonpath' ? queryJsonPath(document, query) : queryJq(document, query);
+  return { language, results };
+};
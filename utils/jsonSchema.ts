@@ -0,0 +1,90 @@
+import Ajv, { ErrorObject } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+
+export type SchemaDraft = 'draft-07' | '2020-12';
+
+export interface SchemaViolation {
+  // JSON pointer of the offending node, "" for the document root
+  pointer: string;
+  // Same location as path segments, as used by the tree editor
+  path: string[];
+  message: string;
+  keyword: string;
+}
+
+export interface CompiledSchema {
+  draft: SchemaDraft;
+  validate: (json: unknown) => SchemaViolation[];
+}
+
+const SCHEMA_STORAGE_KEY = 'formacheck.jsonSchema';
+
+export const loadStoredSchema = (): string => {
+  try {
+    return localStorage.getItem(SCHEMA_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const storeSchema = (schema: string) => {
+  try {
+    if (schema.trim()) localStorage.setItem(SCHEMA_STORAGE_KEY, schema);
+    else localStorage.removeItem(SCHEMA_STORAGE_KEY);
+  } catch {
+    // Storage may be unavailable (private mode, quota); the schema then only lives for the session
+  }
+};
+
+// Documents without "$schema" are treated as draft-07, the most widespread draft
+export const detectSchemaDraft = (schema: unknown): SchemaDraft => {
+  const uri = schema && typeof schema === 'object' ? (schema as Record<string, unknown>).$schema : undefined;
+  if (uri === undefined) return 'draft-07';
+  if (typeof uri === 'string' && uri.includes('2020-12')) return '2020-12';
+  if (typeof uri === 'string' && uri.includes('draft-07')) return 'draft-07';
+  throw new Error(`Unsupported $schema "${String(uri)}": use draft-07 or 2020-12`);
+};
+
+const escapePointerSegment = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+export const pointerToPath = (pointer: string): string[] =>
+  pointer === '' ? [] : pointer.slice(1).split('/').map((s) => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+// Errors about a missing or unexpected property point at that property rather than its parent
+const toViolation = (error: ErrorObject): SchemaViolation => {
+  let pointer = error.instancePath;
+  const params = error.params as Record<string, unknown>;
+  if (error.keyword === 'additionalProperties' && typeof params.additionalProperty === 'string') {
+    pointer += `/${escapePointerSegment(params.additionalProperty)}`;
+  } else if (error.keyword === 'unevaluatedProperties' && typeof params.unevaluatedProperty === 'string') {
+    pointer += `/${escapePointerSegment(params.unevaluatedProperty)}`;
+  }
+
+  let message = error.message || error.keyword;
+  if (error.keyword === 'required') message = `missing required property "${params.missingProperty}"`;
+  else if (error.keyword === 'additionalProperties') message = 'property is not allowed by the schema';
+  else if (error.keyword === 'enum') message = `${message}: ${JSON.stringify(params.allowedValues)}`;
+
+  return { pointer, path: pointerToPath(pointer), message, keyword: error.keyword };
+};
+
+export const compileSchema = (schemaText: string): CompiledSchema => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(schemaText);
+  } catch (e: any) {
+    throw new Error(`Schema is not valid JSON: ${e.message}`);
+  }
+  if (typeof schema !== 'object' && typeof schema !== 'boolean') throw new Error('Schema must be an object or a boolean');
+
+  const draft = detectSchemaDraft(schema);
+  // Unknown keywords and formats are ignored instead of rejecting the schema
+  const options = { allErrors: true, strict: false, logger: false as const };
+  const ajv = draft === '2020-12' ? new Ajv2020(options) : new Ajv(options);
+  const validate = ajv.compile(schema as object);
+
+  return {
+    draft,
+    validate: (json: unknown) => (validate(json) ? [] : (validate.errors || []).map(toViolation)),
+  };
+};
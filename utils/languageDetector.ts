@@ -0,0 +1,216 @@
+import type { Parser, ParserOptions } from 'prettier';
+import { Language } from '../types';
+import * as parserBabel from 'prettier/plugins/babel';
+import * as parserPostcss from 'prettier/plugins/postcss';
+import * as parserTypescript from 'prettier/plugins/typescript';
+import YAML from 'yaml';
+import { parseJsonDialect } from './jsonDialects';
+
+export interface LanguageCandidate {
+  language: Language;
+  // Share of the total evidence, between 0 and 1
+  confidence: number;
+  // true / false once a real parser accepted / rejected the text, undefined when not tried
+  parsed?: boolean;
+}
+
+export interface DetectionResult {
+  language: Language;
+  confidence: number;
+  // Every language with some evidence, best first
+  candidates: LanguageCandidate[];
+}
+
+// Below this confidence the toolbar offers the runner-up candidates
+export const LOW_CONFIDENCE = 0.6;
+
+interface Feature {
+  language: Language;
+  pattern: RegExp;
+  weight: number;
+}
+
+const HTML_TAG_NAMES = 'html|head|body|div|span|p|a|ul|ol|li|table|tr|td|th|br|img|h[1-6]|form|input|button|label|select|option|textarea|script|style|meta|link|header|footer|nav|main|aside|section|article|strong|em|b|i|code|pre|small';
+const HTML_TAGS = new RegExp(`<\\s*\\/?\\s*(${HTML_TAG_NAMES})\\b`, 'i');
+
+// Evidence for each language; every matching pattern adds its weight once
+const FEATURES: Feature[] = [
+  { language: Language.JSON, pattern: /^\s*(\{[\s\S]*\}|\[[\s\S]*\])\s*$/, weight: 3 },
+  { language: Language.JSON, pattern: /^\s*"[^"\n]*"\s*:/m, weight: 2 },
+
+  // Only the syntax strict JSON lacks counts, so plain JSON never looks like either dialect
+  { language: Language.JSONC, pattern: /^\s*(\/\/|\/\*)|,\s*[}\]]/m, weight: 3 },
+  { language: Language.JSON5, pattern: /^\s*[A-Za-z_$][\w$]*\s*:/m, weight: 2 },
+  // An unquoted first key, after optional comments: a YAML flow mapping at best otherwise
+  { language: Language.JSON5, pattern: /^(\s*(\/\/[^\n]*|\/\*[\s\S]*?\*\/))*\s*\{\s*[A-Za-z_$][\w$]*\s*:/, weight: 4 },
+  { language: Language.JSON5, pattern: /'[^'\n]*'\s*[:,}\]]/, weight: 2 },
+
+  { language: Language.XML, pattern: /^\s*<\?xml\s/i, weight: 8 },
+  { language: Language.XML, pattern: /^\s*<[a-zA-Z_][\w.:-]*[\s\S]*>\s*$/, weight: 2 },
+  { language: Language.XML, pattern: /<\/?[a-zA-Z_][\w.-]*:[\w.-]+/, weight: 2 },
+  { language: Language.XML, pattern: /<!\[CDATA\[/, weight: 2 },
+  { language: Language.XML, pattern: new RegExp(`<\\/(?!(${HTML_TAG_NAMES})>)[a-zA-Z_][\\w.:-]*>`, 'i'), weight: 2 },
+
+  { language: Language.HTML, pattern: /^\s*<!doctype\s+html/i, weight: 10 },
+  { language: Language.HTML, pattern: /^\s*<[a-zA-Z!][\s\S]*>\s*$/, weight: 1 },
+  { language: Language.HTML, pattern: HTML_TAGS, weight: 3 },
+  { language: Language.HTML, pattern: /\s(class|id|href|src|style|onclick)=["']/i, weight: 1 },
+
+  { language: Language.CSS, pattern: /^\s*[^\s{}();=][^{}();=]*\{\s*[\w-]+\s*:[^;{}]*;?[^{}]*\}/m, weight: 3 },
+  { language: Language.CSS, pattern: /^\s*[\w-]+\s*:\s*[^;{}\n]+;\s*$/m, weight: 2 },
+  { language: Language.CSS, pattern: /@(media|import|keyframes|font-face|charset|supports)\b/, weight: 3 },
+  { language: Language.CSS, pattern: /:(hover|focus|active|before|after|root|nth-child)\b/, weight: 2 },
+  { language: Language.CSS, pattern: /\b\d+(px|em|rem|vh|vw|%)\b|#[0-9a-fA-F]{3,6}\b/, weight: 1 },
+
+  { language: Language.SQL, pattern: /^\s*(SELECT|INSERT|UPDATE|DELETE|CREATE|ALTER|DROP|TRUNCATE|GRANT|REVOKE|BEGIN|DECLARE|WITH)\b/i, weight: 5 },
+  { language: Language.SQL, pattern: /\b(FROM|WHERE|GROUP BY|ORDER BY|INNER JOIN|LEFT JOIN|RIGHT JOIN|VALUES|PRIMARY KEY|FOREIGN KEY)\b/, weight: 3 },
+  { language: Language.SQL, pattern: /\b(INTO|TABLE|VARCHAR|INTEGER|NOT NULL)\b/i, weight: 1 },
+
+  { language: Language.YAML, pattern: /^(---|%YAML)/, weight: 5 },
+  { language: Language.YAML, pattern: /^(-\s+)?("[^"]*"|'[^']*'|[\w.\/-][\w .\/-]*):(\s|$)/, weight: 3 },
+  { language: Language.YAML, pattern: /^\s+[\w.\/-]+:(\s|$)/m, weight: 1 },
+  { language: Language.YAML, pattern: /(^[ \t]*(-[ \t]+)?[\w.\/-]+:([ \t].*)?\n){3,}/m, weight: 3 },
+  { language: Language.YAML, pattern: /^\s*-\s+[\w"'][^\n]*$/m, weight: 1 },
+
+  { language: Language.MARKDOWN, pattern: /^#{1,6}\s+\S/m, weight: 4 },
+  { language: Language.MARKDOWN, pattern: /^```/m, weight: 3 },
+  { language: Language.MARKDOWN, pattern: /^\s*([-*+]|\d+\.)\s+\S/m, weight: 1 },
+  { language: Language.MARKDOWN, pattern: /\[[^\]\n]+\]\([^)\n]+\)/, weight: 1 },
+  { language: Language.MARKDOWN, pattern: /^>\s/m, weight: 1 },
+  { language: Language.MARKDOWN, pattern: /\*\*[^*\n]+\*\*|__[^_\n]+__/, weight: 1 },
+
+  // Not followed by "=", so that the HTML attribute class="..." does not count
+  { language: Language.JAVASCRIPT, pattern: /\b(const|let|var|function|return|import|export|class|new)\b(?!=)/, weight: 3 },
+  { language: Language.JAVASCRIPT, pattern: /=>|===|!==|\+\+|&&|\|\|/, weight: 2 },
+  { language: Language.JAVASCRIPT, pattern: /\b(console|document|window|require|module\.exports|JSON|Promise)\b/, weight: 2 },
+  { language: Language.JAVASCRIPT, pattern: /[;})]\s*$/m, weight: 1 },
+
+  { language: Language.TYPESCRIPT, pattern: /\b(interface|type)\s+[A-Z]\w*(<[^>]*>)?\s*(=|\{|extends)/, weight: 5 },
+  { language: Language.TYPESCRIPT, pattern: /[\w)]\??\s*:\s*(string|number|boolean|any|void|never|unknown|object)(\[\])?\b/, weight: 4 },
+  { language: Language.TYPESCRIPT, pattern: /\b(private|protected|public|readonly)\s+\w+/, weight: 2 },
+  { language: Language.TYPESCRIPT, pattern: /\benum\s+\w+\s*\{|\bnamespace\s+\w+\s*\{|\bimplements\s+[A-Z]/, weight: 3 },
+  { language: Language.TYPESCRIPT, pattern: /\bas\s+(const|string|number|any|unknown|[A-Z]\w*)\b/, weight: 2 },
+  { language: Language.TYPESCRIPT, pattern: /\w<[A-Z]\w*(\[\])?>\s*\(/, weight: 1 },
+];
+
+// Parsing is skipped above this size to keep detection instant
+const MAX_PARSE_LENGTH = 500_000;
+
+const tryParse = (parse: () => unknown): boolean => {
+  try {
+    parse();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The babel, typescript and postcss parsers run synchronously and read none of the options
+const prettierParses = (parser: Parser, text: string): boolean =>
+  tryParse(() => parser.parse(text, {} as ParserOptions));
+
+// Real parsers for the languages that have one. HTML is not listed: its parser accepts any text.
+const PARSERS: Partial<Record<Language, (text: string) => boolean>> = {
+  [Language.JSON]: (text) => tryParse(() => JSON.parse(text)),
+  [Language.JSONC]: (text) => tryParse(() => parseJsonDialect(text, Language.JSONC)),
+  [Language.JSON5]: (text) => tryParse(() => parseJsonDialect(text, Language.JSON5)),
+  [Language.JAVASCRIPT]: (text) => prettierParses(parserBabel.parsers.babel, text),
+  [Language.TYPESCRIPT]: (text) => prettierParses(parserTypescript.parsers.typescript, text),
+  [Language.CSS]: (text) => prettierParses(parserPostcss.parsers.css, text),
+  // Prose parses as a YAML string and a Markdown list as a sequence, so only documents holding a mapping count
+  [Language.YAML]: (text) =>
+    tryParse(() => {
+      const documents = YAML.parseAllDocuments(text);
+      if (!Array.isArray(documents)) throw new Error('Empty YAML stream');
+      for (const doc of documents) {
+        const { contents } = doc;
+        const hasMapping = YAML.isMap(contents) || (YAML.isSeq(contents) && contents.items.some((item) => YAML.isMap(item)));
+        if (doc.errors.length > 0 || !hasMapping) throw new Error('Not YAML data');
+      }
+    }),
+};
+
+// How many of the best-scoring candidates get confirmed with a parser
+const CONFIRMED_CANDIDATES = 3;
+
+export const detectLanguageCandidates = (content: string): DetectionResult => {
+  const trimmed = content.trim();
+  if (!trimmed) return { language: Language.JSON, confidence: 0, candidates: [] };
+
+  const scores = new Map<Language, number>();
+  for (const { language, pattern, weight } of FEATURES) {
+    if (pattern.test(trimmed)) scores.set(language, (scores.get(language) ?? 0) + weight);
+  }
+  // Valid TypeScript is a superset of JavaScript, so JavaScript evidence counts for both
+  const typingEvidence = scores.get(Language.TYPESCRIPT) ?? 0;
+  if (typingEvidence > 0) {
+    scores.set(Language.TYPESCRIPT, typingEvidence + (scores.get(Language.JAVASCRIPT) ?? 0) / 2);
+  }
+
+  const parsed = new Map<Language, boolean>();
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (trimmed.length <= MAX_PARSE_LENGTH) {
+    for (const [language] of ranked.slice(0, CONFIRMED_CANDIDATES)) {
+      const parse = PARSERS[language];
+      if (parse) parsed.set(language, parse(trimmed));
+    }
+    // TypeScript only wins over JavaScript when the JavaScript parser rejects the text
+    // or it carries typing syntax of its own
+    if (parsed.get(Language.TYPESCRIPT) && parsed.get(Language.JAVASCRIPT) && typingEvidence < 4) {
+      parsed.delete(Language.TYPESCRIPT);
+    }
+  }
+
+  // A successful parse is strong evidence, a failed one all but rules the language out
+  for (const [language, ok] of parsed) {
+    const score = scores.get(language) ?? 0;
+    scores.set(language, ok ? score * 3 : score * 0.2);
+  }
+
+  const total = [...scores.values()].reduce((sum, score) => sum + score, 0);
+  if (total === 0) return { language: Language.JAVASCRIPT, confidence: 0, candidates: [] };
+
+  const candidates = [...scores.entries()]
+    .filter(([, score]) => score > 0)
+    .map(([language, score]) => ({ language, confidence: score / total, parsed: parsed.get(language) }))
+    .sort((a, b) => b.confidence - a.confidence);
+  return { language: candidates[0].language, confidence: candidates[0].confidence, candidates };
+};
+
+export const detectLanguage = (content: string): Language => detectLanguageCandidates(content).language;
+
+// File extensions that settle the language without looking at the content
+export const EXTENSION_LANGUAGES: Record<string, Language> = {
+  json: Language.JSON,
+  jsonc: Language.JSONC,
+  json5: Language.JSON5,
+  js: Language.JAVASCRIPT,
+  mjs: Language.JAVASCRIPT,
+  cjs: Language.JAVASCRIPT,
+  jsx: Language.JAVASCRIPT,
+  ts: Language.TYPESCRIPT,
+  mts: Language.TYPESCRIPT,
+  cts: Language.TYPESCRIPT,
+  tsx: Language.TYPESCRIPT,
+  html: Language.HTML,
+  htm: Language.HTML,
+  css: Language.CSS,
+  xml: Language.XML,
+  svg: Language.XML,
+  xsd: Language.XML,
+  xsl: Language.XML,
+  sql: Language.SQL,
+  yaml: Language.YAML,
+  yml: Language.YAML,
+  md: Language.MARKDOWN,
+  markdown: Language.MARKDOWN,
+};
+
+// Files conventionally written as JSON with comments, despite their name
+const JSONC_FILES = /(^|[\\/])(\.vscode[\\/][^\\/]+\.json|[jt]sconfig(\.[\w-]+)?\.json|\.eslintrc\.json|\.babelrc|\.?devcontainer\.json)$/i;
+
+export const languageFromPath = (path: string): Language | undefined => {
+  if (JSONC_FILES.test(path)) return Language.JSONC;
+  const extension = path.split(/[\\/]/).pop()!.split('.');
+  return extension.length > 1 ? EXTENSION_LANGUAGES[extension.pop()!.toLowerCase()] : undefined;
+};
@@ -0,0 +1,46 @@
+import { Language } from '../types';
+
+// Monaco has no JSONC / JSON5 mode, and its JSON mode flags every comment. Both dialects get a
+// tokenizer of their own, whose ".json" token suffix picks up the theme colours of JSON.
+const JSON_DIALECT_TOKENS = {
+  tokenPostfix: '.json',
+  tokenizer: {
+    root: [
+      [/\s+/, ''],
+      [/\/\/.*$/, 'comment'],
+      [/\/\*/, 'comment', '@comment'],
+      [/("([^"\\]|\\.)*"|'([^'\\]|\\.)*'|[A-Za-z_$][\w$]*)(?=\s*:)/, 'string.key'],
+      [/"([^"\\]|\\.)*"|'([^'\\]|\\.)*'/, 'string.value'],
+      [/[+-]?(0[xX][\da-fA-F]+|Infinity|NaN|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/, 'number'],
+      [/true|false|null/, 'keyword'],
+      [/[{}[\]]/, 'delimiter.bracket'],
+      [/[,:]/, 'delimiter'],
+    ],
+    comment: [
+      [/[^*]+/, 'comment'],
+      [/\*\//, 'comment', '@pop'],
+      [/\*/, 'comment'],
+    ],
+  },
+};
+
+const JSON_DIALECT_CONFIGURATION = {
+  comments: { lineComment: '//', blockComment: ['/*', '*/'] },
+  brackets: [['{', '}'], ['[', ']']],
+  autoClosingPairs: [
+    { open: '{', close: '}' },
+    { open: '[', close: ']' },
+    { open: '"', close: '"' },
+    { open: "'", close: "'" },
+  ],
+};
+
+// Meant for the beforeMount hook of every editor; registering twice is a no-op
+export const registerJsonDialects = (monaco: any) => {
+  for (const id of [Language.JSONC, Language.JSON5]) {
+    if (monaco.languages.getLanguages().some((language: { id: string }) => language.id === id)) continue;
+    monaco.languages.register({ id });
+    monaco.languages.setMonarchTokensProvider(id, JSON_DIALECT_TOKENS);
+    monaco.languages.setLanguageConfiguration(id, JSON_DIALECT_CONFIGURATION);
+  }
+};
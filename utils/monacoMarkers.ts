@@ -0,0 +1,41 @@
+import { Diagnostic } from '../types';
+
+export const MARKER_OWNER = 'formacheck';
+
+// Renders diagnostics as Monaco markers (squiggles + hover messages) on the given model
+export const setDiagnosticMarkers = (monaco: any, model: any, diagnostics: Diagnostic[]) => {
+  if (!monaco || !model || model.isDisposed()) return;
+
+  const severities: Record<Diagnostic['severity'], number> = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info,
+  };
+
+  const markers = diagnostics.map((d) => {
+    const line = Math.min(Math.max(d.line, 1), model.getLineCount());
+    const endLine = d.endLine ?? line;
+    // Without an explicit end, underline until the end of the word (or at least one character)
+    const word = model.getWordAtPosition({ lineNumber: line, column: d.column });
+    const endColumn = d.endColumn ?? Math.max(word?.endColumn ?? 0, d.column + 1);
+    return {
+      severity: severities[d.severity],
+      message: d.message,
+      startLineNumber: line,
+      startColumn: d.column,
+      endLineNumber: endLine,
+      endColumn,
+    };
+  });
+
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+};
+
+// Moves the cursor to a diagnostic and scrolls it into view
+export const revealDiagnostic = (editor: any, diagnostic: Diagnostic) => {
+  if (!editor) return;
+  const position = { lineNumber: diagnostic.line, column: diagnostic.column };
+  editor.setPosition(position);
+  editor.revealPositionInCenter(position);
+  editor.focus();
+};
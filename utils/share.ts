@@ -0,0 +1,131 @@
+import { Language, MergeInputs, ViewMode } from '../types';
+
+// What a share link carries: enough to reopen the same view, nothing else
+export interface SharedState {
+  viewMode: ViewMode;
+  language: Language;
+  // Input / output in Formatter mode, original / modified in Diff mode
+  input: string;
+  output: string;
+  merge: MergeInputs;
+}
+
+// Links longer than this get cut off by some chat apps and mail clients
+export const SHARE_LINK_WARN_LENGTH = 2_000;
+// Browsers refuse to open longer URLs
+export const MAX_SHARE_LINK_LENGTH = 2_000_000;
+
+// "#share=z.<data>" is compressed only, "#share=e.<data>" is also encrypted with a passphrase
+const FRAGMENT_PREFIX = '#share=';
+const PBKDF2_ITERATIONS = 250_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const VIEW_MODES: ViewMode[] = ['formatter', 'diff', 'merge'];
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Anything can be typed into a URL, so the decoded payload is checked field by field
+const toSharedState = (value: any): SharedState => {
+  const merge = value?.merge ?? {};
+  if (
+    !VIEW_MODES.includes(value?.viewMode) ||
+    !Object.values(Language).includes(value?.language) ||
+    !isString(value.input) ||
+    !isString(value.output) ||
+    ![merge.base, merge.ours, merge.theirs].every(isString)
+  ) {
+    throw new Error('The shared link is not valid');
+  }
+  return {
+    viewMode: value.viewMode,
+    language: value.language,
+    input: value.input,
+    output: value.output,
+    merge: { base: merge.base, ours: merge.ours, theirs: merge.theirs },
+  };
+};
+
+export const isShareFragment = (hash: string): boolean => hash.startsWith(FRAGMENT_PREFIX);
+
+export const isEncryptedShareFragment = (hash: string): boolean => hash.startsWith(`${FRAGMENT_PREFIX}e.`);
+
+// Builds the "#share=…" fragment for a state, encrypted when a passphrase is given
+export const encodeShareFragment = async (state: SharedState, passphrase: string = ''): Promise<string> => {
+  const compressed = await pipe(new TextEncoder().encode(JSON.stringify(state)), new CompressionStream('deflate-raw'));
+  if (!passphrase) return `${FRAGMENT_PREFIX}z.${toBase64Url(compressed)}`;
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, compressed));
+  const payload = new Uint8Array(SALT_BYTES + IV_BYTES + encrypted.length);
+  payload.set(salt);
+  payload.set(iv, SALT_BYTES);
+  payload.set(encrypted, SALT_BYTES + IV_BYTES);
+  return `${FRAGMENT_PREFIX}e.${toBase64Url(payload)}`;
+};
+
+// Reverses encodeShareFragment; encrypted fragments need the passphrase they were made with
+export const decodeShareFragment = async (hash: string, passphrase: string = ''): Promise<SharedState> => {
+  if (!isShareFragment(hash)) throw new Error('The link does not hold shared code');
+  const [kind, data = ''] = hash.slice(FRAGMENT_PREFIX.length).split('.');
+
+  let compressed: Uint8Array;
+  try {
+    compressed = fromBase64Url(data);
+  } catch {
+    throw new Error('The shared link is damaged: it may have been cut off');
+  }
+
+  if (kind === 'e') {
+    if (!passphrase) throw new Error('This link is protected by a passphrase');
+    const salt = compressed.subarray(0, SALT_BYTES);
+    const iv = compressed.subarray(SALT_BYTES, SALT_BYTES + IV_BYTES);
+    try {
+      const key = await deriveKey(passphrase, salt);
+      compressed = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, compressed.subarray(SALT_BYTES + IV_BYTES)));
+    } catch {
+      throw new Error('Wrong passphrase, or the link is damaged');
+    }
+  } else if (kind !== 'z') {
+    throw new Error('The shared link was made by an unsupported version');
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(new TextDecoder().decode(await pipe(compressed, new DecompressionStream('deflate-raw'))));
+  } catch {
+    throw new Error('The shared link is damaged: it may have been cut off');
+  }
+  return toSharedState(decoded);
+};
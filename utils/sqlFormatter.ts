@@ -0,0 +1,509 @@
+import { KeywordCase, SqlDialect, SqlFormatOptions } from '../types';
+
+export const DEFAULT_SQL_OPTIONS: SqlFormatOptions = {
+  dialect: 'postgresql',
+  keywordCase: 'upper',
+};
+
+type SqlTokenType =
+  | 'whitespace'
+  | 'line-comment'
+  | 'block-comment'
+  | 'string'
+  | 'quoted-identifier'
+  | 'number'
+  | 'word'
+  | 'parameter'
+  | 'operator'
+  | 'open-paren'
+  | 'close-paren'
+  | 'comma'
+  | 'semicolon'
+  | 'dot';
+
+interface SqlToken {
+  type: SqlTokenType;
+  value: string;
+}
+
+// Keywords which start a new clause on their own line, with the clause body indented below
+const CLAUSE_KEYWORDS = new Set([
+  'SELECT', 'SELECT DISTINCT', 'SELECT ALL', 'FROM', 'WHERE', 'GROUP BY', 'ORDER BY', 'HAVING',
+  'LIMIT', 'OFFSET', 'FETCH FIRST', 'FETCH NEXT', 'SET', 'VALUES', 'WITH', 'WITH RECURSIVE',
+  'INSERT INTO', 'INSERT', 'REPLACE INTO', 'UPDATE', 'DELETE FROM', 'DELETE', 'RETURNING',
+  'WINDOW', 'QUALIFY', 'ON CONFLICT', 'ON DUPLICATE KEY UPDATE', 'CREATE TABLE',
+  'CREATE TABLE IF NOT EXISTS', 'CREATE VIEW', 'CREATE OR REPLACE VIEW', 'CREATE INDEX',
+  'CREATE UNIQUE INDEX', 'ALTER TABLE', 'DROP TABLE', 'DROP TABLE IF EXISTS', 'TRUNCATE TABLE',
+  'ADD', 'ADD COLUMN', 'DROP COLUMN', 'ALTER COLUMN', 'MODIFY COLUMN', 'RENAME TO', 'USING',
+  'MERGE INTO', 'WHEN MATCHED THEN', 'WHEN NOT MATCHED THEN', 'OUTPUT', 'INTO',
+]);
+
+// Keywords which separate two complete queries
+const SET_OPERATORS = new Set([
+  'UNION', 'UNION ALL', 'UNION DISTINCT', 'INTERSECT', 'INTERSECT ALL', 'EXCEPT', 'EXCEPT ALL', 'MINUS',
+]);
+
+// Keywords starting a new line at clause level, followed by their operand on the same line
+const JOIN_KEYWORDS = new Set([
+  'JOIN', 'INNER JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'FULL JOIN', 'CROSS JOIN', 'NATURAL JOIN',
+  'LEFT OUTER JOIN', 'RIGHT OUTER JOIN', 'FULL OUTER JOIN', 'CROSS APPLY', 'OUTER APPLY',
+  'STRAIGHT_JOIN', 'LATERAL JOIN', 'LEFT JOIN LATERAL', 'CROSS JOIN LATERAL',
+]);
+
+// Clauses naming a table which may be followed by a parenthesized column list
+const TABLE_DEFINITION_CLAUSES = new Set([
+  'INSERT INTO', 'INSERT', 'REPLACE INTO', 'CREATE TABLE', 'CREATE TABLE IF NOT EXISTS', 'CREATE VIEW',
+  'CREATE OR REPLACE VIEW', 'CREATE INDEX', 'CREATE UNIQUE INDEX', 'MERGE INTO',
+]);
+
+// Multi-word phrases, merged into a single token before formatting (longest match first)
+const PHRASES = [
+  ...CLAUSE_KEYWORDS, ...SET_OPERATORS, ...JOIN_KEYWORDS,
+  'PARTITION BY', 'IS NOT', 'NOT NULL', 'PRIMARY KEY', 'FOREIGN KEY', 'IS NOT NULL', 'IS NULL',
+  'NOT IN', 'NOT LIKE', 'NOT EXISTS', 'NOT BETWEEN', 'ORDER SIBLINGS BY',
+]
+  .filter((phrase) => phrase.includes(' '))
+  .map((phrase) => phrase.split(' '))
+  .sort((a, b) => b.length - a.length);
+
+const RESERVED_WORDS = new Set([
+  'ADD', 'ALL', 'ALTER', 'AND', 'ANY', 'AS', 'ASC', 'BEGIN', 'BETWEEN', 'BY', 'CASCADE', 'CASE',
+  'CAST', 'CHECK', 'COLUMN', 'COMMIT', 'CONSTRAINT', 'CREATE', 'CROSS', 'CURRENT_DATE',
+  'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'DATABASE', 'DECLARE', 'DEFAULT', 'DELETE', 'DESC',
+  'DISTINCT', 'DROP', 'ELSE', 'END', 'ESCAPE', 'EXCEPT', 'EXEC', 'EXISTS', 'FALSE', 'FETCH',
+  'FIRST', 'FOR', 'FOREIGN', 'FROM', 'FULL', 'GRANT', 'GROUP', 'HAVING', 'IF', 'ILIKE', 'IN',
+  'INDEX', 'INNER', 'INSERT', 'INTERSECT', 'INTO', 'IS', 'JOIN', 'KEY', 'LATERAL', 'LEFT', 'LIKE',
+  'LIMIT', 'NATURAL', 'NEXT', 'NOT', 'NULL', 'NULLS', 'OFFSET', 'ON', 'ONLY', 'OR', 'ORDER',
+  'OUTER', 'OVER', 'PARTITION', 'PRIMARY', 'PROCEDURE', 'RECURSIVE', 'REFERENCES', 'REPLACE',
+  'RETURNING', 'REVOKE', 'RIGHT', 'ROLLBACK', 'ROWS', 'SELECT', 'SET', 'TABLE', 'THEN', 'TO',
+  'TOP', 'TRANSACTION', 'TRUE', 'TRUNCATE', 'UNION', 'UNIQUE', 'UPDATE', 'USING', 'VALUES', 'VIEW',
+  'WHEN', 'WHERE', 'WINDOW', 'WITH', 'AUTO_INCREMENT', 'AUTOINCREMENT', 'IDENTITY', 'SERIAL',
+  'INT', 'INTEGER', 'BIGINT', 'SMALLINT', 'TINYINT', 'DECIMAL', 'NUMERIC', 'REAL', 'FLOAT',
+  'DOUBLE', 'PRECISION', 'CHAR', 'VARCHAR', 'NVARCHAR', 'TEXT', 'BOOLEAN', 'BOOL', 'DATE', 'TIME',
+  'TIMESTAMP', 'TIMESTAMPTZ', 'INTERVAL', 'BLOB', 'JSON', 'JSONB', 'UUID', 'BIT', 'MATCHED',
+  'MERGE', 'OUTPUT', 'APPLY', 'GO', 'QUALIFY', 'MINUS', 'CONFLICT', 'DO', 'NOTHING', 'DUPLICATE',
+  'RETURNS', 'LANGUAGE', 'FUNCTION', 'TRIGGER', 'EXPLAIN', 'ANALYZE', 'PRAGMA', 'SHOW',
+  'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'NULLIF', 'ROW_NUMBER', 'RANK', 'DENSE_RANK',
+  'LOWER', 'UPPER', 'SUBSTRING', 'TRIM', 'NOW', 'EXTRACT',
+]);
+
+// Reserved words which are written like function calls, e.g. COUNT(*)
+const FUNCTION_KEYWORDS = new Set([
+  'CAST', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'NULLIF', 'ROW_NUMBER', 'RANK',
+  'DENSE_RANK', 'LOWER', 'UPPER', 'SUBSTRING', 'TRIM', 'NOW', 'EXTRACT', 'EXISTS', 'CHAR',
+  'VARCHAR', 'NVARCHAR', 'DECIMAL', 'NUMERIC', 'FLOAT', 'REPLACE', 'LEFT', 'RIGHT', 'IF',
+  'CURRENT_DATE', 'DATE', 'TIME', 'TIMESTAMP', 'BIT', 'TOP',
+]);
+
+const MULTI_CHAR_OPERATORS = [
+  '->>', '#>>', '<=>', '::', '<>', '!=', '<=', '>=', '||', '->', '#>', '@>', '<@', '?|', '?&',
+  ':=', '<<', '>>', '**', '!~*', '~*', '!~', '&&', '+=', '-=', '*=', '/=',
+];
+
+const isWordStart = (ch: string) => /[A-Za-z_\u0080-\uffff]/.test(ch);
+const isWordChar = (ch: string) => /[\w$\u0080-\uffff]/.test(ch);
+
+// Reads a quoted section starting at `start`, where `quote` closes it.
+// Doubling the closing quote always escapes it; backslashes only when `backslash` is set.
+const readQuoted = (code: string, start: number, open: number, quote: string, backslash: boolean): number => {
+  let i = start + open;
+  while (i < code.length) {
+    const ch = code[i];
+    if (backslash && ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === quote) {
+      if (code[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return code.length;
+};
+
+export const tokenizeSql = (code: string, dialect: SqlDialect): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number) => {
+    tokens.push({ type, value: code.slice(i, end) });
+    i = end;
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1] ?? '';
+
+    if (/\s/.test(ch)) {
+      let end = i + 1;
+      while (end < code.length && /\s/.test(code[end])) end++;
+      push('whitespace', end);
+      continue;
+    }
+
+    // Comments
+    if ((ch === '-' && next === '-') || (ch === '#' && dialect === 'mysql')) {
+      const end = code.indexOf('\n', i);
+      push('line-comment', end === -1 ? code.length : end);
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      push('block-comment', end === -1 ? code.length : end + 2);
+      continue;
+    }
+
+    // String literals, including prefixed forms such as N'...', E'...' and X'...'
+    if (/[NnEeXxBb]/.test(ch) && next === "'") {
+      const backslash = dialect === 'mysql' || ch.toUpperCase() === 'E';
+      push('string', readQuoted(code, i, 2, "'", backslash));
+      continue;
+    }
+    if (ch === "'") {
+      push('string', readQuoted(code, i, 1, "'", dialect === 'mysql'));
+      continue;
+    }
+    if (ch === '"') {
+      // MySQL treats double quotes as strings unless ANSI_QUOTES is enabled
+      const type = dialect === 'mysql' ? 'string' : 'quoted-identifier';
+      push(type, readQuoted(code, i, 1, '"', dialect === 'mysql'));
+      continue;
+    }
+    if (ch === '`' && (dialect === 'mysql' || dialect === 'sqlite')) {
+      push('quoted-identifier', readQuoted(code, i, 1, '`', false));
+      continue;
+    }
+    if (ch === '[' && (dialect === 'tsql' || dialect === 'sqlite')) {
+      push('quoted-identifier', readQuoted(code, i, 1, ']', false));
+      continue;
+    }
+
+    // PostgreSQL dollar-quoted strings: $$...$$ or $tag$...$tag$
+    if (ch === '$' && dialect === 'postgresql') {
+      const tag = /^\$([A-Za-z_][\w]*)?\$/.exec(code.slice(i));
+      if (tag) {
+        const end = code.indexOf(tag[0], i + tag[0].length);
+        push('string', end === -1 ? code.length : end + tag[0].length);
+        continue;
+      }
+    }
+
+    // Numbers
+    const number = /^(0x[0-9a-f]+|(\d+\.?\d*|\.\d+)(e[+-]?\d+)?)/i.exec(code.slice(i));
+    if (number && (/\d/.test(ch) || (ch === '.' && /\d/.test(next)))) {
+      push('number', i + number[0].length);
+      continue;
+    }
+
+    // Parameters and variables: ?, ?1, $1, :name, @name, @@global
+    const parameter = /^(\?\d*|\$\d+|:[A-Za-z_]\w*|@@?[A-Za-z_][\w$]*)/.exec(code.slice(i));
+    if (parameter && !(ch === ':' && next === ':') && !(ch === '?' && /[|&]/.test(next))) {
+      push('parameter', i + parameter[0].length);
+      continue;
+    }
+
+    // Words (keywords and identifiers), including T-SQL temporary tables (#temp)
+    if (isWordStart(ch) || (ch === '#' && dialect === 'tsql' && isWordStart(next))) {
+      let end = i + 1;
+      while (end < code.length && isWordChar(code[end])) end++;
+      push('word', end);
+      continue;
+    }
+
+    if (ch === '(') { push('open-paren', i + 1); continue; }
+    if (ch === ')') { push('close-paren', i + 1); continue; }
+    if (ch === ',') { push('comma', i + 1); continue; }
+    if (ch === ';') { push('semicolon', i + 1); continue; }
+    if (ch === '.') { push('dot', i + 1); continue; }
+
+    const operator = MULTI_CHAR_OPERATORS.find((op) => code.startsWith(op, i));
+    push('operator', i + (operator ? operator.length : 1));
+  }
+
+  return tokens;
+};
+
+const applyKeywordCase = (word: string, keywordCase: KeywordCase) => {
+  if (keywordCase === 'upper') return word.toUpperCase();
+  if (keywordCase === 'lower') return word.toLowerCase();
+  return word;
+};
+
+// Drops whitespace and merges multi-word keywords ("GROUP", "BY") into a single token.
+// Keywords following a dot are qualified names, so they are demoted to plain identifiers.
+const prepareTokens = (tokens: SqlToken[]) => {
+  const significant = tokens.filter((t) => t.type !== 'whitespace');
+  const result: Array<SqlToken & { keyword?: string }> = [];
+
+  for (let i = 0; i < significant.length; i++) {
+    const token = significant[i];
+    const previous = result[result.length - 1];
+    if (token.type !== 'word' || previous?.type === 'dot') {
+      result.push(token);
+      continue;
+    }
+
+    const upper = token.value.toUpperCase();
+    const phrase = PHRASES.find((words) =>
+      words.every((w, offset) => {
+        const candidate = significant[i + offset];
+        return candidate?.type === 'word' && candidate.value.toUpperCase() === w;
+      })
+    );
+
+    if (phrase) {
+      const parts = significant.slice(i, i + phrase.length).map((t) => t.value);
+      result.push({ type: 'word', value: parts.join(' '), keyword: phrase.join(' ') });
+      i += phrase.length - 1;
+    } else if (RESERVED_WORDS.has(upper)) {
+      result.push({ ...token, keyword: upper });
+    } else {
+      result.push(token);
+    }
+  }
+
+  return result;
+};
+
+interface Block {
+  kind: 'subquery' | 'list' | 'paren' | 'case';
+  // Clause level to restore once the block is closed
+  outerLevel: number;
+  // Indentation level of the line on which the block was opened
+  lineLevel: number;
+}
+
+export const formatSql = (code: string, options: Partial<SqlFormatOptions> = {}, indentUnit = '  '): string => {
+  const { dialect, keywordCase } = { ...DEFAULT_SQL_OPTIONS, ...options };
+  const tokens = prepareTokens(tokenizeSql(code, dialect));
+
+  let output = '';
+  let clauseLevel = 0;
+  let lineLevel = 0;
+  let currentClause = '';
+  let betweenPending = false;
+  const blocks: Block[] = [];
+
+  const top = () => blocks[blocks.length - 1];
+  const inInlineParen = () => blocks.some((b) => b.kind === 'paren');
+
+  const newline = (level: number) => {
+    output = output.replace(/[ \t]+$/, '');
+    if (output.length > 0 && !output.endsWith('\n')) output += '\n';
+    output += indentUnit.repeat(level);
+    lineLevel = level;
+  };
+
+  const atLineStart = () => output.length === 0 || /\n[ \t]*$/.test(output);
+
+  const write = (text: string, spaceBefore: boolean) => {
+    if (spaceBefore && !atLineStart() && !/[ \t]$/.test(output)) output += ' ';
+    output += text;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    const nextToken = tokens.slice(i + 1).find((t) => t.type !== 'line-comment' && t.type !== 'block-comment');
+    const keyword = token.keyword;
+    const text = keyword ? applyKeywordCase(token.value, keywordCase) : token.value;
+
+    // Default spacing: a single space, except around dots, before closing punctuation,
+    // after opening parentheses and in casts (::)
+    let spaceBefore = !!previous
+      && previous.type !== 'open-paren'
+      && previous.type !== 'dot'
+      && !(previous.type === 'operator' && previous.value === '::')
+      && !(token.type === 'operator' && token.value === '::');
+
+    // Unary minus / plus directly following an operator, comma or opening keyword
+    if (previous?.type === 'operator' && /^[-+]$/.test(previous.value)) {
+      const beforePrevious = tokens[i - 2];
+      if (!beforePrevious || ['operator', 'comma', 'open-paren'].includes(beforePrevious.type)
+        || (beforePrevious.keyword && !FUNCTION_KEYWORDS.has(beforePrevious.keyword))) {
+        spaceBefore = false;
+      }
+    }
+
+    switch (token.type) {
+      case 'line-comment':
+        write(token.value, true);
+        newline(lineLevel);
+        continue;
+
+      case 'block-comment':
+        if (token.value.includes('\n') && !atLineStart()) newline(lineLevel);
+        write(token.value, true);
+        if (token.value.includes('\n')) newline(lineLevel);
+        continue;
+
+      case 'comma':
+        output = output.replace(/[ \t]+$/, '');
+        output += ',';
+        if (!inInlineParen() && top()?.kind !== 'case') newline(clauseLevel + 1);
+        continue;
+
+      case 'semicolon':
+        output = output.replace(/\s+$/, '');
+        output += ';\n\n';
+        blocks.length = 0;
+        clauseLevel = 0;
+        lineLevel = 0;
+        currentClause = '';
+        continue;
+
+      case 'dot':
+        output = output.replace(/[ \t]+$/, '');
+        output += '.';
+        continue;
+
+      case 'open-paren': {
+        // Column lists after a table name keep their space: INSERT INTO t (a, b)
+        const isColumnList = blocks.length === 0 && TABLE_DEFINITION_CLAUSES.has(currentClause);
+        const isCall = previous
+          && (previous.type === 'word' || previous.type === 'quoted-identifier')
+          && (!previous.keyword || FUNCTION_KEYWORDS.has(previous.keyword))
+          && !isColumnList;
+        write('(', spaceBefore && !isCall);
+
+        const opensSubquery = nextToken?.keyword === 'SELECT' || nextToken?.keyword === 'SELECT DISTINCT'
+          || nextToken?.keyword === 'WITH' || nextToken?.keyword === 'WITH RECURSIVE';
+        if (opensSubquery) {
+          blocks.push({ kind: 'subquery', outerLevel: clauseLevel, lineLevel });
+          clauseLevel = lineLevel + 1;
+        } else if (blocks.length === 0 && currentClause.startsWith('CREATE TABLE') && nextToken?.type !== 'close-paren') {
+          blocks.push({ kind: 'list', outerLevel: clauseLevel, lineLevel });
+          clauseLevel = lineLevel;
+          newline(clauseLevel + 1);
+        } else {
+          blocks.push({ kind: 'paren', outerLevel: clauseLevel, lineLevel });
+        }
+        continue;
+      }
+
+      case 'close-paren': {
+        const block = blocks.pop();
+        if (block && block.kind !== 'paren') {
+          clauseLevel = block.outerLevel;
+          newline(block.lineLevel);
+        } else {
+          output = output.replace(/[ \t]+$/, '');
+        }
+        output += ')';
+        continue;
+      }
+    }
+
+    if (keyword && !inInlineParen() && top()?.kind !== 'case') {
+      if (keyword === 'GO' && dialect === 'tsql') {
+        output = output.replace(/\s+$/, '');
+        output += `\n${text}\n\n`;
+        clauseLevel = 0;
+        lineLevel = 0;
+        currentClause = '';
+        continue;
+      }
+
+      if (SET_OPERATORS.has(keyword)) {
+        newline(clauseLevel);
+        write(text, false);
+        newline(clauseLevel);
+        currentClause = '';
+        continue;
+      }
+
+      if (CLAUSE_KEYWORDS.has(keyword)) {
+        // "INTO" is only a clause of its own in SELECT ... INTO / OUTPUT ... INTO
+        if (keyword === 'INTO' && !['SELECT', 'SELECT DISTINCT', 'OUTPUT'].includes(currentClause)) {
+          write(text, spaceBefore);
+          continue;
+        }
+        newline(clauseLevel);
+        write(text, false);
+        currentClause = keyword;
+        newline(clauseLevel + 1);
+        continue;
+      }
+
+      if (JOIN_KEYWORDS.has(keyword)) {
+        newline(clauseLevel);
+        write(text, false);
+        currentClause = keyword;
+        continue;
+      }
+
+      if (keyword === 'BETWEEN' || keyword === 'NOT BETWEEN') {
+        betweenPending = true;
+      } else if ((keyword === 'AND' || keyword === 'OR') && !betweenPending) {
+        newline(clauseLevel + 1);
+        write(text, false);
+        continue;
+      } else if (keyword === 'AND') {
+        betweenPending = false;
+      }
+    }
+
+    if (keyword === 'CASE') {
+      write(text, spaceBefore);
+      blocks.push({ kind: 'case', outerLevel: clauseLevel, lineLevel });
+      continue;
+    }
+    if ((keyword === 'WHEN' || keyword === 'ELSE') && top()?.kind === 'case') {
+      newline(top().lineLevel + 1);
+      write(text, false);
+      continue;
+    }
+    if (keyword === 'END' && top()?.kind === 'case') {
+      const block = blocks.pop()!;
+      newline(block.lineLevel);
+      write(text, false);
+      continue;
+    }
+
+    write(text, spaceBefore);
+  }
+
+  return output.replace(/[ \t]+$/gm, '').trim();
+};
+
+// Whether two adjacent tokens would merge into something else without a space between them
+const needsSpace = (previous: SqlToken, next: SqlToken) => {
+  const wordLike: SqlTokenType[] = ['word', 'number', 'parameter', 'string', 'quoted-identifier'];
+  if (wordLike.includes(previous.type) && wordLike.includes(next.type)) return true;
+  if (previous.type === 'operator' && next.type === 'operator') return true;
+  // Avoid creating comments ("-" followed by "-1") or swallowing a word into a parameter
+  if (previous.type === 'operator' && /^[-/@:?$#]/.test(next.value)) return true;
+  if (next.type === 'operator' && /[-/*]$/.test(previous.value) && /^[-*/]/.test(next.value)) return true;
+  if (previous.type === 'number' && next.type === 'dot') return true;
+  return false;
+};
+
+export const minifySql = (code: string, options: Partial<SqlFormatOptions> = {}): string => {
+  const { dialect } = { ...DEFAULT_SQL_OPTIONS, ...options };
+  const tokens = tokenizeSql(code, dialect).filter((t) => {
+    if (t.type === 'whitespace' || t.type === 'line-comment') return false;
+    // MySQL executable comments (/*! ... */) carry version-specific SQL and must be kept
+    if (t.type === 'block-comment') return dialect === 'mysql' && t.value.startsWith('/*!');
+    return true;
+  });
+
+  let output = '';
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (previous && !output.endsWith('\n') && (needsSpace(previous, token) || previous.type === 'block-comment' || token.type === 'block-comment')) {
+      output += ' ';
+    }
+    // T-SQL batch separators must stay on their own line
+    if (dialect === 'tsql' && token.type === 'word' && token.value.toUpperCase() === 'GO') {
+      output = `${output.trimEnd()}\n${token.value}\n`;
+      return;
+    }
+    output += token.value;
+  });
+
+  return output.trim();
+};
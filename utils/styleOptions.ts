@@ -0,0 +1,70 @@
+import { Language, StyleOptions } from '../types';
+
+const BASE_STYLE: StyleOptions = {
+  printWidth: 80,
+  tabWidth: 2,
+  useTabs: false,
+  semi: true,
+  singleQuote: false,
+  trailingComma: 'all',
+  bracketSpacing: true,
+  singleAttributePerLine: false,
+  endOfLine: 'lf',
+};
+
+export const DEFAULT_STYLE_OPTIONS: Record<Language, StyleOptions> = {
+  [Language.JSON]: BASE_STYLE,
+  [Language.JSONC]: BASE_STYLE,
+  [Language.JSON5]: { ...BASE_STYLE, singleQuote: true },
+  [Language.JAVASCRIPT]: { ...BASE_STYLE, singleQuote: true },
+  [Language.TYPESCRIPT]: { ...BASE_STYLE, singleQuote: true },
+  [Language.HTML]: BASE_STYLE,
+  [Language.CSS]: BASE_STYLE,
+  [Language.XML]: BASE_STYLE,
+  [Language.SQL]: BASE_STYLE,
+  [Language.YAML]: BASE_STYLE,
+  [Language.MARKDOWN]: BASE_STYLE,
+};
+
+// The settings each language's formatter actually honours, in display order
+export const STYLE_FIELDS: Record<Language, (keyof StyleOptions)[]> = {
+  [Language.JSON]: ['tabWidth', 'useTabs', 'endOfLine'],
+  [Language.JSONC]: ['printWidth', 'tabWidth', 'useTabs', 'trailingComma', 'bracketSpacing', 'endOfLine'],
+  [Language.JSON5]: ['printWidth', 'tabWidth', 'useTabs', 'singleQuote', 'trailingComma', 'bracketSpacing', 'endOfLine'],
+  [Language.JAVASCRIPT]: ['printWidth', 'tabWidth', 'useTabs', 'semi', 'singleQuote', 'trailingComma', 'bracketSpacing', 'endOfLine'],
+  [Language.TYPESCRIPT]: ['printWidth', 'tabWidth', 'useTabs', 'semi', 'singleQuote', 'trailingComma', 'bracketSpacing', 'endOfLine'],
+  [Language.HTML]: ['printWidth', 'tabWidth', 'useTabs', 'singleAttributePerLine', 'endOfLine'],
+  [Language.CSS]: ['printWidth', 'tabWidth', 'useTabs', 'singleQuote', 'endOfLine'],
+  [Language.XML]: ['printWidth', 'tabWidth', 'useTabs', 'singleAttributePerLine', 'endOfLine'],
+  [Language.SQL]: ['tabWidth', 'useTabs', 'endOfLine'],
+  // YAML forbids tab indentation
+  [Language.YAML]: ['printWidth', 'tabWidth', 'singleQuote', 'bracketSpacing', 'endOfLine'],
+  [Language.MARKDOWN]: ['printWidth', 'tabWidth', 'useTabs', 'endOfLine'],
+};
+
+const STYLE_STORAGE_KEY = 'formacheck.styleOptions';
+
+// Stored settings are merged over the defaults so languages and options added later get sane values
+export const loadStoredStyleOptions = (): Record<Language, StyleOptions> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STYLE_STORAGE_KEY) || '{}');
+    const entries = Object.values(Language).map((lang) => [lang, { ...DEFAULT_STYLE_OPTIONS[lang], ...stored[lang] }]);
+    return Object.fromEntries(entries);
+  } catch {
+    return DEFAULT_STYLE_OPTIONS;
+  }
+};
+
+export const storeStyleOptions = (options: Record<Language, StyleOptions>) => {
+  try {
+    localStorage.setItem(STYLE_STORAGE_KEY, JSON.stringify(options));
+  } catch {
+    // Without storage (private mode, quota) the settings fall back to the defaults on reload
+  }
+};
+
+export const indentUnit = ({ tabWidth, useTabs }: Pick<StyleOptions, 'tabWidth' | 'useTabs'>): string =>
+  useTabs ? '\t' : ' '.repeat(tabWidth);
+
+export const applyEndOfLine = (code: string, endOfLine: StyleOptions['endOfLine']): string =>
+  endOfLine === 'crlf' ? code.replace(/\r?\n/g, '\r\n') : code.replace(/\r\n/g, '\n');
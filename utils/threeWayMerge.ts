@@ -0,0 +1,268 @@
+import { diffLines, splitLines } from './unifiedDiff';
+import { childPath, deepEqual, jsonTypeOf } from './jsonDiff';
+
+export type ConflictResolution = 'ours' | 'theirs' | 'both';
+
+export interface MergeConflict {
+  // Line range of the base ("lines 4-7") or JSON path of the conflicting value
+  location: string;
+  base: string;
+  ours: string;
+  theirs: string;
+  // False when the two sides cannot be combined, e.g. two different JSON scalars
+  canKeepBoth: boolean;
+}
+
+export interface MergeResult {
+  mode: 'lines' | 'json';
+  conflicts: MergeConflict[];
+  // Renders the merged document; unresolved conflicts are written with git-style markers
+  render: (resolutions: (ConflictResolution | undefined)[]) => string;
+  // Why a JSON merge fell back to a line merge
+  notice?: string;
+}
+
+const MARKER_OURS = '<<<<<<< ours';
+const MARKER_BASE = '||||||| base';
+const MARKER_SEPARATOR = '=======';
+const MARKER_THEIRS = '>>>>>>> theirs';
+
+const withNewline = (text: string) => (text && !text.endsWith('\n') ? `${text}\n` : text);
+
+const conflictMarkers = (ours: string, base: string, theirs: string, showBase: boolean) =>
+  `${MARKER_OURS}\n${withNewline(ours)}${showBase ? `${MARKER_BASE}\n${withNewline(base)}` : ''}`
+  + `${MARKER_SEPARATOR}\n${withNewline(theirs)}${MARKER_THEIRS}\n`;
+
+// For every line of `a`, the index of the matching line of `b`, or -1
+const matchLines = (a: string[], b: string[]) => {
+  const matches = new Array<number>(a.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  diffLines(a, b).forEach((op) => {
+    if (op.type === 'equal') matches[i++] = j++;
+    else if (op.type === 'delete') i++;
+    else j++;
+  });
+  return matches;
+};
+
+type LineChunk = { conflict: false; lines: string[] } | { conflict: true; base: string[]; ours: string[]; theirs: string[]; baseStart: number };
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+// diff3: base lines kept by both sides are stable anchors; between anchors, a region changed
+// by only one side is taken from it and a region changed differently by both is a conflict
+export const mergeLines = (base: string, ours: string, theirs: string): MergeResult => {
+  const b = splitLines(base);
+  const o = splitLines(ours);
+  const t = splitLines(theirs);
+  const inOurs = matchLines(b, o);
+  const inTheirs = matchLines(b, t);
+  const chunks: LineChunk[] = [];
+  const emit = (lines: string[]) => {
+    const last = chunks[chunks.length - 1];
+    if (last && 'lines' in last) last.lines.push(...lines);
+    else if (lines.length) chunks.push({ conflict: false, lines: [...lines] });
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (i < b.length || j < o.length || k < t.length) {
+    if (i < b.length && inOurs[i] === j && inTheirs[i] === k) {
+      emit([b[i]]);
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    let next = i;
+    while (next < b.length && (inOurs[next] < 0 || inTheirs[next] < 0)) next++;
+    const nextOurs = next < b.length ? inOurs[next] : o.length;
+    const nextTheirs = next < b.length ? inTheirs[next] : t.length;
+
+    const baseChunk = b.slice(i, next);
+    const oursChunk = o.slice(j, nextOurs);
+    const theirsChunk = t.slice(k, nextTheirs);
+    if (sameLines(oursChunk, baseChunk)) emit(theirsChunk);
+    else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) emit(oursChunk);
+    else chunks.push({ conflict: true, base: baseChunk, ours: oursChunk, theirs: theirsChunk, baseStart: i + 1 });
+
+    i = next;
+    j = nextOurs;
+    k = nextTheirs;
+  }
+
+  const conflictChunks = chunks.filter((c): c is Extract<LineChunk, { conflict: true }> => !('lines' in c));
+  const conflicts: MergeConflict[] = conflictChunks.map((c) => ({
+    location: c.base.length === 0
+      ? `after line ${c.baseStart - 1}`
+      : c.base.length === 1 ? `line ${c.baseStart}` : `lines ${c.baseStart}-${c.baseStart + c.base.length - 1}`,
+    base: c.base.join(''),
+    ours: c.ours.join(''),
+    theirs: c.theirs.join(''),
+    canKeepBoth: true,
+  }));
+
+  const render = (resolutions: (ConflictResolution | undefined)[]) => {
+    let index = 0;
+    return chunks.map((chunk) => {
+      if ('lines' in chunk) return chunk.lines.join('');
+      const conflict = conflicts[index];
+      switch (resolutions[index++]) {
+        case 'ours': return conflict.ours;
+        case 'theirs': return conflict.theirs;
+        case 'both': return withNewline(conflict.ours) + conflict.theirs;
+        default: return conflictMarkers(conflict.ours, conflict.base, conflict.theirs, true);
+      }
+    }).join('');
+  };
+
+  return { mode: 'lines', conflicts, render };
+};
+
+// Marks a key missing from one of the versions
+const ABSENT = Symbol('absent');
+type Value = unknown | typeof ABSENT;
+
+const isObject = (value: Value): value is Record<string, unknown> => value !== ABSENT && jsonTypeOf(value) === 'object';
+const same = (a: Value, b: Value) => (a === ABSENT || b === ABSENT ? a === b : deepEqual(a, b));
+
+interface JsonConflict {
+  path: string;
+  base: Value;
+  ours: Value;
+  theirs: Value;
+}
+
+// Stands in the merged tree for an unresolved conflict; an object, so no JSON value can pass for one
+class ConflictSlot {
+  constructor(readonly index: number) {}
+}
+
+const hasOwn = (obj: object, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+
+// Defined rather than assigned, so that a "__proto__" key stays an ordinary property
+const setKey = (obj: Record<string, unknown>, key: string, value: unknown) =>
+  Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true });
+
+const mergeValues = (base: Value, ours: Value, theirs: Value, path: string, conflicts: JsonConflict[]): Value => {
+  if (same(ours, theirs)) return ours;
+  if (same(base, ours)) return theirs;
+  if (same(base, theirs)) return ours;
+
+  // Both sides changed an object: merge key by key, keeping ours' key order
+  if (isObject(ours) && isObject(theirs)) {
+    const baseObject = isObject(base) ? base : {};
+    const merged: Record<string, unknown> = {};
+    const keys = [...Object.keys(ours), ...Object.keys(theirs).filter((key) => !hasOwn(ours, key))];
+    keys.forEach((key) => {
+      const pick = (obj: Record<string, unknown>) => (hasOwn(obj, key) ? obj[key] : ABSENT);
+      const value = mergeValues(pick(baseObject), pick(ours), pick(theirs), childPath(path, key), conflicts);
+      if (value !== ABSENT) setKey(merged, key, value);
+    });
+    return merged;
+  }
+
+  conflicts.push({ path, base, ours, theirs });
+  return new ConflictSlot(conflicts.length - 1);
+};
+
+const describe = (value: Value) => (value === ABSENT ? '' : JSON.stringify(value, null, 2));
+
+// Arrays are concatenated without duplicates, objects combined with ours winning on shared keys
+const keepBoth = (ours: Value, theirs: Value): Value => {
+  if (Array.isArray(ours) && Array.isArray(theirs)) {
+    return [...ours, ...theirs.filter((item) => !ours.some((o) => deepEqual(o, item)))];
+  }
+  if (isObject(ours) && isObject(theirs)) return { ...theirs, ...ours };
+  return ours;
+};
+
+const canKeepBoth = (ours: Value, theirs: Value) =>
+  (Array.isArray(ours) && Array.isArray(theirs)) || (isObject(ours) && isObject(theirs));
+
+// Re-indents a pretty-printed value so it can replace a placeholder in the middle of a line
+const indentValue = (value: unknown, indent: string) =>
+  JSON.stringify(value, null, 2).split('\n').join(`\n${indent}`);
+
+// Merges parsed JSON documents key path by key path; an empty base counts as a missing document
+export const mergeJson = (base: string, ours: string, theirs: string): MergeResult => {
+  const parse = (text: string): Value => (text.trim() ? JSON.parse(text) : ABSENT);
+  const jsonConflicts: JsonConflict[] = [];
+  const merged = mergeValues(parse(base), parse(ours), parse(theirs), '$', jsonConflicts);
+
+  const conflicts: MergeConflict[] = jsonConflicts.map((c) => ({
+    location: c.path,
+    base: describe(c.base),
+    ours: describe(c.ours),
+    theirs: describe(c.theirs),
+    canKeepBoth: canKeepBoth(c.ours, c.theirs),
+  }));
+
+  const render = (resolutions: (ConflictResolution | undefined)[]) => {
+    if (merged === ABSENT) return '';
+    const unresolved: number[] = [];
+    const resolve = (value: unknown): unknown => {
+      if (value instanceof ConflictSlot) {
+        const { index } = value;
+        const c = jsonConflicts[index];
+        const choice = resolutions[index];
+        if (choice === 'ours') return c.ours === ABSENT ? ABSENT : c.ours;
+        if (choice === 'theirs') return c.theirs === ABSENT ? ABSENT : c.theirs;
+        if (choice === 'both') return keepBoth(c.ours, c.theirs);
+        unresolved.push(index);
+        return value;
+      }
+      if (Array.isArray(value)) return value.map(resolve);
+      if (isObject(value)) {
+        const out: Record<string, unknown> = {};
+        Object.entries(value).forEach(([key, v]) => {
+          const resolved = resolve(v);
+          if (resolved !== ABSENT) setKey(out, key, resolved);
+        });
+        return out;
+      }
+      return value;
+    };
+
+    const resolved = resolve(merged);
+    if (resolved === ABSENT) return '';
+    // Unresolved conflicts are printed as placeholder strings, with a prefix found nowhere else in
+    // the document, then become marker blocks around the line holding them
+    const withoutSlots = JSON.stringify(resolved, (_, v) => (v instanceof ConflictSlot ? null : v));
+    let prefix = '__MERGE_CONFLICT_';
+    while (withoutSlots.includes(prefix)) prefix = `_${prefix}`;
+    const placeholder = (index: number) => `${prefix}${index}__`;
+    let text = `${JSON.stringify(resolved, (_, v) => (v instanceof ConflictSlot ? placeholder(v.index) : v), 2)}\n`;
+
+    unresolved.forEach((index) => {
+      const c = jsonConflicts[index];
+      const lines = text.split('\n');
+      const at = lines.findIndex((line) => line.includes(`"${placeholder(index)}"`));
+      if (at < 0) return;
+      const line = lines[at];
+      const [prefix, suffix] = line.split(`"${placeholder(index)}"`);
+      const indent = /^\s*/.exec(line)![0];
+      const side = (value: Value) => (value === ABSENT ? '' : `${prefix}${indentValue(value, indent)}${suffix}`);
+      lines.splice(at, 1, conflictMarkers(side(c.ours), '', side(c.theirs), false).replace(/\n$/, ''));
+      text = lines.join('\n');
+    });
+    return text;
+  };
+
+  return { mode: 'json', conflicts, render };
+};
+
+// JSON documents merge by key path when all three versions parse, by line otherwise
+export const mergeDocuments = (base: string, ours: string, theirs: string, json: boolean): MergeResult => {
+  if (json) {
+    try {
+      return mergeJson(base, ours, theirs);
+    } catch (e: any) {
+      return { ...mergeLines(base, ours, theirs), notice: `Merged line by line: ${e.message}` };
+    }
+  }
+  return mergeLines(base, ours, theirs);
+};
@@ -0,0 +1,300 @@
+export type LineOpType = 'equal' | 'delete' | 'insert';
+
+export interface LineOp {
+  type: LineOpType;
+  // Line including its "\n" terminator; only the last line of a text may lack one
+  line: string;
+}
+
+export interface UnifiedDiffOptions {
+  context: number;
+  originalName: string;
+  modifiedName: string;
+}
+
+export const DEFAULT_UNIFIED_DIFF_OPTIONS: UnifiedDiffOptions = {
+  context: 3,
+  originalName: 'original',
+  modifiedName: 'modified',
+};
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+// Keeping terminators makes a missing final newline a regular line change
+export const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+// Furthest-reaching paths meet here, splitting the edit script into two smaller ones; this is
+// Myers' linear-space refinement, which keeps memory at O(N + M) whatever the edit distance
+const splitPoint = (a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number): [number, number] | undefined => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  const forward = new Int32Array(2 * maxD + 3).fill(-1);
+  const backward = new Int32Array(2 * maxD + 3).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  const checkForward = delta % 2 !== 0;
+  // Diagonals whose paths ran off the grid are not extended any further
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d <= maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) { x++; y++; }
+      forward[offset + k] = x;
+      if (x > n) forwardEnd += 2;
+      else if (y > m) forwardStart += 2;
+      else if (checkForward) {
+        const reverse = offset + delta - k;
+        if (reverse >= 0 && reverse < backward.length && backward[reverse] !== -1 && x >= n - backward[reverse]) {
+          return [aLo + x, bLo + y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) { x++; y++; }
+      backward[offset + k] = x;
+      if (x > n) backwardEnd += 2;
+      else if (y > m) backwardStart += 2;
+      else if (!checkForward) {
+        const ahead = offset + delta - k;
+        if (ahead >= 0 && ahead < forward.length && forward[ahead] !== -1) {
+          const forwardX = forward[ahead];
+          if (forwardX >= n - x) return [aLo + forwardX, bLo + forwardX - (delta - k)];
+        }
+      }
+    }
+  }
+  // Not reached, as the paths meet by d = ceil((n + m) / 2); the caller then replaces the whole range
+  return undefined;
+};
+
+const diffRange = (a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number, ops: LineOp[]) => {
+  let prefix = 0;
+  while (aLo + prefix < aHi && bLo + prefix < bHi && a[aLo + prefix] === b[bLo + prefix]) prefix++;
+  for (let i = 0; i < prefix; i++) ops.push({ type: 'equal', line: a[aLo + i] });
+  aLo += prefix;
+  bLo += prefix;
+  let suffix = 0;
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) suffix++;
+  aHi -= suffix;
+  bHi -= suffix;
+
+  const split = aLo === aHi || bLo === bHi ? undefined : splitPoint(a, b, aLo, aHi, bLo, bHi);
+  if (!split) {
+    for (let i = aLo; i < aHi; i++) ops.push({ type: 'delete', line: a[i] });
+    for (let i = bLo; i < bHi; i++) ops.push({ type: 'insert', line: b[i] });
+  } else {
+    const [x, y] = split;
+    diffRange(a, b, aLo, x, bLo, y, ops);
+    diffRange(a, b, x, aHi, y, bHi, ops);
+  }
+  for (let i = aHi; i < aHi + suffix; i++) ops.push({ type: 'equal', line: a[i] });
+};
+
+// Myers' O(ND) shortest edit script, splitting at the middle of the edit path so memory stays linear
+export const diffLines = (a: string[], b: string[]): LineOp[] => {
+  const ops: LineOp[] = [];
+  diffRange(a, b, 0, a.length, 0, b.length, ops);
+  return ops;
+};
+
+const formatRange = (start: number, count: number) => {
+  // An empty range points at the line before it, as GNU diff does
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+};
+
+const formatLine = (prefix: string, line: string) =>
+  line.endsWith('\n') ? `${prefix}${line}` : `${prefix}${line}\n${NO_NEWLINE_MARKER}\n`;
+
+// Renders the comparison as a standard unified diff; identical texts produce an empty string
+export const createUnifiedDiff = (original: string, modified: string, options: Partial<UnifiedDiffOptions> = {}): string => {
+  const { context, originalName, modifiedName } = { ...DEFAULT_UNIFIED_DIFF_OPTIONS, ...options };
+  const ops = diffLines(splitLines(original), splitLines(modified));
+  const changed = ops.map((op, i) => (op.type !== 'equal' ? i : -1)).filter((i) => i >= 0);
+  if (changed.length === 0) return '';
+
+  // Group changes whose context windows touch into the same hunk
+  const groups: [number, number][] = [];
+  changed.forEach((i) => {
+    const last = groups[groups.length - 1];
+    if (last && i - last[1] <= 2 * context + 1) last[1] = i;
+    else groups.push([i, i]);
+  });
+
+  // Line numbers (1-based) of each op in both texts
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let n = 1;
+  ops.forEach((op) => {
+    oldLine.push(o);
+    newLine.push(n);
+    if (op.type !== 'insert') o++;
+    if (op.type !== 'delete') n++;
+  });
+  oldLine.push(o);
+  newLine.push(n);
+
+  let out = `--- ${originalName}\n+++ ${modifiedName}\n`;
+  groups.forEach(([first, last]) => {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length, last + context + 1);
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter((op) => op.type !== 'insert').length;
+    const newCount = slice.filter((op) => op.type !== 'delete').length;
+    out += `@@ -${formatRange(oldLine[start], oldCount)} +${formatRange(newLine[start], newCount)} @@\n`;
+    slice.forEach((op) => {
+      out += formatLine(op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+', op.line);
+    });
+  });
+  return out;
+};
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: { type: LineOpType; line: string }[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// Parses the hunks of a single-file unified diff; file headers and trailing garbage are ignored
+export const parseUnifiedDiff = (patch: string): PatchHunk[] => {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const hunks: PatchHunk[] = [];
+  let seenFileHeader = false;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      if (seenFileHeader && hunks.length > 0) {
+        throw new Error('Patch touches several files; only single-file patches can be applied');
+      }
+      seenFileHeader = true;
+      i += 2;
+      continue;
+    }
+
+    const match = HUNK_HEADER.exec(line);
+    if (!match) {
+      i++;
+      continue;
+    }
+
+    const hunk: PatchHunk = {
+      header: line,
+      oldStart: Number(match[1]),
+      oldCount: match[2] === undefined ? 1 : Number(match[2]),
+      newStart: Number(match[3]),
+      newCount: match[4] === undefined ? 1 : Number(match[4]),
+      lines: [],
+    };
+    let oldSeen = 0;
+    let newSeen = 0;
+    i++;
+
+    while (i < lines.length && (oldSeen < hunk.oldCount || newSeen < hunk.newCount || lines[i].startsWith('\\'))) {
+      const body = lines[i];
+      if (body.startsWith('\\')) {
+        // "\ No newline at end of file" applies to the previous line
+        const prev = hunk.lines[hunk.lines.length - 1];
+        if (prev) prev.line = prev.line.replace(/\n$/, '');
+      } else if (body.startsWith('-')) {
+        hunk.lines.push({ type: 'delete', line: `${body.slice(1)}\n` });
+        oldSeen++;
+      } else if (body.startsWith('+')) {
+        hunk.lines.push({ type: 'insert', line: `${body.slice(1)}\n` });
+        newSeen++;
+      } else if (body.startsWith(' ') || body === '') {
+        // Some editors strip the single space of empty context lines
+        hunk.lines.push({ type: 'equal', line: `${body.slice(1)}\n` });
+        oldSeen++;
+        newSeen++;
+      } else {
+        throw new Error(`Malformed hunk ${hunk.header}: unexpected line "${body}"`);
+      }
+      i++;
+    }
+
+    if (oldSeen !== hunk.oldCount || newSeen !== hunk.newCount) {
+      throw new Error(`Malformed hunk ${hunk.header}: patch ends before the hunk is complete`);
+    }
+    hunks.push(hunk);
+  }
+
+  if (hunks.length === 0) throw new Error('No hunks found; expected a unified diff with "@@ -a,b +c,d @@" headers');
+  return hunks;
+};
+
+export interface HunkResult {
+  header: string;
+  applied: boolean;
+  // Number of lines the hunk had to be moved from its recorded position
+  offset: number;
+  reason?: string;
+}
+
+export interface PatchResult {
+  content: string;
+  hunks: HunkResult[];
+}
+
+const matchesAt = (lines: string[], expected: string[], at: number) =>
+  at >= 0 && at + expected.length <= lines.length && expected.every((line, i) => lines[at + i] === line);
+
+// Applies each hunk at its recorded position, or the nearest position where its context matches;
+// hunks that match nowhere are reported and skipped
+export const applyUnifiedDiff = (original: string, patch: string): PatchResult => {
+  const hunks = parseUnifiedDiff(patch);
+  const source = splitLines(original);
+  const output: string[] = [];
+  const results: HunkResult[] = [];
+  // Next source line not yet copied to the output
+  let cursor = 0;
+  // Drift of earlier hunks, carried over to later ones
+  let drift = 0;
+
+  hunks.forEach((hunk) => {
+    const expected = hunk.lines.filter((l) => l.type !== 'insert').map((l) => l.line);
+    const replacement = hunk.lines.filter((l) => l.type !== 'delete').map((l) => l.line);
+    const recorded = (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1) + drift;
+
+    let found = -1;
+    for (let distance = 0; found < 0 && (recorded - distance >= cursor || recorded + distance <= source.length); distance++) {
+      if (recorded - distance >= cursor && matchesAt(source, expected, recorded - distance)) found = recorded - distance;
+      else if (distance > 0 && matchesAt(source, expected, recorded + distance)) found = recorded + distance;
+    }
+
+    if (found < 0) {
+      results.push({ header: hunk.header, applied: false, offset: 0, reason: 'Context or removed lines do not match the Original' });
+      return;
+    }
+
+    output.push(...source.slice(cursor, found), ...replacement);
+    cursor = found + expected.length;
+    drift = found - (recorded - drift);
+    results.push({ header: hunk.header, applied: true, offset: drift });
+  });
+
+  output.push(...source.slice(cursor));
+  return { content: output.join(''), hunks: results };
+};
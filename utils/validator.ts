@@ -0,0 +1,184 @@
+import { Diagnostic, Language, SqlDialect } from '../types';
+import { tokenizeSql } from './sqlFormatter';
+import * as parserBabel from 'prettier/plugins/babel';
+import * as parserHtml from 'prettier/plugins/html';
+import * as parserPostcss from 'prettier/plugins/postcss';
+import * as parserTypescript from 'prettier/plugins/typescript';
+import YAML, { YAMLError } from 'yaml';
+import { parseXml } from './xmlFormatter';
+import { JsonDialect, locateJsonError, parseJsonDialect } from './jsonDialects';
+
+// Converts a character offset into a 1-based line / column pair, as used by Monaco
+export const positionAt = (code: string, offset: number): { line: number; column: number } => {
+  const before = code.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// Prettier parsers append the location to their messages, e.g. "Unexpected token (2:7)"
+const fromParserError = (error: any): Diagnostic => {
+  const message = String(error?.message ?? error).replace(/^CssSyntaxError:\s*/, '').replace(/\s*\(\d+:\d+\)\s*$/, '');
+  const start = error?.loc?.start;
+  const end = error?.loc?.end;
+  return {
+    severity: 'error',
+    message,
+    line: start?.line ?? 1,
+    column: start?.column ?? 1,
+    endLine: end?.line,
+    endColumn: end?.column,
+  };
+};
+
+const validateJson = (code: string): Diagnostic[] => {
+  try {
+    JSON.parse(code);
+    return [];
+  } catch (e: any) {
+    const message = String(e.message);
+    const position = /at position (\d+)/.exec(message);
+    const lineColumn = /line (\d+) column (\d+)/.exec(message);
+    // Current V8 gives no position for an unexpected token, only an excerpt of the source
+    const location = position
+      ? positionAt(code, Number(position[1]))
+      : lineColumn
+        ? { line: Number(lineColumn[1]), column: Number(lineColumn[2]) }
+        : locateJsonError(code) ?? positionAt(code, code.length);
+    return [{
+      severity: 'error',
+      message: message
+        .replace(/,\s*"[\s\S]*$/, '')
+        .replace(/\s*(in JSON )?at position \d+[\s\S]*$/, '')
+        .replace(/\s*at line \d+ column \d+[\s\S]*$/, ''),
+      ...location,
+    }];
+  }
+};
+
+const validateWithParser = async (code: string, plugin: any, parser: string): Promise<Diagnostic[]> => {
+  try {
+    await plugin.parsers[parser].parse(code, {});
+    return [];
+  } catch (e) {
+    return [fromParserError(e)];
+  }
+};
+
+const validateJsonDialect = (code: string, dialect: JsonDialect): Diagnostic[] => {
+  try {
+    parseJsonDialect(code, dialect);
+    return [];
+  } catch (e) {
+    return [fromParserError(e)];
+  }
+};
+
+const validateXml = (code: string): Diagnostic[] => {
+  try {
+    parseXml(code);
+    return [];
+  } catch (e) {
+    return [fromParserError(e)];
+  }
+};
+
+const fromYamlError = (error: YAMLError, severity: Diagnostic['severity']): Diagnostic => {
+  const [start, end] = error.linePos ?? [];
+  return {
+    severity,
+    // The message repeats the location and quotes the source after the first line
+    message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+    line: start?.line ?? 1,
+    column: start?.col ?? 1,
+    endLine: end?.line,
+    endColumn: end?.col,
+  };
+};
+
+const validateYaml = (code: string): Diagnostic[] => {
+  const documents = YAML.parseAllDocuments(code);
+  if (!Array.isArray(documents)) return [];
+  return documents.flatMap((doc) => [
+    ...doc.errors.map((error) => fromYamlError(error, 'error')),
+    ...doc.warnings.map((warning) => fromYamlError(warning, 'warning')),
+  ]);
+};
+
+const isTerminatedString = (value: string, dialect: SqlDialect) => {
+  const dollarTag = /^\$\w*\$/.exec(value)?.[0];
+  if (dollarTag) return value.length >= dollarTag.length * 2 && value.endsWith(dollarTag);
+
+  const prefix = /^[NnEeXxBb](?=')/.test(value) ? value[0] : '';
+  const quote = value[prefix.length];
+  let body = value.slice(prefix.length + 1);
+  if (dialect === 'mysql' || prefix.toUpperCase() === 'E') body = body.replace(/\\[\s\S]/g, '');
+  // Doubled quotes are escapes, a terminated literal ends with a lone quote
+  return body.split(quote + quote).join('').endsWith(quote);
+};
+
+// SQL has no single grammar across dialects, so only structural problems are reported:
+// unterminated literals, identifiers and comments, and unbalanced parentheses
+const validateSql = (code: string, dialect: SqlDialect): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+  const openParens: number[] = [];
+  let offset = 0;
+
+  const report = (at: number, message: string) =>
+    diagnostics.push({ severity: 'error', message, ...positionAt(code, at) });
+
+  for (const token of tokenizeSql(code, dialect)) {
+    const { type, value } = token;
+    if (type === 'string' && !isTerminatedString(value, dialect)) {
+      report(offset, 'Unterminated string literal');
+    } else if (type === 'quoted-identifier') {
+      const closer = value[0] === '[' ? ']' : value[0];
+      if (value.length < 2 || value[value.length - 1] !== closer) report(offset, 'Unterminated quoted identifier');
+    } else if (type === 'block-comment' && !value.endsWith('*/')) {
+      report(offset, 'Unterminated block comment');
+    } else if (type === 'open-paren') {
+      openParens.push(offset);
+    } else if (type === 'close-paren') {
+      if (openParens.length === 0) report(offset, "Unexpected ')'");
+      else openParens.pop();
+    } else if (type === 'semicolon' && openParens.length > 0) {
+      openParens.splice(0).forEach((at) => report(at, "Unclosed '('"));
+    }
+    offset += value.length;
+  }
+  openParens.forEach((at) => report(at, "Unclosed '('"));
+
+  return diagnostics;
+};
+
+export const validateCode = async (
+  code: string,
+  language: Language,
+  sqlDialect: SqlDialect = 'postgresql'
+): Promise<Diagnostic[]> => {
+  if (!code.trim()) return [];
+
+  switch (language) {
+    case Language.JSON:
+      return validateJson(code);
+    case Language.JSONC:
+    case Language.JSON5:
+      return validateJsonDialect(code, language);
+    case Language.JAVASCRIPT:
+      return validateWithParser(code, parserBabel, 'babel');
+    case Language.TYPESCRIPT:
+      return validateWithParser(code, parserTypescript, 'typescript');
+    case Language.HTML:
+      return validateWithParser(code, parserHtml, 'html');
+    case Language.CSS:
+      return validateWithParser(code, parserPostcss, 'css');
+    case Language.XML:
+      return validateXml(code);
+    case Language.SQL:
+      return validateSql(code, sqlDialect);
+    case Language.YAML:
+      return validateYaml(code);
+    default:
+      // Markdown has no invalid documents
+      return [];
+  }
+};
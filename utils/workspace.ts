@@ -0,0 +1,44 @@
+import { Language, WorkspaceDocument } from '../types';
+import { DEFAULT_SQL_OPTIONS } from './sqlFormatter';
+import { DEFAULT_JS_MINIFY_OPTIONS } from './jsMinifier';
+import { loadStoredStyleOptions } from './styleOptions';
+
+// Closed tabs kept for reopening, most recent first
+export const MAX_CLOSED_TABS = 20;
+
+let nextDocumentId = 1;
+
+// "Untitled 3" after "Untitled 1" and "Untitled 2", reusing numbers freed by closed tabs
+export const untitledName = (documents: WorkspaceDocument[]): string => {
+  const taken = new Set(documents.map((doc) => doc.name));
+  let n = 1;
+  while (taken.has(`Untitled ${n}`)) n++;
+  return `Untitled ${n}`;
+};
+
+// A new tab starts from the stored formatting defaults
+export const createDocument = (fields: Partial<Omit<WorkspaceDocument, 'id'>> & { name: string }): WorkspaceDocument => ({
+  viewMode: 'formatter',
+  language: Language.JSON,
+  input: '',
+  output: '',
+  merge: { base: '', ours: '', theirs: '' },
+  sqlOptions: DEFAULT_SQL_OPTIONS,
+  jsOptions: DEFAULT_JS_MINIFY_OPTIONS,
+  styleOptions: loadStoredStyleOptions(),
+  ...fields,
+  id: `doc-${Date.now()}-${nextDocumentId++}`,
+});
+
+export const isBlankDocument = (doc: WorkspaceDocument): boolean =>
+  [doc.input, doc.output, doc.merge.base, doc.merge.ours, doc.merge.theirs].every((text) => !text.trim());
+
+// Moves the tab `id` to where `targetId` is, shifting the tabs in between
+export const moveDocument = (documents: WorkspaceDocument[], id: string, targetId: string): WorkspaceDocument[] => {
+  const from = documents.findIndex((doc) => doc.id === id);
+  const to = documents.findIndex((doc) => doc.id === targetId);
+  if (from < 0 || to < 0 || from === to) return documents;
+  const next = [...documents];
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+};
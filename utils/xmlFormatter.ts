@@ -0,0 +1,279 @@
+export interface XmlAttribute {
+  name: string;
+  // Raw value as written, entities included
+  value: string;
+  quote: '"' | "'";
+}
+
+export type XmlNode =
+  | { type: 'element'; name: string; attributes: XmlAttribute[]; children: XmlNode[]; selfClosing: boolean }
+  | { type: 'text'; value: string }
+  | { type: 'cdata'; value: string }
+  | { type: 'comment'; value: string }
+  | { type: 'instruction'; target: string; value: string }
+  | { type: 'doctype'; value: string };
+
+export type XmlElement = Extract<XmlNode, { type: 'element' }>;
+
+export interface XmlFormatOptions {
+  indent: string;
+  printWidth: number;
+  // Puts every attribute of a multi-attribute tag on its own line, not only tags wider than printWidth
+  singleAttributePerLine: boolean;
+}
+
+export const DEFAULT_XML_FORMAT_OPTIONS: XmlFormatOptions = {
+  indent: '  ',
+  printWidth: 80,
+  singleAttributePerLine: false,
+};
+
+const NAME = /[A-Za-z_:À-￿][\w.:·À-￿-]*/y;
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+// The Char production of XML 1.0: character references outside it are errors
+const isXmlChar = (codePoint: number) =>
+  codePoint === 0x9 || codePoint === 0xa || codePoint === 0xd
+  || (codePoint >= 0x20 && codePoint <= 0xd7ff)
+  || (codePoint >= 0xe000 && codePoint <= 0xfffd)
+  || (codePoint >= 0x10000 && codePoint <= 0x10ffff);
+
+// Errors carry a prettier-style location so the validator reports them like parser errors
+const syntaxError = (code: string, offset: number, message: string): Error => {
+  const before = code.slice(0, offset).split('\n');
+  const line = before.length;
+  const column = before[before.length - 1].length + 1;
+  return Object.assign(new Error(`${message} (${line}:${column})`), { loc: { start: { line, column } } });
+};
+
+// Parses a whole document and rejects anything that is not well-formed XML 1.0. Text, attribute
+// values and comments are kept exactly as written, so printing the tree loses nothing.
+export const parseXml = (code: string): XmlNode[] => {
+  const nodes: XmlNode[] = [];
+  const open: { element: XmlElement; offset: number }[] = [];
+  let pos = code.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let seenRoot = false;
+  let seenDoctype = false;
+
+  const fail = (message: string, at = pos): never => {
+    throw syntaxError(code, at, message);
+  };
+  const children = () => (open.length ? open[open.length - 1].element.children : nodes);
+  const skipSpace = () => {
+    const start = pos;
+    while (pos < code.length && ' \t\r\n'.includes(code[pos])) pos++;
+    return pos > start;
+  };
+  const readName = (what: string) => {
+    NAME.lastIndex = pos;
+    const match = NAME.exec(code);
+    if (!match) return fail(`Expected ${what} name`);
+    pos += match[0].length;
+    return match[0];
+  };
+  const checkReferences = (raw: string, offset: number) => {
+    for (const match of raw.matchAll(/&([^;&<\s]*)(;?)/g)) {
+      const [, name, semicolon] = match;
+      const at = offset + match.index!;
+      if (!semicolon) fail('Unescaped "&": write it as &amp;', at);
+      const codePoint = /^#\d+$/.test(name) ? parseInt(name.slice(1), 10) : /^#x[0-9a-fA-F]+$/.test(name) ? parseInt(name.slice(2), 16) : undefined;
+      if (codePoint !== undefined && !isXmlChar(codePoint)) fail(`"&${name};" does not refer to a character allowed in XML`, at);
+      const known = codePoint !== undefined || name in PREDEFINED_ENTITIES;
+      // Entities declared in a DOCTYPE internal subset are accepted without resolving them
+      if (!known && !(seenDoctype && /^[A-Za-z_][\w.-]*$/.test(name))) fail(`Undefined entity "&${name};"`, at);
+    }
+  };
+
+  while (pos < code.length) {
+    const start = pos;
+    if (code.startsWith('<?', pos)) {
+      pos += 2;
+      const target = readName('processing instruction target');
+      const end = code.indexOf('?>', pos);
+      if (end < 0) fail('Unterminated processing instruction', start);
+      if (pos < end && !skipSpace()) fail('Expected whitespace after the processing instruction target');
+      if (target.toLowerCase() === 'xml') {
+        // Leading whitespace is tolerated: pasted snippets often start with a blank line
+        if (target !== 'xml' || start !== code.search(/\S/)) fail('The XML declaration is only allowed at the very start of the document', start);
+      }
+      children().push({ type: 'instruction', target, value: code.slice(pos, end).trimEnd() });
+      pos = end + 2;
+    } else if (code.startsWith('<!--', pos)) {
+      const end = code.indexOf('-->', pos + 4);
+      if (end < 0) fail('Unterminated comment', start);
+      const value = code.slice(pos + 4, end);
+      if (value.includes('--') || value.endsWith('-')) fail('"--" is not allowed inside a comment', start);
+      children().push({ type: 'comment', value });
+      pos = end + 3;
+    } else if (code.startsWith('<![CDATA[', pos)) {
+      if (!open.length) fail('CDATA sections are only allowed inside the root element');
+      const end = code.indexOf(']]>', pos + 9);
+      if (end < 0) fail('Unterminated CDATA section', start);
+      children().push({ type: 'cdata', value: code.slice(pos + 9, end) });
+      pos = end + 3;
+    } else if (code.startsWith('<!DOCTYPE', pos)) {
+      if (seenRoot || seenDoctype || open.length) fail('DOCTYPE is only allowed once, before the root element');
+      // The declaration ends at the first ">" outside quoted strings and the [...] internal subset
+      let i = pos + 9;
+      let depth = 0;
+      while (i < code.length && !(code[i] === '>' && depth === 0)) {
+        if (code[i] === '"' || code[i] === "'") {
+          const close = code.indexOf(code[i], i + 1);
+          i = close < 0 ? code.length : close;
+        } else if (code[i] === '[') depth++;
+        else if (code[i] === ']') depth--;
+        i++;
+      }
+      if (i >= code.length) fail('Unterminated DOCTYPE', start);
+      nodes.push({ type: 'doctype', value: code.slice(pos + 9, i).trim() });
+      seenDoctype = true;
+      pos = i + 1;
+    } else if (code.startsWith('</', pos)) {
+      pos += 2;
+      const name = readName('closing tag');
+      skipSpace();
+      if (code[pos] !== '>') fail(`Expected ">" to end </${name}`);
+      pos++;
+      const current = open.pop();
+      if (!current) fail(`Unexpected closing tag </${name}>`, start);
+      if (current!.element.name !== name) fail(`Closing tag </${name}> does not match <${current!.element.name}>`, start);
+    } else if (code[pos] === '<') {
+      pos++;
+      if (!open.length && seenRoot) fail('Only one root element is allowed', start);
+      const element: XmlElement = { type: 'element', name: readName('element'), attributes: [], children: [], selfClosing: false };
+      for (;;) {
+        const spaced = skipSpace();
+        if (code.startsWith('/>', pos)) {
+          element.selfClosing = true;
+          pos += 2;
+          break;
+        }
+        if (code[pos] === '>') {
+          pos++;
+          break;
+        }
+        if (pos >= code.length) fail(`Unterminated start tag <${element.name}`, start);
+        if (!spaced) fail('Expected whitespace before the attribute');
+        const attributeStart = pos;
+        const name = readName('attribute');
+        skipSpace();
+        if (code[pos] !== '=') fail(`Attribute "${name}" has no value`);
+        pos++;
+        skipSpace();
+        const quote = code[pos];
+        if (quote !== '"' && quote !== "'") fail(`The value of attribute "${name}" must be quoted`);
+        const close = code.indexOf(quote, pos + 1);
+        if (close < 0) fail(`Unterminated value of attribute "${name}"`);
+        const value = code.slice(pos + 1, close);
+        if (value.includes('<')) fail('"<" is not allowed in attribute values', pos + 1 + value.indexOf('<'));
+        checkReferences(value, pos + 1);
+        if (element.attributes.some((attribute) => attribute.name === name)) fail(`Duplicate attribute "${name}"`, attributeStart);
+        element.attributes.push({ name, value, quote: quote as XmlAttribute['quote'] });
+        pos = close + 1;
+      }
+      children().push(element);
+      seenRoot = true;
+      if (!element.selfClosing) open.push({ element, offset: start });
+    } else {
+      const next = code.indexOf('<', pos);
+      const end = next < 0 ? code.length : next;
+      const value = code.slice(pos, end);
+      if (open.length) {
+        if (value.includes(']]>')) fail('"]]>" is not allowed in text', pos + value.indexOf(']]>'));
+        checkReferences(value, pos);
+        children().push({ type: 'text', value });
+      } else if (value.trim()) {
+        fail('Text is not allowed outside the root element', pos + value.search(/\S/));
+      }
+      pos = end;
+    }
+  }
+
+  if (open.length) fail(`Unclosed element <${open[open.length - 1].element.name}>`, open[open.length - 1].offset);
+  if (!seenRoot) fail('The document has no root element', code.length);
+  return nodes;
+};
+
+export const decodeXmlEntities = (raw: string): string =>
+  raw.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return PREDEFINED_ENTITIES[name] ?? match;
+  });
+
+const printAttribute = ({ name, value, quote }: XmlAttribute) => `${name}=${quote}${value}${quote}`;
+
+const printNode = (node: XmlNode): string => {
+  switch (node.type) {
+    case 'element': {
+      const tag = [node.name, ...node.attributes.map(printAttribute)].join(' ');
+      if (node.selfClosing) return `<${tag}/>`;
+      return `<${tag}>${node.children.map(printNode).join('')}</${node.name}>`;
+    }
+    case 'text':
+      return node.value;
+    case 'cdata':
+      return `<![CDATA[${node.value}]]>`;
+    case 'comment':
+      return `<!--${node.value}-->`;
+    case 'instruction':
+      return node.value ? `<?${node.target} ${node.value}?>` : `<?${node.target}?>`;
+    case 'doctype':
+      return `<!DOCTYPE ${node.value}>`;
+  }
+};
+
+const isBlankText = (node: XmlNode) => node.type === 'text' && !node.value.trim();
+
+// Whitespace is significant in elements holding text or CDATA and under xml:space="preserve"
+const keepsWhitespace = (element: XmlElement) =>
+  element.attributes.some(({ name, value }) => name === 'xml:space' && value === 'preserve') ||
+  element.children.some((child) => child.type === 'cdata' || (child.type === 'text' && child.value.trim() !== ''));
+
+export const formatXml = (code: string, options: Partial<XmlFormatOptions> = {}): string => {
+  const { indent, printWidth, singleAttributePerLine } = { ...DEFAULT_XML_FORMAT_OPTIONS, ...options };
+  const lines: string[] = [];
+
+  const openTag = (element: XmlElement, pad: string, end: string) => {
+    const inline = `${pad}<${[element.name, ...element.attributes.map(printAttribute)].join(' ')}${end}`;
+    const wrap = element.attributes.length > 1 && (singleAttributePerLine || inline.length > printWidth);
+    if (!wrap) return inline;
+    const attributes = element.attributes.map((attribute) => `${pad}${indent}${printAttribute(attribute)}`);
+    return [`${pad}<${element.name}`, ...attributes, `${pad}${end}`].join('\n');
+  };
+
+  const print = (node: XmlNode, level: number) => {
+    const pad = indent.repeat(level);
+    if (node.type !== 'element') {
+      // Only blank text reaches this point, and it is layout rather than content
+      if (!isBlankText(node)) lines.push(pad + printNode(node));
+      return;
+    }
+    if (node.selfClosing) {
+      lines.push(openTag(node, pad, '/>'));
+    } else if (node.children.length === 0 || keepsWhitespace(node)) {
+      lines.push(`${openTag(node, pad, '>')}${node.children.map(printNode).join('')}</${node.name}>`);
+    } else {
+      lines.push(openTag(node, pad, '>'));
+      node.children.forEach((child) => print(child, level + 1));
+      lines.push(`${pad}</${node.name}>`);
+    }
+  };
+
+  parseXml(code).forEach((node) => print(node, 0));
+  return `${lines.join('\n')}\n`;
+};
+
+// Drops comments and the blank text between tags, keeping every significant character
+export const minifyXml = (code: string): string => {
+  const minify = (node: XmlNode, preserve: boolean): string => {
+    if (node.type === 'comment') return '';
+    if (node.type !== 'element') return printNode(node);
+    const tag = [node.name, ...node.attributes.map(printAttribute)].join(' ');
+    if (node.selfClosing) return `<${tag}/>`;
+    const keep = preserve || keepsWhitespace(node);
+    const content = node.children.filter((child) => keep || !isBlankText(child)).map((child) => minify(child, keep));
+    return `<${tag}>${content.join('')}</${node.name}>`;
+  };
+  return parseXml(code).map((node) => minify(node, false)).join('');
+};
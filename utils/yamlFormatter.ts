@@ -0,0 +1,36 @@
+import YAML, { isNode } from 'yaml';
+
+const stripComments = (doc: YAML.Document) => {
+  doc.commentBefore = null;
+  doc.comment = null;
+  YAML.visit(doc, (_key, node) => {
+    if (isNode(node)) {
+      node.commentBefore = null;
+      node.comment = null;
+      node.spaceBefore = false;
+    }
+  });
+};
+
+// Rewrites every collection in flow style. Each document stays a separate "---" section and
+// anchors, aliases and tags are kept as written, so the result parses to the same data.
+export const minifyYaml = (code: string): string => {
+  const documents = YAML.parseAllDocuments(code);
+  if (!Array.isArray(documents)) return '';
+
+  return documents
+    .map((doc, index) => {
+      const error = doc.errors[0];
+      if (error) throw new Error(error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''));
+      stripComments(doc);
+      YAML.visit(doc, {
+        Collection: (_key, node) => {
+          node.flow = true;
+        },
+      });
+      // Documents after the first need their "---" marker even when the source omitted it
+      if (index > 0) doc.directives.docStart = true;
+      return doc.toString({ lineWidth: 0, flowCollectionPadding: false }).trim();
+    })
+    .join('\n');
+};
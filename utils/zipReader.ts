@@ -0,0 +1,59 @@
+// Minimal reader for .zip archives: stored and deflated entries, no encryption, no ZIP64.
+// Inflating goes through the browser's DecompressionStream, so no library is needed.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+// The end record sits in the last 22 bytes, followed by an archive comment of up to 64 KiB
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a zip archive');
+};
+
+// Resolves to the archive's files by path; folders only show up through the paths of their files
+export const readZip = async (data: ArrayBuffer | Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_FILE_HEADER) throw new Error('The zip archive is damaged');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & 1) throw new Error(`"${path}" is encrypted`);
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error('The zip archive is damaged');
+    // The local header repeats the name but may carry a different extra field
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === STORED) files.set(path, raw);
+    else if (method === DEFLATED) files.set(path, await inflateRaw(raw));
+    else throw new Error(`"${path}" uses an unsupported compression method (${method})`);
+  }
+  return files;
+};
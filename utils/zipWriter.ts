@@ -0,0 +1,93 @@
+// Writes .zip archives with deflated entries, through the browser's CompressionStream
+
+export interface ZipEntry {
+  path: string;
+  bytes: Uint8Array;
+}
+
+const UTF8_NAMES = 1 << 11;
+const DEFLATED = 8;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const deflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+// MS-DOS time and date fields, in local time as archivers expect
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (entries: ZipEntry[], modified: Date = new Date()): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { path, bytes } of entries) {
+    const name = encoder.encode(path);
+    const data = await deflateRaw(bytes);
+    const crc = crc32(bytes);
+
+    // Fields shared by the local header (from byte 4) and the central directory entry (from byte 6)
+    const common = new DataView(new ArrayBuffer(26));
+    common.setUint16(0, 20, true);
+    common.setUint16(2, UTF8_NAMES, true);
+    common.setUint16(4, DEFLATED, true);
+    common.setUint16(6, time, true);
+    common.setUint16(8, date, true);
+    common.setUint32(10, crc, true);
+    common.setUint32(14, data.length, true);
+    common.setUint32(18, bytes.length, true);
+    common.setUint16(22, name.length, true);
+    const commonBytes = new Uint8Array(common.buffer);
+
+    const local = new Uint8Array(30 + name.length);
+    new DataView(local.buffer).setUint32(0, 0x04034b50, true);
+    local.set(commonBytes, 4);
+    local.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(4, 20, true);
+    entry.set(commonBytes, 6);
+    entryView.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(local, data);
+    central.push(entry);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, entry) => sum + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...parts, ...central, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+};
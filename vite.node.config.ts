@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node package: the library entry and the formacheck command line tool.
+// Dependencies stay external and are resolved from node_modules at run time.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        index: 'lib/index.ts',
+        formacheck: 'lib/formacheck.ts',
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        banner: (chunk) => (chunk.name === 'formacheck' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+});